@@ -0,0 +1,94 @@
+/**
+ * FRAME READER BENCHMARK
+ * ======================
+ * Compares the chunked Mp3FrameReader against the previous per-frame design
+ * (two fs.readSync calls and two allocations per frame, recursive resync) on a
+ * synthetic file. Run with: bun run scripts/benchmarkFrameReader.ts [frames]
+ */
+
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { Mp3FrameReader, parseFrameHeader } from '../src/mp3parser'
+
+const FRAME_COUNT = Number(process.argv[2]) || 20_000 // ~8 min of 128 kbps audio
+const ROUNDS = 5
+
+/**
+ * The reader as it was: a 4-byte read for the header, then a read for the
+ * frame, into fresh buffers every time
+ */
+function legacyReadAll(filePath: string): { frames: number; reads: number } {
+	const fd = fs.openSync(filePath, 'r')
+	const fileSize = fs.fstatSync(fd).size
+	let position = 0
+	let frames = 0
+	let reads = 0
+
+	while (position + 4 <= fileSize) {
+		const headerBuf = Buffer.alloc(4)
+		fs.readSync(fd, headerBuf, 0, 4, position)
+		reads++
+		const header = parseFrameHeader(headerBuf)
+		if (!header || header.frameSize === 0) {
+			position++
+			continue
+		}
+		const frameData = Buffer.alloc(header.frameSize)
+		fs.readSync(fd, frameData, 0, header.frameSize, position)
+		reads++
+		position += header.frameSize
+		frames++
+	}
+
+	fs.closeSync(fd)
+	return { frames, reads }
+}
+
+function chunkedReadAll(filePath: string): { frames: number; reads: number } {
+	const reader = new Mp3FrameReader(filePath)
+	while (reader.readNextFrame()) {
+		// drain
+	}
+	reader.close()
+	const stats = reader.getStats()
+	return { frames: stats.frames, reads: stats.reads }
+}
+
+function bench(name: string, readAll: (filePath: string) => { frames: number; reads: number }, file: string) {
+	readAll(file) // warm the page cache and JIT
+	const samples: number[] = []
+	let result = { frames: 0, reads: 0 }
+	for (let i = 0; i < ROUNDS; i++) {
+		const start = process.hrtime.bigint()
+		result = readAll(file)
+		samples.push(Number(process.hrtime.bigint() - start))
+	}
+	samples.sort((a, b) => a - b)
+	const medianNs = samples[Math.floor(samples.length / 2)] ?? 0
+	const perFrameNs = medianNs / Math.max(1, result.frames)
+	console.log(
+		`${name.padEnd(10)} ${result.frames} frames, ${result.reads} reads, ` +
+			`${(medianNs / 1e6).toFixed(1)}ms total, ${perFrameNs.toFixed(0)}ns/frame`,
+	)
+	return perFrameNs
+}
+
+// MPEG1 Layer III, 128 kbps, 44.1 kHz: 417-byte frames
+const frame = Buffer.alloc(417)
+Buffer.from([0xff, 0xfb, 0x90, 0x64]).copy(frame)
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'frame-reader-bench-'))
+const file = path.join(dir, 'bench.mp3')
+try {
+	fs.writeFileSync(file, Buffer.concat(Array.from({ length: FRAME_COUNT }, () => frame)))
+	console.log(
+		`Synthetic file: ${FRAME_COUNT} frames, ${(fs.statSync(file).size / 1024 / 1024).toFixed(1)} MB\n`,
+	)
+
+	const legacy = bench('legacy', legacyReadAll, file)
+	const chunked = bench('chunked', chunkedReadAll, file)
+	console.log(`\nPer-frame cost: ${(legacy / chunked).toFixed(1)}x lower`)
+} finally {
+	fs.rmSync(dir, { recursive: true, force: true })
+}
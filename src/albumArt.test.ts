@@ -0,0 +1,61 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { AlbumArtStore, imageType, parseThumbnailSize, trackArtUrl } from './albumArt'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'art-test-'))
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }))
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(32)])
+const JPEG = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(32)])
+
+describe('imageType', () => {
+	test('sniffs the format from the first bytes', () => {
+		expect(imageType(PNG)).toBe('png')
+		expect(imageType(JPEG)).toBe('jpg')
+		expect(imageType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('webp')
+		expect(imageType(Buffer.from('GIF89a'))).toBe('gif')
+		expect(imageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull()
+		expect(imageType(Buffer.alloc(0))).toBeNull()
+	})
+})
+
+describe('trackArtUrl', () => {
+	test('prefers a manual URL over the stored cover', () => {
+		const artHash = 'a'.repeat(64)
+		expect(trackArtUrl({ artHash })).toBe(`/art/${artHash}`)
+		expect(trackArtUrl({ artHash, albumArtUrl: 'https://example.com/cover.jpg' })).toBe(
+			'https://example.com/cover.jpg',
+		)
+		expect(trackArtUrl({ artHash: null })).toBeUndefined()
+		expect(trackArtUrl(undefined)).toBeUndefined()
+	})
+})
+
+describe('AlbumArtStore', () => {
+	test('stores images once by content hash', async () => {
+		const store = new AlbumArtStore(path.join(tmpDir, 'store'))
+		const hash = await store.save(PNG)
+		expect(hash).toMatch(/^[0-9a-f]{64}$/)
+		expect(await store.save(Buffer.from(PNG))).toBe(hash)
+		expect(await store.save(JPEG)).not.toBe(hash)
+		expect(await store.save(Buffer.from('not an image'))).toBeNull()
+
+		const found = store.find(hash ?? '')
+		expect(found?.contentType).toBe('image/png')
+		expect(fs.readFileSync(found?.path ?? '')).toEqual(PNG)
+	})
+
+	test('falls back to the original when there is no thumbnail', async () => {
+		const store = new AlbumArtStore(path.join(tmpDir, 'fallback'))
+		const hash = (await store.save(PNG)) ?? ''
+		fs.rmSync(path.join(tmpDir, 'fallback', `${hash}-128.jpg`), { force: true })
+		expect(store.find(hash, parseThumbnailSize('128'))?.path).toBe(
+			path.join(tmpDir, 'fallback', `${hash}.png`),
+		)
+		expect(parseThumbnailSize('300')).toBeNull()
+		expect(store.find('../../state')).toBeNull()
+		expect(store.find('b'.repeat(64))).toBeNull()
+	})
+})
@@ -0,0 +1,154 @@
+/**
+ * ALBUM ART
+ * =========
+ * Cover images stored under `.radio-state/art/`, named by the SHA-256 of
+ * their bytes, so tracks from the same album share one file and the URL of
+ * a cover never changes what it points at (which is what lets `/art/:hash`
+ * be cached forever).
+ *
+ * Covers come from the art embedded in a track's tags, extracted when the
+ * track is uploaded or the library is rescanned, or from an admin upload.
+ * Each one is also scaled down with ffmpeg into a few thumbnail sizes; if
+ * ffmpeg is missing or can't read the image, the original is served instead.
+ */
+
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { FFMPEG, run } from './audioNormalizer'
+
+export const ART_DIR = path.join(__dirname, '../songs/.radio-state/art')
+
+// Longest side of each thumbnail, in pixels
+export const THUMBNAIL_SIZES = [128, 512] as const
+export type ThumbnailSize = (typeof THUMBNAIL_SIZES)[number]
+
+const IMAGE_TYPES = {
+	jpg: 'image/jpeg',
+	png: 'image/png',
+	webp: 'image/webp',
+	gif: 'image/gif',
+} as const
+export type ImageExtension = keyof typeof IMAGE_TYPES
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/
+
+/**
+ * Image format from a file's first bytes (tag and upload mime types can't be
+ * trusted), or null for anything that isn't a supported image
+ */
+export function imageType(data: Buffer): ImageExtension | null {
+	if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpg'
+	if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png'
+	if (data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') return 'webp'
+	if (data.toString('latin1', 0, 4) === 'GIF8') return 'gif'
+	return null
+}
+
+export function isArtHash(value: string): boolean {
+	return HASH_PATTERN.test(value)
+}
+
+export function parseThumbnailSize(value: unknown): ThumbnailSize | null {
+	const size = Number(value)
+	return THUMBNAIL_SIZES.find(candidate => candidate === size) ?? null
+}
+
+/**
+ * URL a track's cover is shown from: a manual `albumArtUrl` wins over the
+ * stored cover
+ */
+export function trackArtUrl(
+	meta: { albumArtUrl?: string; artHash?: string | null } | undefined,
+): string | undefined {
+	return meta?.albumArtUrl || (meta?.artHash ? `/art/${meta.artHash}` : undefined)
+}
+
+export interface StoredArt {
+	path: string
+	contentType: string
+}
+
+class AlbumArtStore {
+	private readonly dir: string
+
+	constructor(dir: string = ART_DIR) {
+		this.dir = dir
+	}
+
+	/**
+	 * Store an image and its thumbnails. Returns its hash, or null if the
+	 * bytes aren't a supported image.
+	 */
+	async save(data: Buffer): Promise<string | null> {
+		const ext = imageType(data)
+		if (!ext) return null
+
+		const hash = createHash('sha256').update(data).digest('hex')
+		const original = path.join(this.dir, `${hash}.${ext}`)
+		if (fs.existsSync(original)) return hash
+
+		fs.mkdirSync(this.dir, { recursive: true })
+		fs.writeFileSync(original, data)
+		for (const size of THUMBNAIL_SIZES) {
+			await this.makeThumbnail(original, this.thumbnailPath(hash, size), size)
+		}
+		return hash
+	}
+
+	private thumbnailPath(hash: string, size: ThumbnailSize): string {
+		return path.join(this.dir, `${hash}-${size}.jpg`)
+	}
+
+	/**
+	 * Scale an image to fit a size x size box (never up) as a JPEG. Leaves
+	 * nothing behind on failure.
+	 */
+	private async makeThumbnail(source: string, output: string, size: ThumbnailSize): Promise<void> {
+		try {
+			const { code, stderr } = await run(FFMPEG, [
+				'-v',
+				'error',
+				'-i',
+				source,
+				'-frames:v',
+				'1',
+				'-vf',
+				`scale='min(${size},iw)':'min(${size},ih)':force_original_aspect_ratio=decrease`,
+				'-q:v',
+				'3',
+				'-y',
+				output,
+			])
+			if (code === 0) return
+			console.warn(`[AlbumArt] Could not make ${size}px thumbnail: ${stderr.trim()}`)
+		} catch (err) {
+			// ffmpeg itself is missing
+			console.warn(
+				`[AlbumArt] Could not make ${size}px thumbnail: ${err instanceof Error ? err.message : err}`,
+			)
+		}
+		fs.rmSync(output, { force: true })
+	}
+
+	/**
+	 * The file to serve for a cover: the thumbnail if asked for and made,
+	 * otherwise the original
+	 */
+	find(hash: string, size: ThumbnailSize | null = null): StoredArt | null {
+		if (!isArtHash(hash)) return null
+		if (size) {
+			const thumbnail = this.thumbnailPath(hash, size)
+			if (fs.existsSync(thumbnail)) return { path: thumbnail, contentType: IMAGE_TYPES.jpg }
+		}
+		for (const [ext, contentType] of Object.entries(IMAGE_TYPES)) {
+			const original = path.join(this.dir, `${hash}.${ext}`)
+			if (fs.existsSync(original)) return { path: original, contentType }
+		}
+		return null
+	}
+}
+
+export const albumArt = new AlbumArtStore()
+
+export { AlbumArtStore }
@@ -0,0 +1,144 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { classifyUserAgent, ListenerAnalytics, listeningByDay, peakConcurrency } from './analytics'
+import type { Track } from './types'
+
+const DAY = Date.UTC(2024, 4, 1)
+const MIN = 60_000
+
+const trackA: Track = { id: 'a', path: '/songs/a.mp3', title: 'Alpha', artist: 'One' }
+const trackB: Track = { id: 'b', path: '/songs/b.mp3', title: 'Beta', artist: 'Two' }
+
+function connection(key: string, startedAt: number, userAgent: string | null = null) {
+	return { key, sessionId: `sid-${key}`, mount: '/stream', userAgent, startedAt }
+}
+
+describe('classifyUserAgent', () => {
+	test('sorts common clients', () => {
+		expect(classifyUserAgent(null)).toBe('unknown')
+		expect(classifyUserAgent('VLC/3.0.20 LibVLC/3.0.20')).toBe('player')
+		expect(classifyUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148')).toBe(
+			'mobile',
+		)
+		expect(classifyUserAgent('Mozilla/5.0 (X11; Linux x86_64) Firefox/126.0')).toBe('desktop')
+		expect(classifyUserAgent('Googlebot/2.1')).toBe('bot')
+		expect(classifyUserAgent('curl/8.5.0')).toBe('other')
+	})
+})
+
+describe('peakConcurrency', () => {
+	test('finds the most overlapping intervals', () => {
+		expect(
+			peakConcurrency([
+				{ start: 0, end: 10 },
+				{ start: 5, end: 15 },
+				{ start: 7, end: 8 },
+				{ start: 12, end: 20 },
+			]),
+		).toEqual({ peak: 3, at: 7 })
+	})
+
+	test('a reconnect at the same instant is not two listeners', () => {
+		expect(
+			peakConcurrency([
+				{ start: 0, end: 10 },
+				{ start: 10, end: 20 },
+			]).peak,
+		).toBe(1)
+	})
+})
+
+describe('listeningByDay', () => {
+	test('splits listening across midnight', () => {
+		const byDay = listeningByDay([{ start: DAY - 30 * MIN, end: DAY + 90 * MIN }])
+		expect(byDay.get('2024-04-30')).toBe(30 * MIN)
+		expect(byDay.get('2024-05-01')).toBe(90 * MIN)
+	})
+})
+
+describe('ListenerAnalytics', () => {
+	test('records sessions, plays and who heard what', () => {
+		const analytics = new ListenerAnalytics(':memory:')
+		const station = analytics.forStation('default')
+
+		station.onListenerStart(connection('x', DAY, 'VLC/3.0'))
+		station.onTrackStart({ track: trackA, startedAt: DAY + MIN })
+		station.onListenerStart(connection('y', DAY + 2 * MIN))
+		station.onTrackEnd({ track: trackA, startedAt: DAY + MIN }, DAY + 5 * MIN)
+
+		station.onTrackStart({ track: trackB, startedAt: DAY + 5 * MIN })
+		station.onListenerEnd('y', DAY + 6 * MIN) // left a quarter into Beta
+		station.onTrackEnd({ track: trackB, startedAt: DAY + 5 * MIN }, DAY + 9 * MIN)
+		station.onListenerEnd('x', DAY + 10 * MIN)
+
+		const from = DAY - MIN
+		const to = DAY + 60 * MIN
+		expect(analytics.getPeakListeners('default', from, to)).toEqual({ peak: 2, at: DAY + 2 * MIN })
+		expect(analytics.getListenerHours('default', from, to)).toEqual([
+			{ date: '2024-05-01', listenerHours: 0.233, sessions: 2 }, // 10 + 4 minutes
+		])
+
+		const tracks = analytics.getTrackRetention('default', from, to, 10)
+		const alpha = tracks.find(track => track.trackId === 'a')
+		const beta = tracks.find(track => track.trackId === 'b')
+		expect(alpha).toMatchObject({ plays: 1, listeners: 2, avgRetention: 1, skipOffRate: 0 })
+		expect(beta).toMatchObject({ plays: 1, listeners: 2, avgRetention: 0.625, skipOffRate: 0.5 })
+
+		const [latest, first] = analytics.getRecentSessions('default', 10)
+		expect(latest?.sessionId).toBe('sid-y')
+		expect(latest?.listenMs).toBe(4 * MIN)
+		expect(latest?.tracks.map(track => [track.trackId, track.leftEarly])).toEqual([
+			['a', false],
+			['b', true],
+		])
+		expect(first?.clientType).toBe('player')
+	})
+
+	test('keeps stations apart and ignores unknown connections', () => {
+		const analytics = new ListenerAnalytics(':memory:')
+		const study = analytics.forStation('study')
+		study.onListenerStart(connection('x', DAY))
+		study.onListenerEnd('nope', DAY + MIN)
+		study.onListenerEnd('x', DAY + MIN)
+
+		expect(analytics.getPeakListeners('study', DAY, DAY + MIN).peak).toBe(1)
+		expect(analytics.getPeakListeners('default', DAY, DAY + MIN).peak).toBe(0)
+	})
+
+	test('sets plays keyed by library index apart from track ids', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'analytics-test-'))
+		const dbPath = path.join(dir, 'analytics.sqlite')
+		try {
+			const before = new ListenerAnalytics(dbPath)
+			const station = before.forStation('default')
+			const indexed = { track: { ...trackA, id: '3' }, startedAt: DAY }
+			const hashed = { track: { ...trackB, id: '0123456789012345' }, startedAt: DAY + MIN }
+			station.onListenerStart(connection('x', DAY))
+			station.onTrackStart(indexed)
+			station.onTrackEnd(indexed, DAY + MIN)
+			station.onTrackStart(hashed)
+			station.onTrackEnd(hashed, DAY + 2 * MIN)
+			station.onListenerEnd('x', DAY + 3 * MIN)
+			before.stop()
+
+			const after = new ListenerAnalytics(dbPath)
+			const tracks = after.getTrackRetention('default', DAY - MIN, DAY + 60 * MIN, 10)
+			expect(tracks.map(track => track.trackId).sort()).toEqual(['0123456789012345', 'v1:3'])
+			after.stop()
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true })
+		}
+	})
+
+	test("release ends a station's open sessions", () => {
+		const analytics = new ListenerAnalytics(':memory:')
+		const study = analytics.forStation('study')
+		study.onListenerStart(connection('x', DAY))
+		analytics.release(study)
+
+		const [session] = analytics.getRecentSessions('study', 10)
+		expect(session?.endedAt).not.toBeNull()
+	})
+})
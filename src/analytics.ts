@@ -0,0 +1,490 @@
+/**
+ * LISTENER ANALYTICS
+ * ==================
+ * Records who listened, for how long and to what, in SQLite
+ * (`.radio-state/analytics.sqlite`) so it outlives the in-memory session maps:
+ *
+ * - `listener_sessions`: one row per connection on any output (/stream, HLS,
+ *   transcoded mounts) with user agent, client type, start and end.
+ * - `plays`: one row per track played on a station.
+ * - `session_tracks`: which plays each session heard, when it joined and left
+ *   the track, and whether it disconnected before the track ended.
+ *
+ * Each station gets a {@link StationAnalytics} recorder, wired in as both an
+ * engine observer (plays) and a listener observer (sessions). Open rows are
+ * checkpointed every minute; after a crash they are closed at the last
+ * checkpoint on the next start.
+ *
+ * Days are UTC.
+ */
+
+import { Database } from 'bun:sqlite'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { EngineObserver } from './streamEngine'
+import type { ListenerConnection, ListenerObserver, NowPlaying } from './types'
+
+const CHECKPOINT_INTERVAL_MS = 60_000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type ClientType = 'desktop' | 'mobile' | 'player' | 'bot' | 'other' | 'unknown'
+
+export interface PeakListeners {
+	peak: number
+	at: number | null // When the peak was first reached
+}
+
+export interface DailyListening {
+	date: string // YYYY-MM-DD (UTC)
+	listenerHours: number
+	sessions: number // Sessions started that day
+}
+
+export interface TrackRetention {
+	trackId: string
+	title: string
+	artist: string
+	plays: number
+	listeners: number // Session/play pairs measured
+	avgRetention: number // Mean share of the remaining track heard, 0-1
+	skipOffRate: number // Share of listeners who disconnected before it ended, 0-1
+}
+
+export interface SessionSummary {
+	mount: string
+	sessionId: string | null
+	clientType: ClientType
+	userAgent: string | null
+	startedAt: number
+	endedAt: number | null
+	listenMs: number
+	tracks: { trackId: string; title: string; artist: string; leftEarly: boolean }[]
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS listener_sessions (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	station_id TEXT NOT NULL,
+	session_id TEXT,
+	mount TEXT NOT NULL,
+	user_agent TEXT,
+	client_type TEXT NOT NULL,
+	started_at INTEGER NOT NULL,
+	last_seen_at INTEGER NOT NULL,
+	ended_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS listener_sessions_station_started ON listener_sessions (station_id, started_at);
+
+CREATE TABLE IF NOT EXISTS plays (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	station_id TEXT NOT NULL,
+	track_id TEXT NOT NULL,
+	title TEXT NOT NULL,
+	artist TEXT NOT NULL,
+	started_at INTEGER NOT NULL,
+	last_seen_at INTEGER NOT NULL,
+	ended_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS plays_station_started ON plays (station_id, started_at);
+
+CREATE TABLE IF NOT EXISTS session_tracks (
+	session_row INTEGER NOT NULL,
+	play_id INTEGER NOT NULL,
+	joined_at INTEGER NOT NULL,
+	left_at INTEGER,
+	left_early INTEGER NOT NULL DEFAULT 0,
+	PRIMARY KEY (session_row, play_id)
+);
+CREATE INDEX IF NOT EXISTS session_tracks_play ON session_tracks (play_id);
+`
+
+/**
+ * Rough client type from a User-Agent header
+ */
+export function classifyUserAgent(userAgent: string | null): ClientType {
+	if (!userAgent) return 'unknown'
+	if (/bot|crawler|spider|monitor/i.test(userAgent)) return 'bot'
+	if (/vlc|mpv|mplayer|foobar|winamp|itunes|sonos|kodi|xbmc|roku|nsplayer|lavf|gstreamer/i.test(userAgent)) {
+		return 'player'
+	}
+	if (/mobi|android|iphone|ipad|ipod/i.test(userAgent)) return 'mobile'
+	if (/mozilla|applecoremedia/i.test(userAgent)) return 'desktop'
+	return 'other'
+}
+
+/**
+ * Peak number of overlapping intervals, and when it was first reached
+ */
+export function peakConcurrency(intervals: { start: number; end: number }[]): PeakListeners {
+	// Ends sort before starts at the same instant: a reconnect isn't two listeners
+	const events = intervals
+		.flatMap(({ start, end }) => [
+			{ at: start, delta: 1 },
+			{ at: end, delta: -1 },
+		])
+		.sort((a, b) => a.at - b.at || a.delta - b.delta)
+
+	let current = 0
+	let peak: PeakListeners = { peak: 0, at: null }
+	for (const event of events) {
+		current += event.delta
+		if (current > peak.peak) {
+			peak = { peak: current, at: event.at }
+		}
+	}
+	return peak
+}
+
+/**
+ * Listening time per UTC day, splitting intervals that cross midnight
+ */
+export function listeningByDay(intervals: { start: number; end: number }[]): Map<string, number> {
+	const byDay = new Map<string, number>()
+	for (const { start, end } of intervals) {
+		let cursor = start
+		while (cursor < end) {
+			const dayEnd = (Math.floor(cursor / DAY_MS) + 1) * DAY_MS
+			const sliceEnd = Math.min(end, dayEnd)
+			const date = new Date(cursor).toISOString().slice(0, 10)
+			byDay.set(date, (byDay.get(date) ?? 0) + sliceEnd - cursor)
+			cursor = sliceEnd
+		}
+	}
+	return byDay
+}
+
+const round3 = (value: number): number => Math.round(value * 1000) / 1000
+
+class ListenerAnalytics {
+	private readonly db: Database
+	private readonly recorders: Set<StationAnalytics> = new Set()
+	private checkpointInterval: ReturnType<typeof setInterval> | null = null
+
+	/**
+	 * @param dbPath - SQLite file, or ':memory:'
+	 */
+	constructor(dbPath: string) {
+		if (dbPath !== ':memory:') {
+			fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+		}
+		this.db = new Database(dbPath, { create: true })
+		this.db.exec('PRAGMA journal_mode = WAL')
+		this.db.exec(SCHEMA)
+		this.retireIndexIds()
+		this.recoverOpenRows()
+	}
+
+	/**
+	 * Plays recorded before track ids came from the audio were keyed by the
+	 * track's position in the library, which shifted as files came and went,
+	 * so they can't be tied to a song now. They get a `v1:` prefix to keep
+	 * them out of the new ids' retention stats; sessions and listener hours
+	 * are unaffected.
+	 */
+	private retireIndexIds(): void {
+		this.db.run(
+			"UPDATE plays SET track_id = 'v1:' || track_id WHERE track_id NOT GLOB '*[^0-9]*' AND length(track_id) BETWEEN 1 AND 15",
+		)
+	}
+
+	/**
+	 * Close rows left open by a crash at their last checkpoint
+	 */
+	private recoverOpenRows(): void {
+		this.db.exec(`
+			UPDATE listener_sessions SET ended_at = last_seen_at WHERE ended_at IS NULL;
+			UPDATE plays SET ended_at = last_seen_at WHERE ended_at IS NULL;
+			UPDATE session_tracks
+				SET left_at = (SELECT ended_at FROM listener_sessions WHERE id = session_row)
+				WHERE left_at IS NULL;
+		`)
+	}
+
+	/**
+	 * Start the periodic checkpoint of open sessions and plays
+	 */
+	start(): void {
+		if (this.checkpointInterval) return
+		this.checkpointInterval = setInterval(() => this.checkpoint(Date.now()), CHECKPOINT_INTERVAL_MS)
+	}
+
+	checkpoint(now: number): void {
+		try {
+			this.db.run('UPDATE listener_sessions SET last_seen_at = ? WHERE ended_at IS NULL', [now])
+			this.db.run('UPDATE plays SET last_seen_at = ? WHERE ended_at IS NULL', [now])
+		} catch (err) {
+			console.error('[Analytics] Checkpoint failed:', err)
+		}
+	}
+
+	/**
+	 * Recorder for one station's sessions and plays
+	 */
+	forStation(stationId: string): StationAnalytics {
+		const recorder = new StationAnalytics(this.db, stationId)
+		this.recorders.add(recorder)
+		return recorder
+	}
+
+	/**
+	 * End a station's open sessions and play now and stop tracking it (station deleted)
+	 */
+	release(recorder: StationAnalytics): void {
+		if (!this.recorders.delete(recorder)) return
+		recorder.close(Date.now())
+	}
+
+	/**
+	 * End every open session and play now (server shutdown)
+	 */
+	stop(): void {
+		if (this.checkpointInterval) {
+			clearInterval(this.checkpointInterval)
+			this.checkpointInterval = null
+		}
+		const now = Date.now()
+		for (const recorder of this.recorders) {
+			recorder.close(now)
+		}
+	}
+
+	/**
+	 * Most concurrent listeners in [from, to)
+	 */
+	getPeakListeners(stationId: string, from: number, to: number): PeakListeners {
+		return peakConcurrency(this.sessionIntervals(stationId, from, to))
+	}
+
+	/**
+	 * Listener-hours per UTC day in [from, to)
+	 */
+	getListenerHours(stationId: string, from: number, to: number): DailyListening[] {
+		const byDay = listeningByDay(this.sessionIntervals(stationId, from, to))
+		const started = this.db
+			.query<{ date: string; sessions: number }, [string, number, number]>(
+				`SELECT date(started_at / 1000, 'unixepoch') AS date, COUNT(*) AS sessions
+				FROM listener_sessions WHERE station_id = ? AND started_at >= ? AND started_at < ?
+				GROUP BY date`,
+			)
+			.all(stationId, from, to)
+		const sessionsByDay = new Map(started.map(row => [row.date, row.sessions]))
+
+		return [...byDay.entries()]
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([date, ms]) => ({
+				date,
+				listenerHours: round3(ms / 3_600_000),
+				sessions: sessionsByDay.get(date) ?? 0,
+			}))
+	}
+
+	/**
+	 * Per-track audience for plays started in [from, to), most listened first
+	 */
+	getTrackRetention(stationId: string, from: number, to: number, limit: number): TrackRetention[] {
+		const rows = this.db
+			.query<TrackRetention, [string, number, number, number]>(
+				`SELECT p.track_id AS trackId, p.title AS title, p.artist AS artist,
+					COUNT(DISTINCT p.id) AS plays,
+					COUNT(*) AS listeners,
+					AVG(MIN(1.0, CAST(st.left_at - st.joined_at AS REAL) / MAX(1, p.ended_at - st.joined_at))) AS avgRetention,
+					AVG(st.left_early) AS skipOffRate
+				FROM plays p JOIN session_tracks st ON st.play_id = p.id
+				WHERE p.station_id = ? AND p.started_at >= ? AND p.started_at < ?
+					AND p.ended_at IS NOT NULL AND st.left_at IS NOT NULL
+				GROUP BY p.track_id
+				ORDER BY listeners DESC, plays DESC
+				LIMIT ?`,
+			)
+			.all(stationId, from, to, limit)
+		return rows.map(row => ({
+			...row,
+			avgRetention: round3(row.avgRetention),
+			skipOffRate: round3(row.skipOffRate),
+		}))
+	}
+
+	/**
+	 * Most recent sessions with the tracks each one heard
+	 */
+	getRecentSessions(stationId: string, limit: number): SessionSummary[] {
+		const sessions = this.db
+			.query<
+				{
+					id: number
+					mount: string
+					sessionId: string | null
+					clientType: ClientType
+					userAgent: string | null
+					startedAt: number
+					endedAt: number | null
+				},
+				[string, number]
+			>(
+				`SELECT id, mount, session_id AS sessionId, client_type AS clientType, user_agent AS userAgent,
+					started_at AS startedAt, ended_at AS endedAt
+				FROM listener_sessions WHERE station_id = ?
+				ORDER BY started_at DESC LIMIT ?`,
+			)
+			.all(stationId, limit)
+		const tracksQuery = this.db.query<
+			{ trackId: string; title: string; artist: string; leftEarly: number },
+			[number]
+		>(
+			`SELECT p.track_id AS trackId, p.title AS title, p.artist AS artist, st.left_early AS leftEarly
+			FROM session_tracks st JOIN plays p ON p.id = st.play_id
+			WHERE st.session_row = ? ORDER BY st.joined_at`,
+		)
+
+		const now = Date.now()
+		return sessions.map(({ id, ...session }) => ({
+			...session,
+			listenMs: (session.endedAt ?? now) - session.startedAt,
+			tracks: tracksQuery.all(id).map(track => ({ ...track, leftEarly: track.leftEarly === 1 })),
+		}))
+	}
+
+	private sessionIntervals(stationId: string, from: number, to: number): { start: number; end: number }[] {
+		const rows = this.db
+			.query<{ start: number; end: number | null }, [string, number, number]>(
+				`SELECT started_at AS start, ended_at AS end FROM listener_sessions
+				WHERE station_id = ? AND started_at < ? AND (ended_at IS NULL OR ended_at > ?)`,
+			)
+			.all(stationId, to, from)
+		const now = Date.now()
+		return rows.map(row => ({
+			start: Math.max(from, row.start),
+			end: Math.min(to, row.end ?? now),
+		}))
+	}
+}
+
+/**
+ * Writes one station's sessions and plays as the engine and outputs report them
+ */
+class StationAnalytics implements EngineObserver, ListenerObserver {
+	private readonly db: Database
+	private readonly stationId: string
+	private openSessions: Map<string, number> = new Map() // connection key -> listener_sessions.id
+	private currentPlayId: number | null = null
+
+	constructor(db: Database, stationId: string) {
+		this.db = db
+		this.stationId = stationId
+	}
+
+	/**
+	 * Analytics must never break playback: log and carry on
+	 */
+	private safely(action: string, fn: () => void): void {
+		try {
+			fn()
+		} catch (err) {
+			console.error(`[Analytics] Failed to record ${action}:`, err)
+		}
+	}
+
+	onListenerStart(connection: ListenerConnection): void {
+		this.safely('session start', () => {
+			const { lastInsertRowid } = this.db.run(
+				`INSERT INTO listener_sessions
+					(station_id, session_id, mount, user_agent, client_type, started_at, last_seen_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?)`,
+				[
+					this.stationId,
+					connection.sessionId,
+					connection.mount,
+					connection.userAgent,
+					classifyUserAgent(connection.userAgent),
+					connection.startedAt,
+					connection.startedAt,
+				],
+			)
+			const sessionRow = Number(lastInsertRowid)
+			this.openSessions.set(connection.key, sessionRow)
+			if (this.currentPlayId !== null) {
+				this.joinPlay(sessionRow, this.currentPlayId, connection.startedAt)
+			}
+		})
+	}
+
+	onListenerEnd(key: string, endedAt: number): void {
+		const sessionRow = this.openSessions.get(key)
+		if (sessionRow === undefined) return
+		this.openSessions.delete(key)
+		this.safely('session end', () => {
+			this.db.run('UPDATE listener_sessions SET ended_at = ?, last_seen_at = ? WHERE id = ?', [
+				endedAt,
+				endedAt,
+				sessionRow,
+			])
+			this.db.run(
+				'UPDATE session_tracks SET left_at = ?, left_early = 1 WHERE session_row = ? AND left_at IS NULL',
+				[endedAt, sessionRow],
+			)
+		})
+	}
+
+	onTrackStart(nowPlaying: NowPlaying): void {
+		// Jingles aren't plays
+		if (nowPlaying.interstitial) return
+		this.safely('play start', () => {
+			const { track, startedAt } = nowPlaying
+			const { lastInsertRowid } = this.db.run(
+				`INSERT INTO plays (station_id, track_id, title, artist, started_at, last_seen_at)
+				VALUES (?, ?, ?, ?, ?, ?)`,
+				[this.stationId, track.id, track.title, track.artist, startedAt, startedAt],
+			)
+			const playId = Number(lastInsertRowid)
+			this.currentPlayId = playId
+			for (const sessionRow of this.openSessions.values()) {
+				this.joinPlay(sessionRow, playId, startedAt)
+			}
+		})
+	}
+
+	onTrackEnd(_nowPlaying: NowPlaying, endedAt: number): void {
+		const playId = this.currentPlayId
+		if (playId === null) return
+		this.currentPlayId = null
+		this.safely('play end', () => this.endPlay(playId, endedAt))
+	}
+
+	private joinPlay(sessionRow: number, playId: number, joinedAt: number): void {
+		this.db.run('INSERT OR IGNORE INTO session_tracks (session_row, play_id, joined_at) VALUES (?, ?, ?)', [
+			sessionRow,
+			playId,
+			joinedAt,
+		])
+	}
+
+	private endPlay(playId: number, endedAt: number): void {
+		this.db.run('UPDATE plays SET ended_at = ?, last_seen_at = ? WHERE id = ?', [endedAt, endedAt, playId])
+		this.db.run('UPDATE session_tracks SET left_at = ? WHERE play_id = ? AND left_at IS NULL', [
+			endedAt,
+			playId,
+		])
+	}
+
+	/**
+	 * End the open play and sessions (shutdown). Sessions cut off by the
+	 * server stopping don't count as leaving early.
+	 */
+	close(now: number): void {
+		const playId = this.currentPlayId
+		this.currentPlayId = null
+		this.safely('shutdown', () => {
+			if (playId !== null) this.endPlay(playId, now)
+			for (const sessionRow of this.openSessions.values()) {
+				this.db.run('UPDATE listener_sessions SET ended_at = ?, last_seen_at = ? WHERE id = ?', [
+					now,
+					now,
+					sessionRow,
+				])
+			}
+		})
+		this.openSessions.clear()
+	}
+}
+
+export { ListenerAnalytics, StationAnalytics }
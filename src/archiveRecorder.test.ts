@@ -0,0 +1,155 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+	ArchiveRecorder,
+	buildCueSheet,
+	hourStart,
+	locateInRecording,
+	parseRecordingName,
+	recordingName,
+} from './archiveRecorder'
+import { parseFrameHeader } from './mp3parser'
+import type { Mp3Frame, NowPlaying } from './types'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-test-'))
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }))
+
+const HOUR = 60 * 60 * 1000
+
+// MPEG1 Layer III, 128 kbps, 44.1 kHz: 417-byte frame (~26ms)
+function mp3Frame(): Mp3Frame {
+	const data = Buffer.alloc(417)
+	Buffer.from([0xff, 0xfb, 0x90, 0x64]).copy(data)
+	const header = parseFrameHeader(data)
+	if (!header) throw new Error('bad test frame')
+	return { data, header }
+}
+
+function playing(title: string, startedAt: number): NowPlaying {
+	return { track: { id: title, path: `./songs/${title}.mp3`, title, artist: 'Artist' }, startedAt }
+}
+
+function recorder(
+	name: string,
+	options: { continuous?: boolean; retentionHours?: number; maxBytes?: number } = {},
+) {
+	return new ArchiveRecorder({
+		dir: path.join(tmpDir, name),
+		stationId: 'default',
+		continuous: options.continuous ?? false,
+		retentionHours: options.retentionHours ?? 0,
+		maxBytes: options.maxBytes ?? 0,
+	})
+}
+
+describe('recording names', () => {
+	test('round-trip the start time and reject anything else', () => {
+		const startedAt = Date.UTC(2024, 4, 7, 3)
+		expect(recordingName('hourly', startedAt)).toBe('hourly-2024-05-07T03-00-00Z')
+		expect(parseRecordingName('hourly-2024-05-07T03-00-00Z')).toEqual({ mode: 'hourly', startedAt })
+		expect(parseRecordingName('manual-2024-13-07T03-00-00Z')).toBeNull()
+		expect(parseRecordingName('../state')).toBeNull()
+		expect(hourStart(startedAt + 59 * 60 * 1000)).toBe(startedAt)
+	})
+})
+
+describe('locateInRecording', () => {
+	test('seeks from the latest track change', () => {
+		const startedAt = Date.UTC(2024, 4, 7, 3)
+		const sidecar = {
+			startedAt,
+			cues: [
+				{ offsetMs: 0, at: startedAt - 60_000, trackId: 'a', title: 'A', artist: 'X' },
+				// Started 2 minutes in, after a 5s gap in the broadcast
+				{ offsetMs: 115_000, at: startedAt + 120_000, trackId: 'b', title: 'B', artist: 'X' },
+			],
+		}
+		expect(locateInRecording(sidecar, startedAt + 30_000)).toMatchObject({
+			offsetMs: 30_000,
+			cue: { title: 'A' },
+		})
+		expect(locateInRecording(sidecar, startedAt + 130_000)).toMatchObject({
+			offsetMs: 125_000,
+			cue: { title: 'B' },
+		})
+	})
+})
+
+describe('buildCueSheet', () => {
+	test('indexes tracks in minutes, seconds and CD frames', () => {
+		const sheet = buildCueSheet(
+			{
+				name: 'manual-2024-05-07T03-00-00Z',
+				mode: 'manual',
+				stationId: 'default',
+				startedAt: 0,
+				endedAt: 0,
+				durationMs: 0,
+				bytes: 0,
+				cues: [{ offsetMs: 61_500, at: 0, trackId: 'a', title: 'Say "Hi"', artist: 'X' }],
+			},
+			'Lofi Radio',
+		)
+		expect(sheet).toContain('FILE "manual-2024-05-07T03-00-00Z.mp3" MP3')
+		expect(sheet).toContain(`TITLE "Say 'Hi'"`)
+		expect(sheet).toContain('INDEX 01 01:01:37')
+	})
+})
+
+describe('ArchiveRecorder', () => {
+	test('records frames and track changes on demand', async () => {
+		const archive = recorder('manual')
+		archive.onTrackStart(playing('First', Date.now() - 1000))
+		// Nothing is recorded until asked to
+		archive.onFrame(mp3Frame())
+		expect(archive.list()).toEqual([])
+
+		const started = archive.startManual()
+		if (!started) throw new Error('expected a recording')
+		expect(archive.startManual()).toBeNull()
+		archive.onFrame(mp3Frame())
+		archive.onTrackStart(playing('Second', Date.now()))
+		archive.onFrame(mp3Frame())
+
+		const finished = await archive.stopManual()
+		expect(finished).toMatchObject({ name: started.name, bytes: 834, recording: false })
+		expect(fs.statSync(archive.audioPath(started.name)).size).toBe(834)
+		expect(archive.getSidecar(started.name)?.cues.map(cue => cue.title)).toEqual(['First', 'Second'])
+		expect(archive.list().map(recording => recording.name)).toEqual([started.name])
+		expect(archive.findAt(Date.now() + HOUR)).toEqual([])
+	})
+
+	test('continuous mode opens an hourly file on the first frame', async () => {
+		const archive = recorder('continuous', { continuous: true })
+		archive.onFrame(mp3Frame())
+		const hourly = archive.getStatus().hourly
+		expect(hourly?.mode).toBe('hourly')
+		expect(hourly?.recording).toBe(true)
+		// Still being written, so it can't be deleted
+		expect(await archive.delete(hourly?.name ?? '')).toBe(false)
+		await archive.close()
+		expect(archive.list()[0]?.recording).toBe(false)
+	})
+
+	test('prunes finished recordings past the retention limits', async () => {
+		const dir = path.join(tmpDir, 'retention')
+		fs.mkdirSync(dir, { recursive: true })
+		const now = Date.now()
+		for (const hoursAgo of [30, 3, 2]) {
+			const name = recordingName('hourly', hourStart(now - hoursAgo * HOUR))
+			fs.writeFileSync(path.join(dir, `${name}.mp3`), Buffer.alloc(1000))
+			fs.writeFileSync(
+				path.join(dir, `${name}.json`),
+				JSON.stringify({ endedAt: now - (hoursAgo - 1) * HOUR }),
+			)
+		}
+
+		const archive = recorder('retention', { retentionHours: 24, maxBytes: 1500 })
+		await archive.prune() // After the pass the constructor started
+		expect(archive.list().map(recording => recording.name)).toEqual([
+			recordingName('hourly', hourStart(now - 2 * HOUR)),
+		])
+	})
+})
@@ -0,0 +1,562 @@
+/**
+ * ARCHIVE RECORDER
+ * ================
+ * Records what actually went out on air: every frame the engine broadcasts
+ * (songs, jingles, crossfades, live sources) is teed to an MP3 file in the
+ * station's `recordings/` state directory, with a JSON sidecar of the track
+ * changes taken from `nowPlaying`.
+ *
+ * - Continuous mode (`ARCHIVE_CONTINUOUS=true`) rolls a new `hourly-*` file
+ *   at the top of every UTC hour.
+ * - Admins can also start and stop a `manual-*` recording at any time, which
+ *   runs alongside the hourly file.
+ *
+ * Files are named after the time their first frame went out, so a restart
+ * mid-hour starts a new file rather than appending to the old one. Finished
+ * recordings are pruned by age and by the archive's total size.
+ *
+ * Audio goes through a write stream, so a frame never waits on the disk;
+ * closing a recording resolves once it's flushed, and shutdown waits for that.
+ * Sidecars are rewritten synchronously, once per track change and minute.
+ * Pruning scans and deletes asynchronously, one pass at a time.
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { EngineObserver } from './streamEngine'
+import type { Mp3Frame, NowPlaying } from './types'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Sidecar progress is also saved this often, so a crash loses at most this much of it
+const SIDECAR_SAVE_INTERVAL_MS = 60_000
+
+export const DEFAULT_ARCHIVE_RETENTION_HOURS = 7 * 24
+
+export type RecordingMode = 'hourly' | 'manual'
+
+const RECORDING_NAME_PATTERN = /^(hourly|manual)-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}Z$/
+
+/**
+ * A track change within a recording
+ */
+export interface RecordingCue {
+	offsetMs: number // Position in the recording's audio
+	at: number // When the track went on air (may precede the recording for the first cue)
+	trackId: string
+	title: string
+	artist: string
+	album?: string
+	interstitial?: boolean
+	live?: boolean
+}
+
+/**
+ * Contents of a recording's `.json` sidecar
+ */
+export interface RecordingSidecar {
+	name: string
+	mode: RecordingMode
+	stationId: string
+	startedAt: number
+	endedAt: number | null // null while recording, or if the process died mid-file
+	durationMs: number
+	bytes: number
+	cues: RecordingCue[]
+}
+
+export type RecordingInfo = Omit<RecordingSidecar, 'cues'> & { recording: boolean }
+
+/**
+ * Where in the archive a moment can be heard
+ */
+export interface ArchiveMatch {
+	recording: RecordingInfo
+	offsetMs: number // Where to seek in the recording
+	cue: RecordingCue | null // What was playing, if any track had started
+}
+
+/**
+ * Recording name for a file whose first frame went out at `startedAt`,
+ * e.g. `hourly-2024-05-07T03-00-00Z`
+ */
+export function recordingName(mode: RecordingMode, startedAt: number): string {
+	const stamp = new Date(startedAt).toISOString().slice(0, 19).replace(/:/g, '-')
+	return `${mode}-${stamp}Z`
+}
+
+/**
+ * Mode and start time from a recording name, or null if it isn't one
+ */
+export function parseRecordingName(name: string): { mode: RecordingMode; startedAt: number } | null {
+	const match = RECORDING_NAME_PATTERN.exec(name)
+	if (!match) return null
+	const mode: RecordingMode = match[1] === 'manual' ? 'manual' : 'hourly'
+	const startedAt = Date.parse(
+		name.slice(mode.length + 1).replace(/T(\d{2})-(\d{2})-(\d{2})Z$/, 'T$1:$2:$3Z'),
+	)
+	// Round-trip to reject impossible dates like month 13
+	if (!Number.isFinite(startedAt) || recordingName(mode, startedAt) !== name) return null
+	return { mode, startedAt }
+}
+
+/**
+ * Start of the UTC hour containing `time`
+ */
+export function hourStart(time: number): number {
+	return time - (time % HOUR_MS)
+}
+
+/**
+ * Non-negative number from an env var, or the fallback
+ */
+export function parseArchiveSetting(value: string | undefined, fallback: number): number {
+	const parsed = Number(value)
+	return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+/**
+ * Seek position for wall-clock `time` within a recording, and the cue playing
+ * then. Measured from the latest track change, so gaps in the broadcast only
+ * skew the position within a single track.
+ */
+export function locateInRecording(
+	sidecar: Pick<RecordingSidecar, 'startedAt' | 'cues'>,
+	time: number,
+): { offsetMs: number; cue: RecordingCue | null } {
+	let playing: RecordingCue | null = null
+	for (const cue of sidecar.cues) {
+		if (cue.at > time) break
+		playing = cue
+	}
+	if (!playing) return { offsetMs: Math.max(0, time - sidecar.startedAt), cue: null }
+	return { offsetMs: playing.offsetMs + time - Math.max(playing.at, sidecar.startedAt), cue: playing }
+}
+
+function quoteCue(value: string): string {
+	return `"${value.replace(/"/g, "'")}"`
+}
+
+// CD frames: 75 per second
+function cueIndex(offsetMs: number): string {
+	const frames = Math.floor((offsetMs * 75) / 1000)
+	const minutes = Math.floor(frames / (75 * 60))
+	const seconds = Math.floor(frames / 75) % 60
+	const pad = (n: number) => String(n).padStart(2, '0')
+	return `${pad(minutes)}:${pad(seconds)}:${pad(frames % 75)}`
+}
+
+/**
+ * Cue sheet for a recording, for players and editors that can seek by track
+ */
+export function buildCueSheet(sidecar: RecordingSidecar, stationName: string): string {
+	const lines = [
+		`PERFORMER ${quoteCue(stationName)}`,
+		`TITLE ${quoteCue(sidecar.name)}`,
+		`FILE ${quoteCue(`${sidecar.name}.mp3`)} MP3`,
+	]
+	sidecar.cues.forEach((cue, i) => {
+		lines.push(
+			`  TRACK ${String(i + 1).padStart(2, '0')} AUDIO`,
+			`    TITLE ${quoteCue(cue.title)}`,
+			`    PERFORMER ${quoteCue(cue.artist)}`,
+			`    INDEX 01 ${cueIndex(cue.offsetMs)}`,
+		)
+	})
+	return `${lines.join('\n')}\n`
+}
+
+function cueFor(nowPlaying: NowPlaying, offsetMs: number): RecordingCue {
+	const { track } = nowPlaying
+	return {
+		offsetMs: Math.round(offsetMs),
+		at: nowPlaying.startedAt,
+		trackId: track.id,
+		title: track.title,
+		artist: track.artist,
+		...(track.album ? { album: track.album } : {}),
+		...(nowPlaying.interstitial ? { interstitial: true } : {}),
+		...(nowPlaying.live ? { live: true } : {}),
+	}
+}
+
+/**
+ * A recording being written
+ */
+class OpenRecording {
+	readonly sidecar: RecordingSidecar
+	private readonly audioFile: string
+	private readonly sidecarFile: string
+	private stream: fs.WriteStream | null
+	private readonly closed: Promise<void>
+	private lastSavedAt: number
+
+	constructor(
+		dir: string,
+		mode: RecordingMode,
+		stationId: string,
+		now: number,
+		nowPlaying: NowPlaying | null,
+	) {
+		const name = recordingName(mode, now)
+		this.audioFile = path.join(dir, `${name}.mp3`)
+		this.sidecarFile = path.join(dir, `${name}.json`)
+		this.sidecar = { name, mode, stationId, startedAt: now, endedAt: null, durationMs: 0, bytes: 0, cues: [] }
+		// Opens with whatever is already on air
+		if (nowPlaying) this.sidecar.cues.push(cueFor(nowPlaying, 0))
+
+		fs.mkdirSync(dir, { recursive: true })
+		const stream = fs.createWriteStream(this.audioFile)
+		this.stream = stream
+		this.closed = new Promise(resolve => stream.once('close', () => resolve()))
+		stream.on('error', err => {
+			console.error(`[Archive] Write to ${this.sidecar.name} failed, closing it:`, err)
+			void this.close(Date.now())
+		})
+		this.lastSavedAt = now
+		this.save()
+	}
+
+	write(frame: Mp3Frame, now: number): void {
+		if (!this.stream) return
+		this.stream.write(frame.data)
+		this.sidecar.bytes += frame.data.length
+		this.sidecar.durationMs += frame.header.frameDurationMs
+		if (now - this.lastSavedAt >= SIDECAR_SAVE_INTERVAL_MS) this.save()
+	}
+
+	addCue(nowPlaying: NowPlaying): void {
+		this.sidecar.cues.push(cueFor(nowPlaying, this.sidecar.durationMs))
+		this.save()
+	}
+
+	/**
+	 * Stop writing. Resolves once the audio is flushed and the file closed.
+	 */
+	close(now: number): Promise<void> {
+		const stream = this.stream
+		if (!stream) return this.closed
+		this.stream = null
+		stream.end()
+		this.sidecar.endedAt = now
+		this.save()
+		return this.closed
+	}
+
+	info(): RecordingInfo {
+		const { cues: _cues, ...info } = this.sidecar
+		return { ...info, durationMs: Math.round(info.durationMs), recording: this.stream !== null }
+	}
+
+	private save(): void {
+		this.lastSavedAt = Date.now()
+		try {
+			fs.writeFileSync(
+				this.sidecarFile,
+				JSON.stringify({ ...this.sidecar, durationMs: Math.round(this.sidecar.durationMs) }, null, 2),
+			)
+		} catch (err) {
+			console.error(`[Archive] Failed to save ${this.sidecar.name}.json:`, err)
+		}
+	}
+}
+
+export interface ArchiveOptions {
+	dir: string // This station's recordings directory
+	stationId: string
+	continuous: boolean // Roll hourly files whenever the station is on air
+	retentionHours: number // Finished recordings older than this are deleted (0 = keep)
+	maxBytes: number // Oldest finished recordings go once the archive is bigger (0 = no limit)
+}
+
+class ArchiveRecorder implements EngineObserver {
+	private readonly options: ArchiveOptions
+	private hourly: OpenRecording | null = null
+	private manual: OpenRecording | null = null
+	private nowPlaying: NowPlaying | null = null
+	private pruning: Promise<void> = Promise.resolve()
+
+	constructor(options: ArchiveOptions) {
+		this.options = options
+		void this.prune()
+	}
+
+	onTrackStart(nowPlaying: NowPlaying): void {
+		this.nowPlaying = nowPlaying
+		this.hourly?.addCue(nowPlaying)
+		this.manual?.addCue(nowPlaying)
+	}
+
+	onFrame(frame: Mp3Frame): void {
+		const now = Date.now()
+		if (this.options.continuous) {
+			if (this.hourly && hourStart(this.hourly.sidecar.startedAt) !== hourStart(now)) {
+				void this.hourly.close(now)
+				this.hourly = null
+				void this.prune()
+			}
+			if (!this.hourly) {
+				this.hourly = this.open('hourly', now)
+			}
+		}
+		this.hourly?.write(frame, now)
+		this.manual?.write(frame, now)
+	}
+
+	private open(mode: RecordingMode, now: number): OpenRecording | null {
+		try {
+			const recording = new OpenRecording(
+				this.options.dir,
+				mode,
+				this.options.stationId,
+				now,
+				this.nowPlaying,
+			)
+			console.log(`[Archive] Recording ${this.options.stationId} to ${recording.sidecar.name}`)
+			return recording
+		} catch (err) {
+			console.error(`[Archive] Failed to start ${mode} recording:`, err)
+			return null
+		}
+	}
+
+	/**
+	 * Start an on-demand recording. Returns null if one is already running.
+	 */
+	startManual(now: number = Date.now()): RecordingInfo | null {
+		if (this.manual) return null
+		this.manual = this.open('manual', now)
+		return this.manual?.info() ?? null
+	}
+
+	/**
+	 * Finish the on-demand recording, once its file is complete. Resolves null
+	 * if none was running.
+	 */
+	async stopManual(now: number = Date.now()): Promise<RecordingInfo | null> {
+		const manual = this.manual
+		if (!manual) return null
+		this.manual = null
+		await manual.close(now)
+		console.log(`[Archive] Finished ${manual.sidecar.name}`)
+		void this.prune()
+		return manual.info()
+	}
+
+	/**
+	 * Close any open recordings (station stopping or deleted). Resolves once
+	 * they're flushed.
+	 */
+	async close(now: number = Date.now()): Promise<void> {
+		const open = [this.hourly, this.manual]
+		this.hourly = null
+		this.manual = null
+		await Promise.all(open.map(recording => recording?.close(now)))
+	}
+
+	private isOpen(name: string): OpenRecording | null {
+		if (this.hourly?.sidecar.name === name) return this.hourly
+		if (this.manual?.sidecar.name === name) return this.manual
+		return null
+	}
+
+	/**
+	 * Sidecar for a recording, live for one being written
+	 */
+	getSidecar(name: string): RecordingSidecar | null {
+		const open = this.isOpen(name)
+		if (open) return { ...open.sidecar, durationMs: Math.round(open.sidecar.durationMs) }
+		if (!parseRecordingName(name)) return null
+		return this.readSidecar(name)
+	}
+
+	private readSidecar(name: string): RecordingSidecar | null {
+		let stat: fs.Stats
+		try {
+			stat = fs.statSync(this.audioPath(name))
+		} catch {
+			return null
+		}
+
+		let saved: Partial<RecordingSidecar> = {}
+		try {
+			saved = JSON.parse(fs.readFileSync(path.join(this.options.dir, `${name}.json`), 'utf-8'))
+		} catch {
+			// Audio without a sidecar: list it with what the file tells us
+		}
+		return this.sidecarFrom(name, stat, saved)
+	}
+
+	/**
+	 * A finished recording's sidecar, filling in what the saved one lacks from its audio file
+	 */
+	private sidecarFrom(name: string, stat: fs.Stats, saved: Partial<RecordingSidecar>): RecordingSidecar {
+		const parsed = parseRecordingName(name)
+		return {
+			name,
+			mode: parsed?.mode ?? 'manual',
+			stationId: this.options.stationId,
+			// The name only keeps whole seconds
+			startedAt: saved.startedAt ?? parsed?.startedAt ?? stat.mtimeMs,
+			// Not open, so it has ended, even if the process died before saying so
+			endedAt: saved.endedAt ?? stat.mtimeMs,
+			durationMs: saved.durationMs ?? 0,
+			bytes: stat.size,
+			cues: Array.isArray(saved.cues) ? saved.cues : [],
+		}
+	}
+
+	/**
+	 * Path to a recording's MP3. Only valid names map to a file.
+	 */
+	audioPath(name: string): string {
+		return path.join(this.options.dir, `${path.basename(name)}.mp3`)
+	}
+
+	/**
+	 * Every recording, newest first
+	 */
+	list(): RecordingInfo[] {
+		let files: string[]
+		try {
+			files = fs.readdirSync(this.options.dir)
+		} catch {
+			return []
+		}
+
+		const recordings: RecordingInfo[] = []
+		for (const file of files) {
+			if (!file.endsWith('.mp3')) continue
+			const name = file.slice(0, -4)
+			if (!parseRecordingName(name)) continue
+			const open = this.isOpen(name)
+			if (open) {
+				recordings.push(open.info())
+				continue
+			}
+			const sidecar = this.readSidecar(name)
+			if (!sidecar) continue
+			const { cues: _cues, ...info } = sidecar
+			recordings.push({ ...info, recording: false })
+		}
+		return recordings.sort((a, b) => b.startedAt - a.startedAt)
+	}
+
+	/**
+	 * Recordings that cover `time`, with the offset to seek to and what was playing
+	 */
+	findAt(time: number): ArchiveMatch[] {
+		const matches: ArchiveMatch[] = []
+		for (const recording of this.list()) {
+			const endedAt = recording.endedAt ?? Date.now()
+			if (time < recording.startedAt || time >= endedAt) continue
+			const sidecar = this.getSidecar(recording.name)
+			if (!sidecar) continue
+			const { offsetMs, cue } = locateInRecording(sidecar, time)
+			matches.push({ recording, offsetMs: Math.min(offsetMs, sidecar.durationMs), cue })
+		}
+		return matches
+	}
+
+	/**
+	 * Delete a finished recording. Resolves false if it doesn't exist or is still being written.
+	 */
+	async delete(name: string): Promise<boolean> {
+		if (!parseRecordingName(name) || this.isOpen(name)) return false
+		if (!fs.existsSync(this.audioPath(name))) return false
+		await this.remove(name)
+		return true
+	}
+
+	private async remove(name: string): Promise<void> {
+		for (const file of [`${name}.mp3`, `${name}.json`]) {
+			try {
+				await fs.promises.rm(path.join(this.options.dir, file), { force: true })
+			} catch (err) {
+				console.error(`[Archive] Failed to delete ${file}:`, err)
+			}
+		}
+	}
+
+	/**
+	 * Apply the retention limits to finished recordings, after any pass
+	 * already running
+	 */
+	prune(now: number = Date.now()): Promise<void> {
+		const pass = this.pruning.then(() => this.pruneFinished(now))
+		this.pruning = pass.catch(err => console.error('[Archive] Prune failed:', err))
+		return this.pruning
+	}
+
+	private async pruneFinished(now: number): Promise<void> {
+		const { retentionHours, maxBytes } = this.options
+		if (retentionHours === 0 && maxBytes === 0) return
+		// Oldest first
+		const finished = (await this.readFinished()).sort((a, b) => a.startedAt - b.startedAt)
+
+		let kept = finished
+		if (retentionHours > 0) {
+			const cutoff = now - retentionHours * HOUR_MS
+			const expired = finished.filter(recording => (recording.endedAt ?? recording.startedAt) < cutoff)
+			for (const recording of expired) {
+				await this.remove(recording.name)
+			}
+			kept = finished.filter(recording => !expired.includes(recording))
+		}
+
+		if (maxBytes > 0) {
+			const open = [this.hourly, this.manual].reduce((sum, r) => sum + (r?.sidecar.bytes ?? 0), 0)
+			let total = open + kept.reduce((sum, recording) => sum + recording.bytes, 0)
+			for (const recording of kept) {
+				if (total <= maxBytes) break
+				await this.remove(recording.name)
+				total -= recording.bytes
+			}
+		}
+	}
+
+	/**
+	 * Like list(), without blocking: the recordings not being written
+	 */
+	private async readFinished(): Promise<RecordingSidecar[]> {
+		let files: string[]
+		try {
+			files = await fs.promises.readdir(this.options.dir)
+		} catch {
+			return []
+		}
+
+		const recordings: RecordingSidecar[] = []
+		for (const file of files) {
+			if (!file.endsWith('.mp3')) continue
+			const name = file.slice(0, -4)
+			if (!parseRecordingName(name) || this.isOpen(name)) continue
+			let stat: fs.Stats
+			try {
+				stat = await fs.promises.stat(this.audioPath(name))
+			} catch {
+				continue
+			}
+			let saved: Partial<RecordingSidecar> = {}
+			try {
+				saved = JSON.parse(await fs.promises.readFile(path.join(this.options.dir, `${name}.json`), 'utf-8'))
+			} catch {
+				// No sidecar
+			}
+			recordings.push(this.sidecarFrom(name, stat, saved))
+		}
+		return recordings
+	}
+
+	getStatus() {
+		return {
+			continuous: this.options.continuous,
+			retentionHours: this.options.retentionHours,
+			maxBytes: this.options.maxBytes,
+			hourly: this.hourly?.info() ?? null,
+			manual: this.manual?.info() ?? null,
+		}
+	}
+}
+
+export { ArchiveRecorder }
@@ -1,11 +1,20 @@
 import { describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
 import {
 	buildLoudnormFilter,
 	buildMeasureArgs,
 	buildNormalizeArgs,
+	buildTranscodeArgs,
+	claimFilename,
 	LOUDNESS_TOLERANCE_LU,
 	type LoudnessStats,
+	mp3Filename,
 	needsNormalization,
+	needsTranscode,
+	parseProgressTimeMs,
+	progressReporter,
 	TARGET_CHANNELS,
 	TARGET_I,
 	TARGET_SAMPLE_RATE,
@@ -140,3 +149,61 @@ describe('buildNormalizeArgs', () => {
 		expect(twoPass[afIdx + 1]).toContain('measured_I=-9.00')
 	})
 })
+
+describe('transcoding other formats', () => {
+	test('transcodes lossless and other lossy formats, not MP3s', () => {
+		expect(needsTranscode('song.flac')).toBe(true)
+		expect(needsTranscode('Song.WAV')).toBe(true)
+		expect(needsTranscode('song.m4a')).toBe(true)
+		expect(needsTranscode('song.ogg')).toBe(true)
+		expect(needsTranscode('song.mp3')).toBe(false)
+		expect(needsTranscode('cover.jpg')).toBe(false)
+	})
+
+	test('names the MP3 after the source', () => {
+		expect(mp3Filename('Rain (live).flac')).toBe('Rain (live).mp3')
+		expect(mp3Filename('/songs/track.m4a')).toBe('track.mp3')
+	})
+
+	test('encodes like a normalization, reading Ogg tags from the audio stream', () => {
+		const flac = buildTranscodeArgs('/songs/in.flac', '/songs/out.mp3', null)
+		expect(flac).toEqual(buildNormalizeArgs('/songs/in.flac', '/songs/out.mp3', null))
+		const ogg = buildTranscodeArgs('/songs/in.ogg', '/songs/out.mp3', null)
+		expect(ogg[ogg.indexOf('-map_metadata') + 1]).toBe('0:s:a:0')
+		expect(ogg).toContain('libmp3lame')
+	})
+})
+
+describe('ffmpeg progress', () => {
+	test('reads the latest position from -progress output', () => {
+		const block =
+			'frame=0\nout_time_us=1500000\nout_time_ms=1500000\nout_time=00:00:01.500000\nprogress=continue\n'
+		expect(parseProgressTimeMs(block)).toBe(1500)
+		expect(parseProgressTimeMs(`${block}out_time_us=2500000\nprogress=end\n`)).toBe(2500)
+		expect(parseProgressTimeMs('out_time_us=N/A\nprogress=continue\n')).toBeNull()
+	})
+
+	test('reports the fraction done, joining lines split across chunks', () => {
+		const fractions: number[] = []
+		const onStdout = progressReporter(10_000, fraction => fractions.push(fraction))
+		onStdout('out_time_us=25')
+		onStdout('00000\nprogress=continue\nout_time_us=')
+		onStdout('20000000\nprogress=end\n')
+		expect(fractions).toEqual([0.25, 1])
+	})
+})
+
+describe('claimFilename', () => {
+	test('claims the name, then numbered variants, never the same one twice', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'claim-test-'))
+		try {
+			fs.writeFileSync(path.join(dir, 'Rain.mp3'), 'taken')
+			expect(claimFilename(dir, 'Rain.mp3')).toBe('Rain (2).mp3')
+			expect(claimFilename(dir, 'Rain.mp3')).toBe('Rain (3).mp3')
+			expect(claimFilename(dir, 'Snow.mp3')).toBe('Snow.mp3')
+			expect(fs.readFileSync(path.join(dir, 'Rain.mp3'), 'utf-8')).toBe('taken')
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true })
+		}
+	})
+})
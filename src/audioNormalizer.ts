@@ -26,12 +26,16 @@
  * an already-canonical, already-loud-matched track is left bit-for-bit untouched
  * (no needless generational lossy loss). Matches the offline batch tools in
  * ~/clawd/lofi-radio-tools (normalize-tracks.ts + normalize-volume.ts).
+ *
+ * Uploads in other formats (FLAC, WAV, OGG, M4A...) are always transcoded, in
+ * the same single pass, to an MP3 beside the source; see transcodeToMp3.
  */
 
 import { spawn } from 'node:child_process'
 import { randomUUID } from 'node:crypto'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
+import { normalizations } from './metrics'
 
 export const TARGET_SAMPLE_RATE = 44100
 export const TARGET_CHANNELS = 2
@@ -49,7 +53,7 @@ export const LOUDNESS_TOLERANCE_LU = 1.0
 
 // Binaries are on PATH locally (linuxbrew) and in the prod Docker image
 // (apt-get install ffmpeg). Overridable for unusual environments.
-const FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg'
+export const FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg'
 const FFPROBE = process.env.FFPROBE_PATH || 'ffprobe'
 
 /**
@@ -67,6 +71,138 @@ export type NormalizeResult =
 	| { status: 'normalized'; sourceSampleRate: number; sourceLoudnessLufs: number | null }
 	| { status: 'failed'; sourceSampleRate: number | null; error: string }
 
+/**
+ * Outcome of {@link transcodeToMp3}. On success `output` is the new MP3; the
+ * source file is left for the caller to archive or delete either way.
+ */
+export type TranscodeResult =
+	| { status: 'transcoded'; output: string; sourceSampleRate: number; sourceLoudnessLufs: number | null }
+	| { status: 'failed'; sourceSampleRate: number | null; error: string }
+
+// Upload formats other than MP3, transcoded on the way in
+export const TRANSCODED_EXTENSIONS = [
+	'.flac',
+	'.wav',
+	'.aif',
+	'.aiff',
+	'.ogg',
+	'.oga',
+	'.opus',
+	'.m4a',
+	'.aac',
+	'.wma',
+]
+
+// Containers that keep tags on the audio stream rather than the file
+const STREAM_TAGGED_EXTENSIONS = ['.ogg', '.oga', '.opus']
+
+/**
+ * Pure: whether a file is in a format that gets transcoded to MP3
+ */
+export function needsTranscode(filename: string): boolean {
+	return TRANSCODED_EXTENSIONS.includes(path.extname(filename).toLowerCase())
+}
+
+/**
+ * Pure: the name a file gets once transcoded, e.g. `Song.flac` -> `Song.mp3`
+ */
+export function mp3Filename(filename: string): string {
+	return `${path.basename(filename, path.extname(filename))}.mp3`
+}
+
+// Temp files the encodes write beside their input before renaming into place
+const TEMP_FILE_PATTERN = /^\.(?:normalizing|transcoding)-.*\.tmp\.mp3$/
+
+/**
+ * Delete temp files left in a directory by encodes cut short by a restart.
+ * Returns how many were deleted.
+ */
+export function removeStaleTempFiles(dir: string): number {
+	if (!fs.existsSync(dir)) return 0
+	const stale = fs.readdirSync(dir).filter(name => TEMP_FILE_PATTERN.test(name))
+	for (const name of stale) fs.rmSync(path.join(dir, name), { force: true })
+	return stale.length
+}
+
+/**
+ * Claim a free filename in `dir`: `name`, else `stem (2).ext`, `stem (3).ext`...
+ * An empty file is created under it with O_EXCL, so two callers can never get
+ * the same name; the caller renames its file over it (or deletes it).
+ */
+export function claimFilename(dir: string, name: string): string {
+	const ext = path.extname(name)
+	const stem = path.basename(name, ext)
+	for (let n = 1; ; n++) {
+		const candidate = n === 1 ? name : `${stem} (${n})${ext}`
+		try {
+			fs.closeSync(fs.openSync(path.join(dir, candidate), 'wx'))
+			return candidate
+		} catch (err) {
+			if (!(err instanceof Error && 'code' in err && err.code === 'EEXIST')) throw err
+		}
+	}
+}
+
+/**
+ * Steps of a normalization or transcode, reported with how far through the
+ * step it is (0-1) when a progress handler is passed
+ */
+export type NormalizeStage = 'probing' | 'measuring' | 'encoding'
+export type ProgressHandler = (stage: NormalizeStage, fraction: number) => void
+
+// ffmpeg writes key=value progress blocks to stdout (ahead of its other args)
+const PROGRESS_ARGS = ['-progress', 'pipe:1', '-nostats']
+
+/**
+ * Pure: the latest position in ffmpeg `-progress` output, in ms, or null if
+ * the text has none. `out_time_us` is preferred; `out_time_ms` is (despite the
+ * name) also microseconds.
+ */
+export function parseProgressTimeMs(text: string): number | null {
+	let latest: number | null = null
+	for (const line of text.split('\n')) {
+		const match = /^out_time_(?:us|ms)=(\d+)\s*$/.exec(line)
+		if (match?.[1]) latest = Number(match[1]) / 1000
+	}
+	return latest
+}
+
+/**
+ * A stdout handler for ffmpeg `-progress` output that reports the fraction
+ * of `durationMs` done. Lines split across chunks are joined up first.
+ */
+export function progressReporter(
+	durationMs: number,
+	report: (fraction: number) => void,
+): (chunk: string) => void {
+	let partial = ''
+	return chunk => {
+		const text = partial + chunk
+		const lastNewline = text.lastIndexOf('\n')
+		partial = text.slice(lastNewline + 1)
+		const timeMs = parseProgressTimeMs(text.slice(0, lastNewline + 1))
+		if (timeMs !== null && durationMs > 0) report(Math.min(1, Math.max(0, timeMs / durationMs)))
+	}
+}
+
+/**
+ * ffmpeg args and stdout handler for one step, with progress when asked for
+ */
+function withProgress(
+	args: string[],
+	stage: NormalizeStage,
+	durationMs: number | null,
+	onProgress: ProgressHandler | undefined,
+): { args: string[]; onStdout?: (chunk: string) => void } {
+	if (!onProgress) return { args }
+	onProgress(stage, 0)
+	if (!durationMs) return { args }
+	return {
+		args: [...PROGRESS_ARGS, ...args],
+		onStdout: progressReporter(durationMs, fraction => onProgress(stage, fraction)),
+	}
+}
+
 /**
  * Measured loudness stats from a loudnorm analysis pass, fed back into the
  * apply pass for accurate two-pass normalization.
@@ -166,7 +302,20 @@ export function buildNormalizeArgs(input: string, output: string, stats: Loudnes
 	]
 }
 
-interface SpawnResult {
+/**
+ * Pure: build the ffmpeg argument vector that transcodes a non-MP3 `input` to
+ * the canonical MP3 at `output`. The same encode as {@link buildNormalizeArgs},
+ * except Ogg tags are read from the audio stream, where Vorbis comments live.
+ */
+export function buildTranscodeArgs(input: string, output: string, stats: LoudnessStats | null): string[] {
+	const args = buildNormalizeArgs(input, output, stats)
+	if (STREAM_TAGGED_EXTENSIONS.includes(path.extname(input).toLowerCase())) {
+		args[args.indexOf('-map_metadata') + 1] = '0:s:a:0'
+	}
+	return args
+}
+
+export interface SpawnResult {
 	code: number | null
 	stdout: string
 	stderr: string
@@ -175,15 +324,17 @@ interface SpawnResult {
 /**
  * Run a binary with an explicit argument array (never a shell string, so
  * filenames with spaces / unicode are safe). Resolves with exit code + output;
- * rejects only if the binary can't be spawned at all.
+ * rejects only if the binary can't be spawned at all. `onStdout` sees stdout
+ * as it arrives.
  */
-function run(bin: string, args: string[]): Promise<SpawnResult> {
+export function run(bin: string, args: string[], onStdout?: (chunk: string) => void): Promise<SpawnResult> {
 	return new Promise((resolve, reject) => {
 		const child = spawn(bin, args)
 		let stdout = ''
 		let stderr = ''
 		child.stdout.on('data', chunk => {
 			stdout += chunk
+			onStdout?.(String(chunk))
 		})
 		child.stderr.on('data', chunk => {
 			stderr += chunk
@@ -218,13 +369,40 @@ export async function probeSampleRate(filepath: string): Promise<number | null>
 	}
 }
 
+/**
+ * Probe a file's duration in ms. Null if it can't be probed.
+ */
+export async function probeDurationMs(filepath: string): Promise<number | null> {
+	try {
+		const { code, stdout } = await run(FFPROBE, [
+			'-v',
+			'error',
+			'-show_entries',
+			'format=duration',
+			'-of',
+			'csv=p=0',
+			filepath,
+		])
+		if (code !== 0) return null
+		const seconds = Number.parseFloat(stdout.trim())
+		return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null
+	} catch {
+		return null
+	}
+}
+
 /**
  * Run the loudnorm analysis pass and parse its JSON block (printed to stderr).
  * Returns null if the file can't be analyzed or the JSON is missing/incomplete.
  */
-export async function measureLoudness(filepath: string): Promise<LoudnessStats | null> {
+export async function measureLoudness(
+	filepath: string,
+	durationMs: number | null = null,
+	onProgress?: ProgressHandler,
+): Promise<LoudnessStats | null> {
 	try {
-		const { stderr } = await run(FFMPEG, buildMeasureArgs(filepath))
+		const step = withProgress(buildMeasureArgs(filepath), 'measuring', durationMs, onProgress)
+		const { stderr } = await run(FFMPEG, step.args, step.onStdout)
 		const match = stderr.match(/\{[\s\S]*\}/)
 		if (!match) return null
 		const parsed = JSON.parse(match[0]) as Partial<LoudnessStats>
@@ -260,8 +438,22 @@ export async function measureLoudness(filepath: string): Promise<LoudnessStats |
  * original after ffprobe confirms the output is actually at the target rate.
  * On any failure the original file is left untouched so an upload is never lost.
  */
-export async function normalizeInPlace(filepath: string): Promise<NormalizeResult> {
+export async function normalizeInPlace(
+	filepath: string,
+	onProgress?: ProgressHandler,
+): Promise<NormalizeResult> {
+	const result = await normalizeFile(filepath, onProgress)
+	normalizations.inc({ status: result.status })
+	return result
+}
+
+/**
+ * The normalization itself; see normalizeInPlace
+ */
+async function normalizeFile(filepath: string, onProgress?: ProgressHandler): Promise<NormalizeResult> {
+	onProgress?.('probing', 0)
 	const sourceSampleRate = await probeSampleRate(filepath)
+	const durationMs = onProgress ? await probeDurationMs(filepath) : null
 
 	if (sourceSampleRate === null) {
 		return { status: 'failed', sourceSampleRate: null, error: 'Could not probe sample rate' }
@@ -269,7 +461,7 @@ export async function normalizeInPlace(filepath: string): Promise<NormalizeResul
 
 	// Measure loudness for the two-pass apply (and to decide if a re-encode is
 	// even needed). May be null if analysis fails — handled below.
-	const stats = await measureLoudness(filepath)
+	const stats = await measureLoudness(filepath, durationMs, onProgress)
 	const measuredI = stats ? Number.parseFloat(stats.input_i) : Number.NaN
 	const loudnessKnown = Number.isFinite(measuredI)
 	const sourceLoudnessLufs = loudnessKnown ? measuredI : null
@@ -291,7 +483,8 @@ export async function normalizeInPlace(filepath: string): Promise<NormalizeResul
 	const tmp = path.join(dir, `.normalizing-${path.basename(filepath)}.${randomUUID()}.tmp.mp3`)
 
 	try {
-		const { code, stderr } = await run(FFMPEG, buildNormalizeArgs(filepath, tmp, stats))
+		const step = withProgress(buildNormalizeArgs(filepath, tmp, stats), 'encoding', durationMs, onProgress)
+		const { code, stderr } = await run(FFMPEG, step.args, step.onStdout)
 		if (code !== 0) {
 			throw new Error(`ffmpeg exited ${code}: ${stderr.slice(-500)}`)
 		}
@@ -317,3 +510,63 @@ export async function normalizeInPlace(filepath: string): Promise<NormalizeResul
 		}
 	}
 }
+
+/**
+ * Transcode an upload in another format to the canonical MP3 format and
+ * loudness, written beside it as {@link mp3Filename}, or under a free variant
+ * of that name (see claimFilename) if it's taken. Like normalizeInPlace, the
+ * encode goes to a temp file in the same directory and is only renamed into
+ * place once ffprobe confirms it.
+ */
+export async function transcodeToMp3(
+	filepath: string,
+	onProgress?: ProgressHandler,
+): Promise<TranscodeResult> {
+	const result = await transcodeFile(filepath, onProgress)
+	normalizations.inc({ status: result.status })
+	return result
+}
+
+/**
+ * The transcode itself; see transcodeToMp3
+ */
+async function transcodeFile(filepath: string, onProgress?: ProgressHandler): Promise<TranscodeResult> {
+	onProgress?.('probing', 0)
+	const sourceSampleRate = await probeSampleRate(filepath)
+	if (sourceSampleRate === null) {
+		return { status: 'failed', sourceSampleRate: null, error: 'Could not probe sample rate' }
+	}
+
+	// Any format can be measured, so this is two-pass when analysis works
+	const durationMs = onProgress ? await probeDurationMs(filepath) : null
+	const stats = await measureLoudness(filepath, durationMs, onProgress)
+	const measuredI = stats ? Number.parseFloat(stats.input_i) : Number.NaN
+	const sourceLoudnessLufs = Number.isFinite(measuredI) ? measuredI : null
+
+	const dir = path.dirname(filepath)
+	const tmp = path.join(dir, `.transcoding-${mp3Filename(filepath)}.${randomUUID()}.tmp.mp3`)
+
+	try {
+		const step = withProgress(buildTranscodeArgs(filepath, tmp, stats), 'encoding', durationMs, onProgress)
+		const { code, stderr } = await run(FFMPEG, step.args, step.onStdout)
+		if (code !== 0) {
+			throw new Error(`ffmpeg exited ${code}: ${stderr.slice(-500)}`)
+		}
+
+		const outRate = await probeSampleRate(tmp)
+		if (outRate !== TARGET_SAMPLE_RATE) {
+			throw new Error(`output sample rate is ${outRate}, expected ${TARGET_SAMPLE_RATE}`)
+		}
+
+		const output = path.join(dir, claimFilename(dir, mp3Filename(filepath)))
+		fs.renameSync(tmp, output)
+		return { status: 'transcoded', output, sourceSampleRate, sourceLoudnessLufs }
+	} catch (err) {
+		fs.rmSync(tmp, { force: true })
+		return {
+			status: 'failed',
+			sourceSampleRate,
+			error: err instanceof Error ? err.message : String(err),
+		}
+	}
+}
@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test'
+import { TARGET_CHANNELS, TARGET_SAMPLE_RATE } from './audioNormalizer'
+import {
+	buildCrossfadeArgs,
+	buildFadeOutArgs,
+	encoderDelayAlignment,
+	framesForDuration,
+	MAX_TRANSITION_MS,
+	parseTransitionMs,
+} from './crossfade'
+
+const FRAME_MS = (1152 / 44100) * 1000
+
+describe('parseTransitionMs', () => {
+	test('missing, invalid or non-positive values disable the transition', () => {
+		expect(parseTransitionMs(undefined)).toBe(0)
+		expect(parseTransitionMs('')).toBe(0)
+		expect(parseTransitionMs('soon')).toBe(0)
+		expect(parseTransitionMs('-500')).toBe(0)
+	})
+
+	test('valid values are rounded and clamped', () => {
+		expect(parseTransitionMs('4000')).toBe(4000)
+		expect(parseTransitionMs('1500.4')).toBe(1500)
+		expect(parseTransitionMs('600000')).toBe(MAX_TRANSITION_MS)
+	})
+})
+
+describe('framesForDuration', () => {
+	test('rounds to whole frames, never zero', () => {
+		expect(framesForDuration(1000, FRAME_MS)).toBe(38)
+		expect(framesForDuration(1, FRAME_MS)).toBe(1)
+	})
+})
+
+describe('buildCrossfadeArgs', () => {
+	const args = buildCrossfadeArgs('/t/tail.mp3', '/t/head.mp3', '/t/out.mp3', 4, 0.052)
+
+	test('trims the primer off the tail before mixing', () => {
+		const filter = args[args.indexOf('-filter_complex') + 1]
+		expect(filter).toBe(
+			'[0:a]atrim=start=0.052000,asetpts=PTS-STARTPTS[tail];[tail][1:a]acrossfade=d=4.000:c1=tri:c2=tri[out]',
+		)
+		expect(args[args.indexOf('-map') + 1]).toBe('[out]')
+	})
+
+	test('keeps the lead of the primer ahead of the overlap', () => {
+		const led = buildCrossfadeArgs('/t/tail.mp3', '/t/head.mp3', '/t/out.mp3', 4, 0.052, 0.002)
+		expect(led[led.indexOf('-filter_complex') + 1]).toStartWith('[0:a]atrim=start=0.050000,')
+	})
+
+	test('encodes to the canonical format without the bit reservoir or an ID3 tag', () => {
+		expect(args[args.indexOf('-ar') + 1]).toBe(String(TARGET_SAMPLE_RATE))
+		expect(args[args.indexOf('-ac') + 1]).toBe(String(TARGET_CHANNELS))
+		expect(args[args.indexOf('-c:a') + 1]).toBe('libmp3lame')
+		expect(args[args.indexOf('-reservoir') + 1]).toBe('0')
+		expect(args).not.toContain('-write_xing') // Its LAME tag has the encoder delay
+		expect(args[args.indexOf('-id3v2_version') + 1]).toBe('0')
+		expect(args[args.length - 1]).toBe('/t/out.mp3')
+	})
+
+	test('forces the mp3 demuxer for both raw frame inputs', () => {
+		expect(args.filter(arg => arg === '-f').length).toBe(3) // two inputs + output
+		expect(args.indexOf('/t/tail.mp3')).toBeLessThan(args.indexOf('/t/head.mp3'))
+	})
+})
+
+describe('buildFadeOutArgs', () => {
+	test('fades to silence over the segment after its primer', () => {
+		const args = buildFadeOutArgs('/t/in.mp3', '/t/out.mp3', 2.5, 0.052)
+		expect(args[args.indexOf('-af') + 1]).toBe(
+			'atrim=start=0.052000,asetpts=PTS-STARTPTS,afade=t=out:st=0.000000:d=2.500',
+		)
+		expect(args[args.length - 1]).toBe('/t/out.mp3')
+	})
+
+	test('starts the fade after the lead', () => {
+		const args = buildFadeOutArgs('/t/in.mp3', '/t/out.mp3', 2.5, 0.052, 0.002)
+		expect(args[args.indexOf('-af') + 1]).toBe(
+			'atrim=start=0.050000,asetpts=PTS-STARTPTS,afade=t=out:st=0.002000:d=2.500',
+		)
+	})
+})
+
+describe('encoderDelayAlignment', () => {
+	test('drops the frame holding the LAME delay and leads by the rest of it', () => {
+		// 576 + 529 = 1105 samples of delay: one frame, less 47 samples of lead
+		expect(encoderDelayAlignment(576, 1152)).toEqual({ dropFrames: 1, leadSamples: 47 })
+	})
+
+	test('drops more frames for a longer delay', () => {
+		expect(encoderDelayAlignment(1200, 1152)).toEqual({ dropFrames: 2, leadSamples: 2304 - 1729 })
+	})
+})
@@ -0,0 +1,279 @@
+/**
+ * CROSSFADE
+ * =========
+ *
+ * Renders track transitions as a handful of freshly-encoded MP3 frames that
+ * the engine splices into the stream in place of the raw frames they cover:
+ *
+ *  - Crossfade: the last N frames of the outgoing track and the first N frames
+ *    of the incoming one are decoded, mixed with `acrossfade`, and re-encoded.
+ *  - Fade-out on skip: the next N frames of the skipped track are faded to
+ *    silence instead of cutting mid-phrase.
+ *
+ * Output is re-encoded at the canonical 44100 Hz / stereo / MPEG1 Layer III
+ * format {@link normalizeInPlace} guarantees, so spliced frames continue the
+ * same browser decode session. Everything else is passed through untouched;
+ * only the overlap pays a generational loss.
+ *
+ * Layer III frames can borrow bits from earlier frames (the bit reservoir), so
+ * a segment cut out of the middle of a track doesn't decode cleanly from its
+ * first frame. Callers pass {@link TRANSITION_PRIMER_FRAMES} extra frames
+ * ahead of the fade; they're decoded to warm up the reservoir and trimmed off
+ * before mixing. (The first untouched frame after a splice can still reach
+ * back into data the listener never received — a one-frame blip at worst.)
+ *
+ * An encoder can't start a stream mid-sound: LAME puts an encoder delay of
+ * silence ahead of the audio (its length is in the LAME tag of the output,
+ * plus the fixed {@link MP3_DECODER_DELAY}). To keep spliced frames in step
+ * with the stream, each render feeds in a little extra audio from the primer
+ * and encodes without the bit reservoir, so the output frames holding the
+ * delay can be dropped whole and the rest line up with the frames they
+ * replace. Trailing frames of encoder padding are dropped the same way.
+ *
+ * Rendering runs ffmpeg on temp files and takes a few hundred ms, so the
+ * engine starts it {@link RENDER_HEADROOM_MS} before the splice point and keeps
+ * streaming raw frames meanwhile. Any failure resolves to null and the engine
+ * falls back to a hard cut.
+ */
+
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { FFMPEG, run, TARGET_CHANNELS, TARGET_SAMPLE_RATE } from './audioNormalizer'
+import { Mp3FrameReader } from './mp3parser'
+import type { Mp3Frame } from './types'
+
+export const TRANSITION_PRIMER_FRAMES = 2
+
+// MPEG1 Layer III, the canonical format renders are encoded in
+const SAMPLES_PER_FRAME = 1152
+
+// How far ahead of the splice point rendering starts
+export const RENDER_HEADROOM_MS = 2000
+
+// Longest transition we'll render; longer settings are clamped
+export const MAX_TRANSITION_MS = 12_000
+
+/**
+ * Parse a transition length from env (ms). Missing, invalid or non-positive
+ * values disable the transition (0).
+ */
+export function parseTransitionMs(value: string | undefined): number {
+	const ms = Number(value)
+	if (!Number.isFinite(ms) || ms <= 0) return 0
+	return Math.min(Math.round(ms), MAX_TRANSITION_MS)
+}
+
+/**
+ * Number of whole frames needed to cover `ms` (at least one)
+ */
+export function framesForDuration(ms: number, frameDurationMs: number): number {
+	return Math.max(1, Math.round(ms / frameDurationMs))
+}
+
+// Samples an MP3 decoder's synthesis filterbank lags its input, on top of the
+// encoder delay in the LAME tag
+export const MP3_DECODER_DELAY = 529
+
+// libmp3lame's encoder delay. Renders are planned with it and checked against
+// the LAME tag of the output.
+let expectedEncoderDelay = 576
+
+/**
+ * Pure: how to line up a render with the stream, given the encoder delay of
+ * the output. The audio is fed in `leadSamples` early, and the first
+ * `dropFrames` frames of output (delay and lead) are thrown away.
+ */
+export function encoderDelayAlignment(
+	encoderDelay: number,
+	samplesPerFrame: number,
+): { dropFrames: number; leadSamples: number } {
+	const delay = encoderDelay + MP3_DECODER_DELAY
+	const dropFrames = Math.ceil(delay / samplesPerFrame)
+	return { dropFrames, leadSamples: dropFrames * samplesPerFrame - delay }
+}
+
+// Shared encoder settings: canonical format, no bit reservoir (so the frames
+// kept don't depend on the ones dropped) and no ID3 tag. The Info frame is
+// written for its LAME tag; Mp3FrameReader skips it.
+function encoderArgs(output: string): string[] {
+	return [
+		'-ar',
+		String(TARGET_SAMPLE_RATE),
+		'-ac',
+		String(TARGET_CHANNELS),
+		'-c:a',
+		'libmp3lame',
+		'-q:a',
+		'0',
+		'-reservoir',
+		'0',
+		'-id3v2_version',
+		'0',
+		'-f',
+		'mp3',
+		'-y',
+		output,
+	]
+}
+
+/**
+ * Pure: ffmpeg args that mix the end of `tail` into the start of `head`.
+ * `tail` begins with `primerSec` of reservoir warm-up that is trimmed first,
+ * all but the last `leadSec`; both inputs are expected to be `fadeSec` long
+ * after that, so the output is the lead and then exactly the overlap.
+ */
+export function buildCrossfadeArgs(
+	tail: string,
+	head: string,
+	output: string,
+	fadeSec: number,
+	primerSec: number,
+	leadSec = 0,
+): string[] {
+	return [
+		'-hide_banner',
+		'-loglevel',
+		'error',
+		'-f',
+		'mp3',
+		'-i',
+		tail,
+		'-f',
+		'mp3',
+		'-i',
+		head,
+		'-filter_complex',
+		`[0:a]atrim=start=${(primerSec - leadSec).toFixed(6)},asetpts=PTS-STARTPTS[tail];` +
+			`[tail][1:a]acrossfade=d=${fadeSec.toFixed(3)}:c1=tri:c2=tri[out]`,
+		'-map',
+		'[out]',
+		...encoderArgs(output),
+	]
+}
+
+/**
+ * Pure: ffmpeg args that fade `input` (after its primer, less `leadSec`) out
+ * to silence over `fadeSec`.
+ */
+export function buildFadeOutArgs(
+	input: string,
+	output: string,
+	fadeSec: number,
+	primerSec: number,
+	leadSec = 0,
+): string[] {
+	return [
+		'-hide_banner',
+		'-loglevel',
+		'error',
+		'-f',
+		'mp3',
+		'-i',
+		input,
+		'-af',
+		`atrim=start=${(primerSec - leadSec).toFixed(6)},asetpts=PTS-STARTPTS,` +
+			`afade=t=out:st=${leadSec.toFixed(6)}:d=${fadeSec.toFixed(3)}`,
+		...encoderArgs(output),
+	]
+}
+
+function segmentDurationSec(frames: Mp3Frame[]): number {
+	return frames.reduce((sum, frame) => sum + frame.header.frameDurationMs, 0) / 1000
+}
+
+/**
+ * Write the input segments to a scratch dir, run ffmpeg, and read back the
+ * `frameCount` output frames that line up with the stream. If the output's
+ * encoder delay isn't the one planned for, renders once more with it.
+ * Resolves null on any failure; the scratch dir is always removed.
+ */
+async function renderFrames(
+	inputs: Mp3Frame[][],
+	frameCount: number,
+	primerSec: number,
+	buildArgs: (inputPaths: string[], output: string, leadSec: number) => string[],
+): Promise<Mp3Frame[] | null> {
+	const dir = path.join(os.tmpdir(), `lofi-radio-transition-${randomUUID()}`)
+	try {
+		fs.mkdirSync(dir, { recursive: true })
+		const inputPaths = inputs.map((frames, i) => {
+			const file = path.join(dir, `in-${i}.mp3`)
+			fs.writeFileSync(file, Buffer.concat(frames.map(frame => frame.data)))
+			return file
+		})
+		const output = path.join(dir, 'out.mp3')
+
+		for (let attempt = 0; attempt < 2; attempt++) {
+			const planned = expectedEncoderDelay
+			const { dropFrames, leadSamples } = encoderDelayAlignment(planned, SAMPLES_PER_FRAME)
+			const leadSec = Math.min(leadSamples / TARGET_SAMPLE_RATE, primerSec)
+			const { code, stderr } = await run(FFMPEG, buildArgs(inputPaths, output, leadSec))
+			if (code !== 0) {
+				console.warn(`[Crossfade] ffmpeg exited ${code}: ${stderr.slice(-300)}`)
+				return null
+			}
+
+			const reader = new Mp3FrameReader(output)
+			const frames: Mp3Frame[] = []
+			let encoderDelay = planned
+			try {
+				const info = reader.getStreamInfo()
+				if (info.vbrHeader) encoderDelay = info.encoderDelay
+				for (let frame = reader.readNextFrame(); frame; frame = reader.readNextFrame()) {
+					frames.push(frame)
+				}
+			} finally {
+				reader.close()
+			}
+
+			if (encoderDelay !== planned) {
+				console.warn(`[Crossfade] Encoder delay is ${encoderDelay} samples, not ${planned}; rendering again`)
+				expectedEncoderDelay = encoderDelay
+				continue
+			}
+			const aligned = frames.slice(dropFrames, dropFrames + frameCount)
+			return aligned.length > 0 ? aligned : null
+		}
+		return null
+	} catch (err) {
+		console.warn('[Crossfade] Render failed:', err instanceof Error ? err.message : err)
+		return null
+	} finally {
+		fs.rmSync(dir, { recursive: true, force: true })
+	}
+}
+
+/**
+ * Render the crossfade between two tracks.
+ * @param tail - Outgoing frames: `primerFrames` of warm-up, then the fade region
+ * @param head - Incoming frames covering the same duration as the fade region
+ */
+export function renderCrossfade(
+	tail: Mp3Frame[],
+	head: Mp3Frame[],
+	primerFrames: number,
+): Promise<Mp3Frame[] | null> {
+	const primerSec = segmentDurationSec(tail.slice(0, primerFrames))
+	const fadeSec = Math.min(segmentDurationSec(tail.slice(primerFrames)), segmentDurationSec(head))
+	const frameCount = Math.min(tail.length - primerFrames, head.length)
+	return renderFrames(
+		[tail, head],
+		frameCount,
+		primerSec,
+		([tailPath = '', headPath = ''], output, leadSec) =>
+			buildCrossfadeArgs(tailPath, headPath, output, fadeSec, primerSec, leadSec),
+	)
+}
+
+/**
+ * Render a fade to silence over `frames` (after `primerFrames` of warm-up).
+ */
+export function renderFadeOut(frames: Mp3Frame[], primerFrames: number): Promise<Mp3Frame[] | null> {
+	const primerSec = segmentDurationSec(frames.slice(0, primerFrames))
+	const fadeSec = segmentDurationSec(frames.slice(primerFrames))
+	return renderFrames([frames], frames.length - primerFrames, primerSec, ([input = ''], output, leadSec) =>
+		buildFadeOutArgs(input, output, fadeSec, primerSec, leadSec),
+	)
+}
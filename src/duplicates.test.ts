@@ -0,0 +1,144 @@
+import { describe, expect, test } from 'bun:test'
+import {
+	ACOUSTIC_MATCH_THRESHOLD,
+	audioIdOf,
+	findDuplicate,
+	findDuplicateGroups,
+	fingerprintFromLevels,
+	fingerprintSimilarity,
+	type LibraryTrack,
+	parseDuplicatePolicy,
+	parseRmsLevels,
+} from './duplicates'
+
+// Window levels (dBFS) of a made-up song: a fixed pseudo-random walk per seed
+function songLevels(seed: number, windows: number): number[] {
+	let state = seed
+	const levels: number[] = []
+	for (let i = 0; i < windows; i++) {
+		state = (state * 1103515245 + 12345) % 2147483648
+		levels.push(-30 + (state / 2147483648) * 20)
+	}
+	return levels
+}
+
+function fingerprint(levels: number[]): string {
+	const result = fingerprintFromLevels(levels)
+	if (!result) throw new Error('expected a fingerprint')
+	return result
+}
+
+describe('parseRmsLevels', () => {
+	test('reads the level of each window from ametadata output', () => {
+		const output = [
+			'frame:0    pts:0       pts_time:0',
+			'lavfi.astats.Overall.RMS_level=-23.51',
+			'frame:1    pts:1600    pts_time:0.2',
+			'lavfi.astats.Overall.RMS_level=-inf',
+			'frame:2    pts:3200    pts_time:0.4',
+			'lavfi.astats.Overall.RMS_level=-19',
+		].join('\n')
+		expect(parseRmsLevels(output)).toEqual([-23.51, Number.NEGATIVE_INFINITY, -19])
+		expect(parseRmsLevels('')).toEqual([])
+	})
+})
+
+describe('fingerprintFromLevels', () => {
+	test('sets a bit for each window louder than the one before', () => {
+		const levels = [-30, -20, -25, -10, -10, ...songLevels(1, 60)]
+		expect(fingerprint(levels).slice(0, 1)).toBe('a') // 1010
+		expect(fingerprint(levels)).toHaveLength(16)
+		expect(fingerprintFromLevels(songLevels(1, 20))).toBeNull()
+	})
+})
+
+describe('fingerprintSimilarity', () => {
+	const song = songLevels(1, 900)
+
+	test('matches the same song after a gain change, small level noise and a delay', () => {
+		const reencoded = [-40, -41, ...song.map((level, i) => level - 3 + (i % 7 === 0 ? 0.4 : 0))]
+		expect(fingerprintSimilarity(fingerprint(song), fingerprint(reencoded))).toBeGreaterThanOrEqual(
+			ACOUSTIC_MATCH_THRESHOLD,
+		)
+		expect(fingerprintSimilarity(fingerprint(song), fingerprint(song))).toBe(1)
+	})
+
+	test('tells different songs apart, and songs of different lengths', () => {
+		expect(fingerprintSimilarity(fingerprint(song), fingerprint(songLevels(2, 900)))).toBeLessThan(0.6)
+		expect(fingerprintSimilarity(fingerprint(song), fingerprint(song.slice(0, 700)))).toBe(0)
+	})
+})
+
+describe('duplicate matching', () => {
+	const song = fingerprint(songLevels(1, 900))
+	const library: LibraryTrack[] = [
+		{ id: 'aaaaaaaaaaaaaaaa', filename: 'rain.mp3', fingerprint: song },
+		{ id: 'aaaaaaaaaaaaaaaa-2', filename: 'rain copy.mp3' },
+		{ id: 'bbbbbbbbbbbbbbbb', filename: 'rain (flac).mp3', fingerprint: fingerprint(songLevels(1, 901)) },
+		{ id: 'cccccccccccccccc', filename: 'sun.mp3', fingerprint: fingerprint(songLevels(3, 900)) },
+	]
+
+	test('audioIdOf drops the suffix of files with the same audio', () => {
+		expect(audioIdOf('aaaaaaaaaaaaaaaa-2')).toBe('aaaaaaaaaaaaaaaa')
+		expect(audioIdOf('aaaaaaaaaaaaaaaa')).toBe('aaaaaaaaaaaaaaaa')
+	})
+
+	test('findDuplicate prefers the same audio, then the closest fingerprint', () => {
+		expect(findDuplicate({ audioId: 'aaaaaaaaaaaaaaaa', fingerprint: null }, library)).toEqual({
+			id: 'aaaaaaaaaaaaaaaa',
+			filename: 'rain.mp3',
+			match: 'exact',
+			similarity: 1,
+		})
+		expect(findDuplicate({ audioId: 'dddddddddddddddd', fingerprint: song }, library)).toMatchObject({
+			filename: 'rain.mp3',
+			match: 'acoustic',
+			similarity: 1,
+		})
+		const other = fingerprint(songLevels(4, 900))
+		expect(findDuplicate({ audioId: 'dddddddddddddddd', fingerprint: other }, library)).toBeNull()
+	})
+
+	test('findDuplicateGroups groups exact and acoustic matches', () => {
+		const groups = findDuplicateGroups(library)
+		expect(groups).toHaveLength(1)
+		expect(groups[0]?.match).toBe('acoustic')
+		expect(groups[0]?.tracks.map(track => track.filename)).toEqual([
+			'rain.mp3',
+			'rain copy.mp3',
+			'rain (flac).mp3',
+		])
+		expect(findDuplicateGroups(library.slice(0, 2))).toEqual([
+			{
+				match: 'exact',
+				similarity: 1,
+				tracks: [
+					{ id: 'aaaaaaaaaaaaaaaa', filename: 'rain.mp3', title: undefined, artist: undefined },
+					{ id: 'aaaaaaaaaaaaaaaa-2', filename: 'rain copy.mp3', title: undefined, artist: undefined },
+				],
+			},
+		])
+	})
+
+	test('findDuplicateGroups matches tracks of nearby lengths past others in between', () => {
+		const tracks: LibraryTrack[] = [
+			{ id: 'eeeeeeeeeeeeeeee', filename: 'wind.mp3', fingerprint: fingerprint(songLevels(5, 900)) },
+			{ id: 'ffffffffffffffff', filename: 'snow.mp3', fingerprint: fingerprint(songLevels(6, 905)) },
+			{ id: '1111111111111111', filename: 'hail.mp3', fingerprint: fingerprint(songLevels(7, 910)) },
+			{ id: '2222222222222222', filename: 'wind (live).mp3', fingerprint: fingerprint(songLevels(5, 920)) },
+			{ id: '3333333333333333', filename: 'wind (edit).mp3', fingerprint: fingerprint(songLevels(5, 700)) },
+		]
+		const groups = findDuplicateGroups(tracks)
+		expect(groups.map(group => group.tracks.map(track => track.filename))).toEqual([
+			['wind.mp3', 'wind (live).mp3'],
+		])
+	})
+})
+
+describe('parseDuplicatePolicy', () => {
+	test('falls back to reject', () => {
+		expect(parseDuplicatePolicy('flag')).toBe('flag')
+		expect(parseDuplicatePolicy(undefined)).toBe('reject')
+		expect(parseDuplicatePolicy('ignore')).toBe('reject')
+	})
+})
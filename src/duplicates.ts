@@ -0,0 +1,316 @@
+/**
+ * DUPLICATE DETECTION
+ * ===================
+ * Finds uploads (and library tracks) that are the same song as another
+ * track, two ways:
+ *
+ * - Exact: the same audio frames, i.e. track ids from the same audio hash
+ *   (`abc...`, `abc...-2`). Catches a file uploaded again under another name.
+ * - Acoustic: a fingerprint of the loudness envelope, decoded by ffmpeg. Each
+ *   bit says whether a 200ms window is louder than the one before, so it
+ *   survives re-encoding, gain changes and a different container (the same
+ *   song as FLAC and as MP3), unlike the frame hash. Two fingerprints match
+ *   when enough bits agree at the best alignment, within a couple of seconds,
+ *   and the tracks are about the same length.
+ *
+ * Acoustic matches are suspicions, not proof: a cover or a remaster can
+ * match. Without ffmpeg only exact duplicates are found.
+ *
+ * Grouping the whole library decodes each fingerprint once and only compares
+ * tracks close enough in length to match, so its cost grows with the number
+ * of tracks of about the same length rather than with every pair.
+ */
+
+import { FFMPEG, run } from './audioNormalizer'
+
+export type DuplicatePolicy = 'reject' | 'flag'
+
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = 'reject'
+
+// Length of one fingerprint window, in samples at FINGERPRINT_SAMPLE_RATE
+const FINGERPRINT_SAMPLE_RATE = 8000
+const WINDOW_SAMPLES = 1600 // 200ms
+
+// Shortest audio worth fingerprinting, in windows (10s)
+const MIN_WINDOWS = 50
+
+// Furthest two fingerprints are shifted against each other, in windows (2s)
+const MAX_OFFSET = 10
+
+// Most two tracks' lengths may differ and still match, in windows (5s)
+const MAX_LENGTH_DIFFERENCE = 25
+
+// Fraction of bits that must agree for an acoustic match (unrelated audio agrees on about half)
+export const ACOUSTIC_MATCH_THRESHOLD = 0.85
+
+export function parseDuplicatePolicy(value: string | undefined): DuplicatePolicy {
+	if (value === 'reject' || value === 'flag') return value
+	if (value) {
+		console.warn(`[Duplicates] Unknown DUPLICATE_POLICY "${value}", using ${DEFAULT_DUPLICATE_POLICY}`)
+	}
+	return DEFAULT_DUPLICATE_POLICY
+}
+
+/**
+ * Pure: ffmpeg args printing the RMS level of each fingerprint window of a
+ * file's audio, mixed to mono, to stdout
+ */
+export function buildFingerprintArgs(input: string): string[] {
+	const filters = [
+		`aresample=${FINGERPRINT_SAMPLE_RATE}`,
+		`asetnsamples=n=${WINDOW_SAMPLES}:p=0`,
+		'astats=metadata=1:reset=1',
+		'ametadata=mode=print:key=lavfi.astats.Overall.RMS_level:file=-',
+	]
+	return ['-v', 'error', '-i', input, '-vn', '-ac', '1', '-af', filters.join(','), '-f', 'null', '-']
+}
+
+/**
+ * Pure: the window RMS levels (dBFS) in ametadata output. Silence is -Infinity.
+ */
+export function parseRmsLevels(text: string): number[] {
+	const levels: number[] = []
+	for (const line of text.split('\n')) {
+		const match = /^lavfi\.astats\.Overall\.RMS_level=(\S+)/.exec(line.trim())
+		if (!match?.[1]) continue
+		const level = match[1] === '-inf' ? Number.NEGATIVE_INFINITY : Number.parseFloat(match[1])
+		if (!Number.isNaN(level)) levels.push(level)
+	}
+	return levels
+}
+
+/**
+ * Pure: the fingerprint of a series of window levels, as hex (4 windows a
+ * character; the last few windows that don't fill one are left off). Null if
+ * the audio is too short to tell apart from other tracks.
+ */
+export function fingerprintFromLevels(levels: number[]): string | null {
+	const bitCount = Math.floor((levels.length - 1) / 4) * 4
+	if (bitCount < MIN_WINDOWS) return null
+	let hex = ''
+	for (let i = 0; i < bitCount; i += 4) {
+		let nibble = 0
+		for (let bit = 0; bit < 4; bit++) {
+			const louder = (levels[i + bit + 1] ?? 0) > (levels[i + bit] ?? 0)
+			nibble = (nibble << 1) | (louder ? 1 : 0)
+		}
+		hex += nibble.toString(16)
+	}
+	return hex
+}
+
+function fingerprintBits(fingerprint: string): Uint8Array {
+	const bits = new Uint8Array(fingerprint.length * 4)
+	for (let i = 0; i < fingerprint.length; i++) {
+		const nibble = Number.parseInt(fingerprint.charAt(i), 16)
+		for (let bit = 0; bit < 4; bit++) bits[i * 4 + bit] = (nibble >> (3 - bit)) & 1
+	}
+	return bits
+}
+
+// A fingerprint decoded for comparing: its bits packed 32 to a word (first bit
+// highest), once starting from each window up to MAX_OFFSET, so that every
+// alignment compares whole words
+interface DecodedFingerprint {
+	windows: number
+	shifted: Uint32Array[]
+}
+
+function decodeFingerprint(fingerprint: string): DecodedFingerprint {
+	const bits = fingerprintBits(fingerprint)
+	const shifted: Uint32Array[] = []
+	for (let shift = 0; shift <= MAX_OFFSET; shift++) {
+		const words = new Uint32Array(Math.ceil(Math.max(0, bits.length - shift) / 32))
+		for (let i = 0; i + shift < bits.length; i++) {
+			if (bits[i + shift]) words[i >>> 5] = (words[i >>> 5] ?? 0) | (1 << (31 - (i & 31)))
+		}
+		shifted.push(words)
+	}
+	return { windows: bits.length, shifted }
+}
+
+function popcount(word: number): number {
+	let x = word - ((word >>> 1) & 0x55555555)
+	x = (x & 0x33333333) + ((x >>> 2) & 0x33333333)
+	return Math.imul((x + (x >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24
+}
+
+// Bits that differ among the first `count` of two packed fingerprints
+function disagreements(a: Uint32Array, b: Uint32Array, count: number): number {
+	const whole = count >>> 5
+	let differ = 0
+	for (let w = 0; w < whole; w++) differ += popcount((a[w] ?? 0) ^ (b[w] ?? 0))
+	const rest = count & 31
+	if (rest > 0) differ += popcount(((a[whole] ?? 0) ^ (b[whole] ?? 0)) & (-1 << (32 - rest)))
+	return differ
+}
+
+// Whether fingerprints `a` and `b` windows long could be the same song
+function lengthsMatch(a: number, b: number): boolean {
+	return Math.abs(a - b) <= MAX_LENGTH_DIFFERENCE
+}
+
+// Similarity of two decoded fingerprints: window i of `a` against window
+// i + offset of `b`, at the best offset
+function decodedSimilarity(a: DecodedFingerprint, b: DecodedFingerprint): number {
+	if (!lengthsMatch(a.windows, b.windows)) return 0
+
+	let best = 0
+	for (let offset = -MAX_OFFSET; offset <= MAX_OFFSET; offset++) {
+		const compared = Math.min(a.windows - Math.max(0, -offset), b.windows - Math.max(0, offset))
+		const wordsA = a.shifted[Math.max(0, -offset)]
+		const wordsB = b.shifted[Math.max(0, offset)]
+		if (compared < MIN_WINDOWS || !wordsA || !wordsB) continue
+		best = Math.max(best, (compared - disagreements(wordsA, wordsB, compared)) / compared)
+	}
+	return best
+}
+
+/**
+ * Pure: how alike two fingerprints are, from 0.5 (unrelated) to 1 (the same
+ * audio), at the best alignment. 0 if the tracks' lengths are too far apart
+ * to be the same song.
+ */
+export function fingerprintSimilarity(a: string, b: string): number {
+	if (!lengthsMatch(a.length * 4, b.length * 4)) return 0
+	return decodedSimilarity(decodeFingerprint(a), decodeFingerprint(b))
+}
+
+/**
+ * Fingerprint a file's audio with ffmpeg. Null if it can't be decoded, is
+ * too short, or ffmpeg is missing.
+ */
+export async function computeFingerprint(filepath: string): Promise<string | null> {
+	try {
+		const { code, stdout, stderr } = await run(FFMPEG, buildFingerprintArgs(filepath))
+		if (code !== 0) {
+			console.warn(`[Duplicates] Could not fingerprint ${filepath}: ${stderr.trim().slice(-200)}`)
+			return null
+		}
+		return fingerprintFromLevels(parseRmsLevels(stdout))
+	} catch (err) {
+		// ffmpeg itself is missing
+		console.warn(
+			`[Duplicates] Could not fingerprint ${filepath}: ${err instanceof Error ? err.message : err}`,
+		)
+		return null
+	}
+}
+
+/**
+ * Pure: the audio hash part of a track id, without the `-2`, `-3`... suffix
+ * that tells apart files with the same audio
+ */
+export function audioIdOf(trackId: string): string {
+	return trackId.replace(/-\d+$/, '')
+}
+
+export interface LibraryTrack {
+	id: string
+	filename: string
+	title?: string
+	artist?: string
+	fingerprint?: string
+}
+
+export interface DuplicateMatch {
+	id: string
+	filename: string
+	match: 'exact' | 'acoustic'
+	similarity: number
+}
+
+/**
+ * Pure: the library track an upload duplicates, if any: one with the same
+ * audio, otherwise the closest acoustic match over the threshold
+ */
+export function findDuplicate(
+	upload: { audioId: string | null; fingerprint: string | null },
+	library: LibraryTrack[],
+): DuplicateMatch | null {
+	const exact = library.find(track => upload.audioId !== null && audioIdOf(track.id) === upload.audioId)
+	if (exact) return { id: exact.id, filename: exact.filename, match: 'exact', similarity: 1 }
+
+	if (!upload.fingerprint) return null
+	const decoded = decodeFingerprint(upload.fingerprint)
+	let best: DuplicateMatch | null = null
+	for (const track of library) {
+		if (!track.fingerprint || !lengthsMatch(decoded.windows, track.fingerprint.length * 4)) continue
+		const similarity = decodedSimilarity(decoded, decodeFingerprint(track.fingerprint))
+		if (similarity >= ACOUSTIC_MATCH_THRESHOLD && similarity > (best?.similarity ?? 0)) {
+			best = { id: track.id, filename: track.filename, match: 'acoustic', similarity }
+		}
+	}
+	return best
+}
+
+export interface DuplicateGroup {
+	match: 'exact' | 'acoustic' // Acoustic if any track is only an acoustic match
+	similarity: number // Of the least alike pair that put a track in the group
+	tracks: Omit<LibraryTrack, 'fingerprint'>[]
+}
+
+/**
+ * Pure: groups of library tracks that look like the same song, most alike first
+ */
+export function findDuplicateGroups(library: LibraryTrack[]): DuplicateGroup[] {
+	// Union-find over track indexes, remembering how each group was joined
+	const parent = library.map((_, i) => i)
+	const root = (i: number): number => {
+		let r = i
+		while (parent[r] !== r) r = parent[r] ?? r
+		return r
+	}
+	const links: { from: number; match: DuplicateGroup['match']; similarity: number }[] = []
+	const join = (a: number, b: number, match: DuplicateGroup['match'], similarity: number) => {
+		const ra = root(a)
+		const rb = root(b)
+		if (ra === rb) return
+		parent[rb] = ra
+		links.push({ from: a, match, similarity })
+	}
+
+	// Exact: the first track with each audio hash
+	const firstWithAudio = new Map<string, number>()
+	library.forEach((track, i) => {
+		const audioId = audioIdOf(track.id)
+		const first = firstWithAudio.get(audioId)
+		if (first === undefined) firstWithAudio.set(audioId, i)
+		else join(first, i, 'exact', 1)
+	})
+
+	// Acoustic: each fingerprint decoded once, shortest first, so each track is
+	// only compared with the ones after it up to the longest that could match
+	const decoded = library
+		.flatMap((track, i) =>
+			track.fingerprint ? [{ i, fingerprint: decodeFingerprint(track.fingerprint) }] : [],
+		)
+		.sort((a, b) => a.fingerprint.windows - b.fingerprint.windows)
+	decoded.forEach((a, k) => {
+		for (let m = k + 1; m < decoded.length; m++) {
+			const b = decoded[m]
+			if (!b || !lengthsMatch(a.fingerprint.windows, b.fingerprint.windows)) break
+			if (root(a.i) === root(b.i)) continue
+			const similarity = decodedSimilarity(a.fingerprint, b.fingerprint)
+			if (similarity >= ACOUSTIC_MATCH_THRESHOLD) join(a.i, b.i, 'acoustic', similarity)
+		}
+	})
+
+	const groups = new Map<number, DuplicateGroup>()
+	library.forEach((track, i) => {
+		const r = root(i)
+		const group = groups.get(r) ?? { match: 'exact', similarity: 1, tracks: [] }
+		group.tracks.push({ id: track.id, filename: track.filename, title: track.title, artist: track.artist })
+		groups.set(r, group)
+	})
+	for (const link of links) {
+		const group = groups.get(root(link.from))
+		if (!group) continue
+		if (link.match === 'acoustic') group.match = 'acoustic'
+		group.similarity = Math.min(group.similarity, link.similarity)
+	}
+
+	return [...groups.values()]
+		.filter(group => group.tracks.length > 1)
+		.sort((a, b) => b.similarity - a.similarity)
+}
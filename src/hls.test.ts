@@ -0,0 +1,150 @@
+import { describe, expect, test } from 'bun:test'
+import { buildMediaPlaylist, buildSegmentId3, HlsPublisher, parseHlsSetting, parseSegmentName } from './hls'
+import type { Mp3Frame, Track } from './types'
+
+const track: Track = { id: 't1', path: '/songs/a.mp3', title: 'Rainy Day', artist: 'Lofi Cat' }
+
+// MPEG1 Layer III, 128 kbps, 44.1 kHz: 417-byte frames of ~26.1ms
+function makeFrame(): Mp3Frame {
+	const data = Buffer.alloc(417)
+	Buffer.from([0xff, 0xfb, 0x90, 0x64]).copy(data)
+	return {
+		data,
+		header: {
+			frameSize: 417,
+			bitrate: 128,
+			sampleRate: 44100,
+			frameDurationMs: (1152 / 44100) * 1000,
+			mpegVersion: 1,
+			layer: 3,
+			samplesPerFrame: 1152,
+			padding: false,
+			crcProtected: false,
+			channelMode: 'stereo',
+			freeFormat: false,
+		},
+	}
+}
+
+describe('buildSegmentId3', () => {
+	test('writes an ID3v2.4 tag with the 90 kHz timestamp', () => {
+		const tag = buildSegmentId3(10_000, null)
+		expect(tag.subarray(0, 3).toString('latin1')).toBe('ID3')
+		expect(tag[3]).toBe(4)
+		expect(tag.subarray(10, 14).toString('latin1')).toBe('PRIV')
+
+		const owner = 'com.apple.streaming.transportStreamTimestamp\0'
+		const ownerAt = tag.indexOf(owner, 0, 'latin1')
+		expect(tag.readBigUInt64BE(ownerAt + owner.length)).toBe(900_000n)
+	})
+
+	test('wraps the timestamp at 33 bits', () => {
+		const tag = buildSegmentId3(2 ** 33 / 90 + 1, null) // 1ms past the wrap
+		expect(tag.readBigUInt64BE(tag.length - 8)).toBe(90n)
+	})
+
+	test('adds title and artist frames for a known track', () => {
+		const tag = buildSegmentId3(0, track)
+		const size = ((tag[6] ?? 0) << 21) | ((tag[7] ?? 0) << 14) | ((tag[8] ?? 0) << 7) | (tag[9] ?? 0)
+		expect(tag.length).toBe(10 + size)
+		expect(tag.includes('TIT2')).toBe(true)
+		expect(tag.includes('Rainy Day')).toBe(true)
+		expect(tag.includes('TPE1')).toBe(true)
+		expect(tag.includes('Lofi Cat')).toBe(true)
+	})
+})
+
+describe('buildMediaPlaylist', () => {
+	test('lists segments with durations and program date times', () => {
+		const playlist = buildMediaPlaylist(
+			[
+				{ sequence: 7, data: Buffer.alloc(0), durationMs: 6008.2, programDateTime: Date.UTC(2024, 0, 1) },
+				{
+					sequence: 8,
+					data: Buffer.alloc(0),
+					durationMs: 2500,
+					programDateTime: Date.UTC(2024, 0, 1, 0, 0, 6),
+				},
+			],
+			6,
+		)
+		expect(playlist.split('\n')).toEqual([
+			'#EXTM3U',
+			'#EXT-X-VERSION:3',
+			'#EXT-X-TARGETDURATION:6',
+			'#EXT-X-MEDIA-SEQUENCE:7',
+			'#EXT-X-PROGRAM-DATE-TIME:2024-01-01T00:00:00.000Z',
+			'#EXTINF:6.008,',
+			'segment-7.mp3',
+			'#EXT-X-PROGRAM-DATE-TIME:2024-01-01T00:00:06.000Z',
+			'#EXTINF:2.500,',
+			'segment-8.mp3',
+			'',
+		])
+	})
+})
+
+describe('parseSegmentName', () => {
+	test('accepts only segment file names', () => {
+		expect(parseSegmentName('segment-0.mp3')).toBe(0)
+		expect(parseSegmentName('segment-42.mp3')).toBe(42)
+		expect(parseSegmentName('live.m3u8')).toBeNull()
+		expect(parseSegmentName('segment-1.mp3.bak')).toBeNull()
+	})
+})
+
+describe('parseHlsSetting', () => {
+	test('falls back for missing or invalid values', () => {
+		expect(parseHlsSetting(undefined, 6)).toBe(6)
+		expect(parseHlsSetting('0', 6)).toBe(6)
+		expect(parseHlsSetting('nope', 6)).toBe(6)
+		expect(parseHlsSetting('4', 6)).toBe(4)
+	})
+})
+
+describe('HlsPublisher', () => {
+	test('has no playlist until a segment is complete', () => {
+		const hls = new HlsPublisher({ segmentSeconds: 1 })
+		hls.onFrame(makeFrame())
+		expect(hls.getPlaylist()).toBeNull()
+	})
+
+	test('cuts segments at the target duration and on track change', () => {
+		const hls = new HlsPublisher({ segmentSeconds: 1 })
+		hls.onTrackStart({ track, startedAt: Date.now() })
+		for (let i = 0; i < 40; i++) hls.onFrame(makeFrame()) // 39 frames fill a second
+		hls.onTrackStart({ track: { ...track, id: 't2', title: 'Next' }, startedAt: Date.now() })
+		hls.onFrame(makeFrame())
+		hls.onTrackStart({ track, startedAt: Date.now() })
+
+		const first = hls.getSegment(0)
+		const second = hls.getSegment(1)
+		const third = hls.getSegment(2)
+		expect(first?.durationMs).toBeGreaterThanOrEqual(1000)
+		expect(second?.durationMs).toBeLessThan(30) // the leftover frame, cut by the track change
+		expect(second?.data.includes('Rainy Day')).toBe(true)
+		expect(third?.data.includes('Next')).toBe(true)
+		expect(hls.getPlaylist()).toContain('segment-2.mp3')
+	})
+
+	test('slides the window and expires old segments', () => {
+		const hls = new HlsPublisher({ segmentSeconds: 1, windowSegments: 2 })
+		for (let i = 0; i < 39 * 6; i++) hls.onFrame(makeFrame())
+
+		const playlist = hls.getPlaylist() ?? ''
+		expect(playlist).toContain('#EXT-X-MEDIA-SEQUENCE:4')
+		expect(playlist).not.toContain('segment-3.mp3')
+		expect(hls.getSegment(2)).toBeDefined() // retained a little past the window
+		expect(hls.getSegment(0)).toBeUndefined()
+	})
+
+	test('counts listeners by session', () => {
+		const hls = new HlsPublisher()
+		hls.touchListener('a')
+		hls.touchListener('a')
+		hls.touchListener('b')
+		expect(hls.listenerCount()).toBe(2)
+		expect(hls.hasListener('a')).toBe(true)
+		expect(hls.hasListener('c')).toBe(false)
+	})
+})
@@ -0,0 +1,272 @@
+/**
+ * HLS OUTPUT
+ * ==========
+ * Republishes a station's live frames as an HTTP Live Streaming rendition,
+ * for players that handle HLS better than an endless MP3 response (Safari and
+ * iOS, which reconnect poorly on flaky networks).
+ *
+ * Segments are packed audio: the raw MP3 frames as broadcast, prefixed with an
+ * ID3v2.4 tag. The tag carries the PRIV timestamp the HLS spec requires for
+ * packed audio (so players can place segments on the timeline) plus the
+ * current title/artist, which Safari surfaces as timed metadata.
+ *
+ * A segment is cut once it reaches the target duration and at every track
+ * change, so each segment's tag names the song it contains. Segments live in
+ * memory in a sliding window; nothing touches the disk.
+ */
+
+import type { EngineObserver } from './streamEngine'
+import type { ListenerObserver, Mp3Frame, NowPlaying, Track } from './types'
+
+export const DEFAULT_HLS_SEGMENT_SECONDS = 6
+export const DEFAULT_HLS_WINDOW_SEGMENTS = 6
+
+// Segments kept after they leave the playlist, for players still fetching them
+const RETAINED_EXTRA_SEGMENTS = 2
+
+// A listener counts as tuned in while it keeps reloading the playlist
+const LISTENER_TIMEOUT_MS = 30_000
+
+// MPEG-TS timestamps: 90 kHz clock, 33 bits
+const PTS_CLOCK_HZ = 90_000
+const PTS_MASK = (1n << 33n) - 1n
+
+export interface HlsOptions {
+	segmentSeconds?: number // Target segment duration
+	windowSegments?: number // Segments listed in the playlist
+	listenerObserver?: ListenerObserver // Told when HLS listeners come and go (analytics)
+}
+
+export interface HlsSegment {
+	sequence: number
+	data: Buffer // ID3 tag + frames
+	durationMs: number
+	programDateTime: number // Wall clock when its first frame was broadcast
+}
+
+interface HlsListener {
+	key: string
+	lastSeen: number // Last playlist fetch
+}
+
+interface OpenSegment {
+	frames: Buffer[]
+	durationMs: number
+	startMs: number // Audio time of the first frame since the publisher started
+	programDateTime: number
+	track: Track | null
+}
+
+function synchsafe(value: number): Buffer {
+	return Buffer.from([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f])
+}
+
+function id3Frame(id: string, body: Buffer): Buffer {
+	const header = Buffer.alloc(10)
+	header.write(id, 0, 'latin1')
+	synchsafe(body.length).copy(header, 4)
+	return Buffer.concat([header, body])
+}
+
+function id3TextFrame(id: string, text: string): Buffer {
+	return id3Frame(id, Buffer.concat([Buffer.from([0x03]), Buffer.from(text, 'utf8')])) // 0x03 = UTF-8
+}
+
+/**
+ * ID3v2.4 tag that starts every packed audio segment: the transport stream
+ * timestamp of its first sample, and the track's title/artist if known
+ */
+export function buildSegmentId3(startMs: number, track: Track | null): Buffer {
+	const timestamp = Buffer.alloc(8)
+	timestamp.writeBigUInt64BE(BigInt(Math.round((startMs * PTS_CLOCK_HZ) / 1000)) & PTS_MASK)
+	const frames = [
+		id3Frame(
+			'PRIV',
+			Buffer.concat([Buffer.from('com.apple.streaming.transportStreamTimestamp\0', 'latin1'), timestamp]),
+		),
+	]
+	if (track) {
+		frames.push(id3TextFrame('TIT2', track.title), id3TextFrame('TPE1', track.artist))
+	}
+
+	const body = Buffer.concat(frames)
+	const header = Buffer.alloc(10)
+	header.write('ID3', 0, 'latin1')
+	header[3] = 4 // v2.4.0
+	synchsafe(body.length).copy(header, 6)
+	return Buffer.concat([header, body])
+}
+
+/**
+ * Media playlist for a live sliding window of segments
+ */
+export function buildMediaPlaylist(segments: HlsSegment[], segmentSeconds: number): string {
+	// TARGETDURATION must cover every listed segment's rounded duration
+	const longest = segments.reduce((max, segment) => Math.max(max, segment.durationMs), 0)
+	const targetDuration = Math.max(segmentSeconds, Math.round(longest / 1000))
+
+	const lines = [
+		'#EXTM3U',
+		'#EXT-X-VERSION:3',
+		`#EXT-X-TARGETDURATION:${targetDuration}`,
+		`#EXT-X-MEDIA-SEQUENCE:${segments[0]?.sequence ?? 0}`,
+	]
+	for (const segment of segments) {
+		lines.push(
+			`#EXT-X-PROGRAM-DATE-TIME:${new Date(segment.programDateTime).toISOString()}`,
+			`#EXTINF:${(segment.durationMs / 1000).toFixed(3)},`,
+			segmentName(segment.sequence),
+		)
+	}
+	return `${lines.join('\n')}\n`
+}
+
+export function segmentName(sequence: number): string {
+	return `segment-${sequence}.mp3`
+}
+
+/**
+ * Sequence number from a segment file name, or null if it isn't one
+ */
+export function parseSegmentName(name: string): number | null {
+	const match = /^segment-(\d+)\.mp3$/.exec(name)
+	return match?.[1] ? Number(match[1]) : null
+}
+
+/**
+ * Parse a positive integer setting, falling back to the default
+ */
+export function parseHlsSetting(value: string | undefined, fallback: number): number {
+	const parsed = Math.round(Number(value))
+	return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+class HlsPublisher implements EngineObserver {
+	private readonly segmentMs: number
+	private readonly segmentSeconds: number
+	private readonly windowSegments: number
+
+	private segments: HlsSegment[] = []
+	private current: OpenSegment | null = null
+	private nextSequence = 0
+	private audioMs = 0 // Audio published since start, the segments' timeline
+	private track: Track | null = null
+	private listeners: Map<string, HlsListener> = new Map() // sid -> listener
+	private readonly listenerObserver: ListenerObserver | null
+
+	constructor(options: HlsOptions = {}) {
+		this.segmentSeconds = options.segmentSeconds ?? DEFAULT_HLS_SEGMENT_SECONDS
+		this.segmentMs = this.segmentSeconds * 1000
+		this.windowSegments = options.windowSegments ?? DEFAULT_HLS_WINDOW_SEGMENTS
+		this.listenerObserver = options.listenerObserver ?? null
+	}
+
+	onTrackStart(nowPlaying: NowPlaying): void {
+		this.closeSegment()
+		// Segments keep the previous song's tag through a jingle, like ICY
+		this.track = nowPlaying.interstitial ? (nowPlaying.lastSong ?? null) : nowPlaying.track
+	}
+
+	onFrame(frame: Mp3Frame): void {
+		if (!this.current) {
+			this.current = {
+				frames: [],
+				durationMs: 0,
+				startMs: this.audioMs,
+				programDateTime: Date.now(),
+				track: this.track,
+			}
+		}
+		this.current.frames.push(frame.data)
+		this.current.durationMs += frame.header.frameDurationMs
+		this.audioMs += frame.header.frameDurationMs
+
+		if (this.current.durationMs >= this.segmentMs) {
+			this.closeSegment()
+		}
+	}
+
+	private closeSegment(): void {
+		const open = this.current
+		this.current = null
+		if (!open || open.frames.length === 0) return
+
+		this.segments.push({
+			sequence: this.nextSequence++,
+			data: Buffer.concat([buildSegmentId3(open.startMs, open.track), ...open.frames]),
+			durationMs: open.durationMs,
+			programDateTime: open.programDateTime,
+		})
+		const excess = this.segments.length - (this.windowSegments + RETAINED_EXTRA_SEGMENTS)
+		if (excess > 0) {
+			this.segments.splice(0, excess)
+		}
+		// Listeners only leave by going quiet, so check for that as segments roll
+		this.expireListeners()
+	}
+
+	/**
+	 * Current media playlist, or null until the first segment is complete
+	 */
+	getPlaylist(): string | null {
+		const listed = this.segments.slice(-this.windowSegments)
+		if (listed.length === 0) return null
+		return buildMediaPlaylist(listed, this.segmentSeconds)
+	}
+
+	getSegment(sequence: number): HlsSegment | undefined {
+		return this.segments.find(segment => segment.sequence === sequence)
+	}
+
+	/**
+	 * Note a playlist fetch from a listener session
+	 */
+	touchListener(sessionId: string, userAgent: string | null = null): void {
+		const now = Date.now()
+		this.expireListeners()
+		const listener = this.listeners.get(sessionId)
+		if (listener) {
+			listener.lastSeen = now
+			return
+		}
+		const key = `hls:${sessionId}:${now}`
+		this.listeners.set(sessionId, { key, lastSeen: now })
+		this.listenerObserver?.onListenerStart({ key, sessionId, mount: '/hls', userAgent, startedAt: now })
+	}
+
+	hasListener(sessionId: string): boolean {
+		const listener = this.listeners.get(sessionId)
+		return listener !== undefined && Date.now() - listener.lastSeen < LISTENER_TIMEOUT_MS
+	}
+
+	/**
+	 * Drop listeners that stopped reloading the playlist; they left when last seen
+	 */
+	private expireListeners(): void {
+		const cutoff = Date.now() - LISTENER_TIMEOUT_MS
+		for (const [sessionId, listener] of this.listeners) {
+			if (listener.lastSeen < cutoff) {
+				this.listeners.delete(sessionId)
+				this.listenerObserver?.onListenerEnd(listener.key, listener.lastSeen)
+			}
+		}
+	}
+
+	listenerCount(): number {
+		this.expireListeners()
+		return this.listeners.size
+	}
+
+	getStatus() {
+		const newest = this.segments[this.segments.length - 1]
+		return {
+			listenerCount: this.listenerCount(),
+			segmentSeconds: this.segmentSeconds,
+			windowSegments: this.windowSegments,
+			mediaSequence: this.segments.slice(-this.windowSegments)[0]?.sequence ?? null,
+			newestSequence: newest?.sequence ?? null,
+		}
+	}
+}
+
+export { HlsPublisher }
@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test'
+import {
+	buildIcyMetadataBlock,
+	createIcyClientState,
+	formatStreamTitle,
+	interleaveIcyMetadata,
+	toIcyHeaderValue,
+} from './icy'
+
+// Split an interleaved response back into audio and metadata payloads, the
+// way a Shoutcast client reads it
+function demux(stream: Buffer, metaInt: number): { audio: Buffer; titles: string[] } {
+	const audio: Buffer[] = []
+	const titles: string[] = []
+	let offset = 0
+	while (offset < stream.length) {
+		const take = Math.min(metaInt, stream.length - offset)
+		audio.push(stream.subarray(offset, offset + take))
+		offset += take
+		if (take < metaInt || offset >= stream.length) break
+
+		const length = (stream[offset] ?? 0) * 16
+		offset += 1
+		if (length > 0) {
+			titles.push(
+				stream
+					.subarray(offset, offset + length)
+					.toString('utf8')
+					.replace(/\0+$/, ''),
+			)
+		}
+		offset += length
+	}
+	return { audio: Buffer.concat(audio), titles }
+}
+
+describe('buildIcyMetadataBlock', () => {
+	test('pads the payload to 16-byte units with the unit count up front', () => {
+		const block = buildIcyMetadataBlock('Artist - Title')
+		const payload = "StreamTitle='Artist - Title';"
+		expect(block[0]).toBe(Math.ceil(payload.length / 16))
+		expect(block.length).toBe(1 + (block[0] ?? 0) * 16)
+		expect(block.subarray(1, 1 + payload.length).toString()).toBe(payload)
+		expect(block.subarray(1 + payload.length).every(b => b === 0)).toBe(true)
+	})
+
+	test('truncates titles that would not fit in 255 units', () => {
+		const block = buildIcyMetadataBlock('é'.repeat(5000))
+		expect(block[0]).toBe(255)
+		const payload = block.subarray(1).toString('utf8')
+		expect(payload).toContain("';")
+		expect(payload).not.toContain('\ufffd')
+	})
+
+	test('never splits a surrogate pair when truncating', () => {
+		const block = buildIcyMetadataBlock(`a${'😀'.repeat(2000)}`)
+		const payload = block.subarray(1).toString('utf8').replace(/\0+$/, '')
+		expect(payload).not.toContain('\ufffd')
+		expect(payload).toMatch(/^StreamTitle='a(😀)+';$/u)
+	})
+})
+
+describe('interleaveIcyMetadata', () => {
+	test('inserts a block every metaInt audio bytes across chunk boundaries', () => {
+		const metaInt = 100
+		const state = createIcyClientState(metaInt)
+		const audio = Buffer.alloc(350, 0xaa)
+
+		// Uneven chunks, like burst backlog followed by single frames
+		const out = Buffer.concat([
+			interleaveIcyMetadata(audio.subarray(0, 130), state, 'A - One'),
+			interleaveIcyMetadata(audio.subarray(130, 170), state, 'A - One'),
+			interleaveIcyMetadata(audio.subarray(170), state, 'B - Two'),
+		])
+
+		const { audio: recovered, titles } = demux(out, metaInt)
+		expect(recovered.equals(audio)).toBe(true)
+		// Title sent once at the first boundary, then only when it changes
+		expect(titles).toEqual(["StreamTitle='A - One';", "StreamTitle='B - Two';"])
+		expect(state.bytesUntilMeta).toBe(50)
+	})
+
+	test('small chunks between boundaries pass through untouched', () => {
+		const state = createIcyClientState(1000)
+		const chunk = Buffer.alloc(417)
+		expect(interleaveIcyMetadata(chunk, state, 'x')).toBe(chunk)
+		expect(state.bytesUntilMeta).toBe(583)
+	})
+})
+
+describe('header helpers', () => {
+	test('formatStreamTitle joins artist and title', () => {
+		expect(formatStreamTitle({ artist: 'Nujabes', title: 'Aruarian Dance' })).toBe('Nujabes - Aruarian Dance')
+	})
+
+	test('toIcyHeaderValue replaces characters headers cannot carry', () => {
+		expect(toIcyHeaderValue('Lofi ☕ Radio')).toBe('Lofi ? Radio')
+	})
+})
@@ -0,0 +1,107 @@
+/**
+ * ICY METADATA
+ * ============
+ * Shoutcast/Icecast-style inline metadata for players that ignore our SSE feed
+ * (VLC, foobar2000, car stereos, Sonos). A client opts in with the request
+ * header `Icy-MetaData: 1`; we answer with `icy-metaint: N` and then, after
+ * every N bytes of audio, insert one metadata block:
+ *
+ *   [length byte L][L * 16 bytes: "StreamTitle='Artist - Title';" + NUL padding]
+ *
+ * L = 0 (a single zero byte) means "no change". The byte count runs across the
+ * whole response — burst backlog and live frames alike — so it has to be
+ * tracked per client.
+ */
+
+import type { Track } from './types'
+
+export const DEFAULT_ICY_METAINT = 16000
+
+// The length byte counts 16-byte units, so a block carries at most 4080 bytes
+const MAX_METADATA_BYTES = 255 * 16
+
+const EMPTY_BLOCK = Buffer.from([0])
+
+/**
+ * Per-client interleaving state
+ */
+export interface IcyClientState {
+	metaInt: number
+	bytesUntilMeta: number // Audio bytes left before the next metadata block
+	sentTitle: string | null // Last StreamTitle delivered to this client
+}
+
+export function createIcyClientState(metaInt: number): IcyClientState {
+	return { metaInt, bytesUntilMeta: metaInt, sentTitle: null }
+}
+
+export function formatStreamTitle(track: Pick<Track, 'artist' | 'title'>): string {
+	return `${track.artist} - ${track.title}`
+}
+
+/**
+ * Encode one metadata block (length byte + padded payload). Titles too long
+ * for a block are truncated on a UTF-8 character boundary.
+ */
+export function buildIcyMetadataBlock(streamTitle: string): Buffer {
+	const prefix = "StreamTitle='"
+	const suffix = "';"
+	const budget = MAX_METADATA_BYTES - Buffer.byteLength(prefix + suffix)
+
+	// Whole code points only: slicing UTF-16 units could split a surrogate pair
+	let title = ''
+	let bytes = 0
+	for (const char of streamTitle) {
+		bytes += Buffer.byteLength(char)
+		if (bytes > budget) break
+		title += char
+	}
+
+	const payload = Buffer.from(`${prefix}${title}${suffix}`, 'utf8')
+	const units = Math.ceil(payload.length / 16)
+	const block = Buffer.alloc(1 + units * 16) // zero-filled, so padding is NUL
+	block[0] = units
+	payload.copy(block, 1)
+	return block
+}
+
+/**
+ * Interleave metadata into a chunk of audio for one client, advancing its
+ * byte counter. A full block is sent at the first boundary after the title
+ * changes; every other boundary gets the one-byte "no change" block.
+ */
+export function interleaveIcyMetadata(data: Buffer, state: IcyClientState, streamTitle: string): Buffer {
+	if (data.length < state.bytesUntilMeta) {
+		state.bytesUntilMeta -= data.length
+		return data
+	}
+
+	const parts: Buffer[] = []
+	let offset = 0
+	while (offset < data.length) {
+		const take = Math.min(state.bytesUntilMeta, data.length - offset)
+		parts.push(data.subarray(offset, offset + take))
+		offset += take
+		state.bytesUntilMeta -= take
+
+		if (state.bytesUntilMeta === 0) {
+			if (streamTitle !== state.sentTitle) {
+				parts.push(buildIcyMetadataBlock(streamTitle))
+				state.sentTitle = streamTitle
+			} else {
+				parts.push(EMPTY_BLOCK)
+			}
+			state.bytesUntilMeta = state.metaInt
+		}
+	}
+
+	return Buffer.concat(parts)
+}
+
+/**
+ * Header values must be Latin-1; replace anything else so a station name with
+ * emoji can't make setHeader throw
+ */
+export function toIcyHeaderValue(value: string): string {
+	return value.replace(/[^\x20-\x7e]/g, '?')
+}
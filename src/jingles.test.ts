@@ -0,0 +1,93 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { JingleRotation, listJingles, parseJingleSetting } from './jingles'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jingles-test-'))
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }))
+
+const MIN = 60_000
+
+function library(name: string, files: string[]): string {
+	const dir = path.join(tmpDir, name)
+	fs.mkdirSync(dir, { recursive: true })
+	for (const file of files) {
+		fs.writeFileSync(path.join(dir, file), '')
+	}
+	return dir
+}
+
+function rotation(dir: string, everyTracks: number, everyMinutes = 0): JingleRotation {
+	return new JingleRotation({
+		stateDir: path.join(dir, 'state'),
+		defaults: { everyTracks, everyMinutes },
+		dir,
+	})
+}
+
+describe('parseJingleSetting', () => {
+	test('accepts non-negative whole numbers', () => {
+		expect(parseJingleSetting('4', 0)).toBe(4)
+		expect(parseJingleSetting('0', 3)).toBe(0)
+		expect(parseJingleSetting('-1', 3)).toBe(3)
+		expect(parseJingleSetting(undefined, 3)).toBe(3)
+	})
+})
+
+describe('JingleRotation', () => {
+	test('plays a jingle every N songs, held from peek to commit', () => {
+		const dir = library('every-tracks', ['id.mp3', 'notes.txt', '.normalizing-id.mp3.1234.tmp.mp3'])
+		const jingles = rotation(dir, 2)
+		expect(listJingles(dir)).toEqual(['id.mp3'])
+
+		expect(jingles.peek()).toBeUndefined()
+		jingles.recordSong()
+		expect(jingles.peek()).toBeUndefined()
+		jingles.recordSong()
+
+		const jingle = jingles.peek()
+		expect(jingle).toMatchObject({ id: 'jingle:id.mp3', interstitial: true })
+		if (!jingle) throw new Error('expected a jingle')
+		expect(jingles.peek()).toBe(jingle)
+
+		// Handing off to a song instead leaves the jingle pending
+		expect(jingles.commit({ id: '7', path: './songs/x.mp3', title: 'X', artist: 'Y' })).toBeUndefined()
+		expect(jingles.commit(jingle)).toBe(jingle)
+		expect(jingles.peek()).toBeUndefined()
+	})
+
+	test('plays a jingle after M minutes, never before the first song', () => {
+		const dir = library('every-minutes', ['a.mp3', 'b.mp3'])
+		const jingles = rotation(dir, 0, 10)
+		const later = Date.now() + 11 * MIN
+
+		expect(jingles.peek(later)).toBeUndefined()
+		jingles.recordSong()
+		const first = jingles.peek(later)
+		if (!first) throw new Error('expected a jingle')
+		jingles.commit(first, later)
+
+		// The next one is a different jingle, once another song has played
+		jingles.recordSong()
+		expect(jingles.peek(later + 5 * MIN)).toBeUndefined()
+		expect(jingles.peek(later + 10 * MIN)?.id).not.toBe(first.id)
+	})
+
+	test('persists settings and drops a pending pick when they change', () => {
+		const dir = library('settings', ['id.mp3'])
+		const jingles = rotation(dir, 1)
+		jingles.recordSong()
+		expect(jingles.peek()).toBeDefined()
+
+		jingles.setSettings({ everyTracks: 0 })
+		expect(jingles.peek()).toBeUndefined()
+		expect(rotation(dir, 5).getSettings()).toEqual({ everyTracks: 0, everyMinutes: 0 })
+	})
+
+	test('nothing plays with an empty library', () => {
+		const jingles = rotation(library('empty', []), 1)
+		jingles.recordSong()
+		expect(jingles.peek()).toBeUndefined()
+	})
+})
@@ -0,0 +1,203 @@
+/**
+ * JINGLES
+ * =======
+ * Station IDs and announcements played between songs, every N tracks and/or
+ * every M minutes. Jingles come from `songs/jingles/`, a library shared by
+ * every station that never shows up in `/api/tracks`.
+ *
+ * A jingle is handed to the engine through the same peek/commit contract as
+ * a song: once one is due, `peek()` returns it until it is committed, so it is
+ * preloaded and handed off gaplessly, and the engine's stale-check holds.
+ * Jingle tracks are flagged `interstitial`, which leaves the playlist's
+ * current index alone and lets players keep showing the previous song.
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { Track } from './types'
+
+const SONGS_DIR = path.join(__dirname, '../songs')
+export const JINGLES_DIR = path.join(SONGS_DIR, 'jingles')
+
+const JINGLE_ID_PREFIX = 'jingle:'
+
+/**
+ * When jingles play. 0 turns a trigger off; with both set, whichever comes
+ * first wins and resets both.
+ */
+export interface JingleSettings {
+	everyTracks: number
+	everyMinutes: number
+}
+
+/**
+ * Non-negative whole number from an env var, or the fallback
+ */
+export function parseJingleSetting(value: string | undefined, fallback: number): number {
+	const parsed = Math.floor(Number(value))
+	return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+/**
+ * Track for a file in the jingles library
+ */
+export function jingleTrack(filename: string, dir: string = JINGLES_DIR): Track {
+	return {
+		id: `${JINGLE_ID_PREFIX}${filename}`,
+		// Relative like song paths, so the server's layout isn't exposed in /now-playing
+		path: dir === JINGLES_DIR ? `./songs/jingles/${filename}` : path.join(dir, filename),
+		title: filename.replace(/\.mp3$/i, '').replace(/[-_]/g, ' '),
+		artist: '',
+		interstitial: true,
+	}
+}
+
+/**
+ * MP3 filenames in the jingles library. Dotfiles (e.g. an encode's temp file)
+ * are left out.
+ */
+export function listJingles(dir: string = JINGLES_DIR): string[] {
+	try {
+		return fs
+			.readdirSync(dir)
+			.filter(f => f.endsWith('.mp3') && !f.startsWith('.'))
+			.sort()
+	} catch {
+		return []
+	}
+}
+
+export interface JingleRotationOptions {
+	stateDir: string // Where jingles.json (this station's settings) lives
+	defaults: JingleSettings
+	dir?: string // Jingles library (defaults to songs/jingles/)
+}
+
+class JingleRotation {
+	private settings: JingleSettings
+	private readonly settingsFile: string
+	private readonly dir: string
+	private tracksSinceJingle = 0
+	private lastJingleAt: number = Date.now()
+	private lastJingle: string | null = null
+	// Held from peek() to commit() so repeated peeks agree
+	private pending: Track | null = null
+
+	constructor(options: JingleRotationOptions) {
+		this.settingsFile = path.join(options.stateDir, 'jingles.json')
+		this.dir = options.dir ?? JINGLES_DIR
+		this.settings = { ...options.defaults }
+		this.loadSettings()
+	}
+
+	private loadSettings(): void {
+		try {
+			if (!fs.existsSync(this.settingsFile)) return
+			const saved = JSON.parse(fs.readFileSync(this.settingsFile, 'utf-8'))
+			if (Number.isInteger(saved.everyTracks) && saved.everyTracks >= 0) {
+				this.settings.everyTracks = saved.everyTracks
+			}
+			if (Number.isInteger(saved.everyMinutes) && saved.everyMinutes >= 0) {
+				this.settings.everyMinutes = saved.everyMinutes
+			}
+		} catch (err) {
+			console.error('[Jingles] Failed to load settings:', err)
+		}
+	}
+
+	private saveSettings(): void {
+		try {
+			fs.mkdirSync(path.dirname(this.settingsFile), { recursive: true })
+			fs.writeFileSync(this.settingsFile, JSON.stringify(this.settings, null, 2))
+		} catch (err) {
+			console.error('[Jingles] Failed to save settings:', err)
+		}
+	}
+
+	getSettings(): JingleSettings {
+		return { ...this.settings }
+	}
+
+	/**
+	 * Change the triggers. A jingle already picked but not yet playing is
+	 * dropped, so the engine's boundary stale-check re-peeks.
+	 */
+	setSettings(settings: Partial<JingleSettings>): void {
+		this.settings = { ...this.settings, ...settings }
+		this.pending = null
+		this.saveSettings()
+		console.log(
+			`[Jingles] Every ${this.settings.everyTracks} track(s) / ${this.settings.everyMinutes} minute(s) (0 = off)`,
+		)
+	}
+
+	private isDue(now: number): boolean {
+		const { everyTracks, everyMinutes } = this.settings
+		// Never two jingles in a row, or one before the first song
+		if (this.tracksSinceJingle === 0) return false
+		if (everyTracks > 0 && this.tracksSinceJingle >= everyTracks) return true
+		return everyMinutes > 0 && now - this.lastJingleAt >= everyMinutes * 60_000
+	}
+
+	/**
+	 * The jingle to play next, if one is due
+	 */
+	peek(now: number = Date.now()): Track | undefined {
+		if (this.pending) return this.pending
+		if (!this.isDue(now)) return undefined
+
+		const jingles = listJingles(this.dir)
+		// Avoid repeating the last jingle when there's a choice
+		const choices = jingles.length > 1 ? jingles.filter(f => f !== this.lastJingle) : jingles
+		const filename = choices[Math.floor(Math.random() * choices.length)]
+		if (!filename) return undefined
+
+		this.pending = jingleTrack(filename, this.dir)
+		return this.pending
+	}
+
+	/**
+	 * Commit `track` if it's the pending jingle. Returns it, or undefined when
+	 * the engine is handing off to a song instead.
+	 */
+	commit(track: Track, now: number = Date.now()): Track | undefined {
+		if (!this.pending || this.pending.id !== track.id) return undefined
+
+		const jingle = this.pending
+		this.pending = null
+		this.tracksSinceJingle = 0
+		this.lastJingleAt = now
+		this.lastJingle = path.basename(jingle.path)
+		return jingle
+	}
+
+	/**
+	 * Count a song toward the every-N-tracks trigger
+	 */
+	recordSong(): void {
+		this.tracksSinceJingle++
+	}
+
+	/**
+	 * Drop the pending jingle if its file is being deleted
+	 */
+	forget(filename: string): void {
+		if (this.pending && path.basename(this.pending.path) === filename) {
+			this.pending = null
+		}
+		if (this.lastJingle === filename) {
+			this.lastJingle = null
+		}
+	}
+
+	getStatus(): JingleSettings & { tracksSinceJingle: number; lastJingleAt: number; pending: string | null } {
+		return {
+			...this.settings,
+			tracksSinceJingle: this.tracksSinceJingle,
+			lastJingleAt: this.lastJingleAt,
+			pending: this.pending ? path.basename(this.pending.path) : null,
+		}
+	}
+}
+
+export { JingleRotation }
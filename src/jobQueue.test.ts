@@ -0,0 +1,166 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { type Job, JobQueue, MAX_JOB_ATTEMPTS, parseJobSetting } from './jobQueue'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-test-'))
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }))
+
+// Resolves once the queue has no queued or running jobs left
+async function settled<R>(queue: JobQueue<R>): Promise<void> {
+	while (queue.counts().queued + queue.counts().running > 0) {
+		await new Promise(resolve => setTimeout(resolve, 5))
+	}
+}
+
+describe('parseJobSetting', () => {
+	test('accepts positive whole numbers only', () => {
+		expect(parseJobSetting('3', 1)).toBe(3)
+		expect(parseJobSetting(undefined, 1)).toBe(1)
+		expect(parseJobSetting('0', 1)).toBe(1)
+		expect(parseJobSetting('many', 2)).toBe(2)
+	})
+})
+
+describe('JobQueue', () => {
+	test('runs jobs in order, no more than the concurrency at once', async () => {
+		let running = 0
+		let mostRunning = 0
+		const started: string[] = []
+		const queue = new JobQueue<string>({
+			file: path.join(tmpDir, 'order.json'),
+			concurrency: 2,
+			process: async job => {
+				started.push(job.filename)
+				running++
+				mostRunning = Math.max(mostRunning, running)
+				await new Promise(resolve => setTimeout(resolve, 10))
+				running--
+				return job.filename.toUpperCase()
+			},
+		})
+		const jobs = ['a.mp3', 'b.mp3', 'c.mp3', 'd.mp3'].map(filename =>
+			queue.add(filename, `/uploads/${filename}`, 'batch'),
+		)
+		expect(queue.counts().queued).toBe(4)
+
+		queue.start()
+		await settled(queue)
+		expect(started).toEqual(['a.mp3', 'b.mp3', 'c.mp3', 'd.mp3'])
+		expect(mostRunning).toBe(2)
+		expect(queue.get(jobs[0]?.id ?? '')?.result).toBe('A.MP3')
+		expect(queue.list({ batchId: 'batch' }).map(job => job.filename)).toEqual([
+			'd.mp3',
+			'c.mp3',
+			'b.mp3',
+			'a.mp3',
+		])
+	})
+
+	test('records failures and stage progress', async () => {
+		const queue = new JobQueue<string>({
+			file: path.join(tmpDir, 'failure.json'),
+			concurrency: 1,
+			process: async (job, report) => {
+				report('measuring', 0.5)
+				if (job.filename === 'bad.flac') throw new Error('Could not transcode')
+				return 'ok'
+			},
+		})
+		queue.start()
+		const bad = queue.add('bad.flac', '/uploads/bad.flac')
+		const good = queue.add('good.mp3', '/uploads/good.mp3')
+		await settled(queue)
+
+		expect(queue.get(bad.id)).toMatchObject({
+			status: 'failed',
+			stage: 'measuring',
+			error: 'Could not transcode',
+		})
+		expect(queue.get(good.id)).toMatchObject({ status: 'done', progress: 1, result: 'ok' })
+		expect(queue.list({ status: 'failed' }).map(job => job.id)).toEqual([bad.id])
+	})
+
+	test('runs jobs cut short by a restart again', async () => {
+		const file = path.join(tmpDir, 'resume.json')
+		const interrupted = new JobQueue<string>({
+			file,
+			concurrency: 1,
+			process: () => new Promise<string>(() => {}), // The server stops mid-job
+		})
+		interrupted.start()
+		const first = interrupted.add('first.mp3', '/uploads/first.mp3')
+		const second = interrupted.add('second.mp3', '/uploads/second.mp3')
+		expect(interrupted.get(first.id)?.status).toBe('running')
+
+		const processed: Job<string>[] = []
+		const restarted = new JobQueue<string>({
+			file,
+			concurrency: 1,
+			process: async job => {
+				processed.push({ ...job })
+				return 'resumed'
+			},
+		})
+		expect(restarted.counts()).toMatchObject({ queued: 2, running: 0 })
+		restarted.start()
+		await settled(restarted)
+
+		expect(processed.map(job => [job.id, job.attempts])).toEqual([
+			[first.id, 2],
+			[second.id, 1],
+		])
+		expect(restarted.get(second.id)?.result).toBe('resumed')
+	})
+
+	test('fails a job interrupted on every attempt instead of running it again', () => {
+		const file = path.join(tmpDir, 'attempts.json')
+		const job: Job<string> = {
+			id: 'crashes-the-server',
+			filename: 'bad.flac',
+			file: '/uploads/bad.flac',
+			batchId: null,
+			status: 'running',
+			stage: 'encoding',
+			progress: 0.5,
+			attempts: MAX_JOB_ATTEMPTS,
+			createdAt: 1,
+			startedAt: 2,
+			finishedAt: null,
+		}
+		fs.writeFileSync(file, JSON.stringify([job, { ...job, id: 'retry', attempts: MAX_JOB_ATTEMPTS - 1 }]))
+
+		const queue = new JobQueue<string>({ file, concurrency: 1, process: async () => 'done' })
+		expect(queue.get('crashes-the-server')?.status).toBe('failed')
+		expect(queue.get('crashes-the-server')?.finishedAt).toBeNumber()
+		expect(queue.get('retry')?.status).toBe('queued')
+		expect(queue.counts()).toMatchObject({ queued: 1, running: 0, failed: 1 })
+	})
+
+	test('drops saved entries that are not jobs', () => {
+		const file = path.join(tmpDir, 'malformed.json')
+		const job: Job<string> = {
+			id: 'good',
+			filename: 'good.mp3',
+			file: '/uploads/good.mp3',
+			batchId: 'batch',
+			status: 'done',
+			stage: 'adding',
+			progress: 1,
+			attempts: 1,
+			createdAt: 1,
+			startedAt: 2,
+			finishedAt: 3,
+			result: 'kept',
+		}
+		fs.writeFileSync(
+			file,
+			JSON.stringify([job, null, 'job', { ...job, id: 'bad-status', status: 'paused' }, { id: 'partial' }]),
+		)
+
+		const queue = new JobQueue<string>({ file, concurrency: 1, process: async () => 'done' })
+		expect(queue.list().map(saved => saved.id)).toEqual(['good'])
+		expect(queue.get('good')?.result).toBe('kept')
+	})
+})
@@ -0,0 +1,322 @@
+/**
+ * JOB QUEUE
+ * =========
+ * Uploads are processed in the background so the upload request returns as
+ * soon as the file is saved: each uploaded file becomes a job that runs the
+ * processing pipeline (probe, loudness measure, transcode, duplicate check,
+ * metadata, adding the track to the stations) with at most `concurrency` jobs at a time, so
+ * ffmpeg doesn't starve the real-time streaming engine.
+ *
+ * Jobs are saved to `.radio-state/jobs.json` whenever one changes stage or
+ * finishes. Jobs that were running when the server stopped are queued again
+ * on startup, so the processor has to cope with being run twice on a file; a
+ * job that has already been started MAX_JOB_ATTEMPTS times is failed instead,
+ * so a file that takes the server down can't do it on every restart. Saved
+ * entries that aren't jobs are dropped.
+ * Progress within a stage is pushed to SSE clients but not saved.
+ */
+
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { Response } from 'express'
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed'
+const JOB_STATUSES: readonly JobStatus[] = ['queued', 'running', 'done', 'failed']
+export type JobStage = 'probing' | 'measuring' | 'encoding' | 'fingerprinting' | 'metadata' | 'adding'
+const JOB_STAGES: readonly JobStage[] = [
+	'probing',
+	'measuring',
+	'encoding',
+	'fingerprinting',
+	'metadata',
+	'adding',
+]
+
+export const JOBS_FILE = path.join(__dirname, '../songs/.radio-state/jobs.json')
+
+export const DEFAULT_JOB_CONCURRENCY = 1
+
+// Finished jobs kept for /admin/jobs, newest first
+const MAX_FINISHED_JOBS = 500
+
+// Runs a job gets before one cut short by a restart is failed rather than queued again
+export const MAX_JOB_ATTEMPTS = 3
+
+export interface Job<R> {
+	id: string
+	filename: string // Name the file was uploaded as
+	file: string // Where the upload waits to be processed
+	batchId: string | null // Shared by the files of one batch upload
+	status: JobStatus
+	stage: JobStage | null
+	progress: number // 0-1 through the current stage
+	attempts: number // Runs started, counting ones cut short by a restart
+	createdAt: number
+	startedAt: number | null
+	finishedAt: number | null
+	result?: R
+	error?: string
+}
+
+/**
+ * Reports how far a job has got: the stage it's on and the fraction of it done
+ */
+export type JobReporter = (stage: JobStage, progress: number) => void
+
+export interface JobQueueOptions<R> {
+	file?: string // Where jobs are saved (default JOBS_FILE)
+	concurrency: number
+	process: (job: Job<R>, report: JobReporter) => Promise<R>
+}
+
+export function isJobStatus(value: unknown): value is JobStatus {
+	return JOB_STATUSES.some(status => status === value)
+}
+
+function isNullableNumber(value: unknown): value is number | null {
+	return value === null || typeof value === 'number'
+}
+
+// Enough of a job to list and run; `result` passes through as saved
+function isJob<R>(value: unknown): value is Job<R> {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		'id' in value &&
+		typeof value.id === 'string' &&
+		'filename' in value &&
+		typeof value.filename === 'string' &&
+		'file' in value &&
+		typeof value.file === 'string' &&
+		'batchId' in value &&
+		(value.batchId === null || typeof value.batchId === 'string') &&
+		'status' in value &&
+		isJobStatus(value.status) &&
+		'stage' in value &&
+		(value.stage === null || JOB_STAGES.some(stage => stage === value.stage)) &&
+		'progress' in value &&
+		typeof value.progress === 'number' &&
+		'attempts' in value &&
+		typeof value.attempts === 'number' &&
+		'createdAt' in value &&
+		typeof value.createdAt === 'number' &&
+		'startedAt' in value &&
+		isNullableNumber(value.startedAt) &&
+		'finishedAt' in value &&
+		isNullableNumber(value.finishedAt) &&
+		(!('error' in value) || value.error === undefined || typeof value.error === 'string')
+	)
+}
+
+/**
+ * Positive whole number from an env var, or the fallback
+ */
+export function parseJobSetting(value: string | undefined, fallback: number): number {
+	const parsed = Math.floor(Number(value))
+	return value && Number.isFinite(parsed) && parsed >= 1 ? parsed : fallback
+}
+
+class JobQueue<R> {
+	private readonly file: string
+	private readonly concurrency: number
+	private readonly process: JobQueueOptions<R>['process']
+	private jobs: Job<R>[] = [] // Oldest first
+	private running = 0
+	private started = false
+	private sseClients: Set<Response> = new Set()
+
+	constructor(options: JobQueueOptions<R>) {
+		this.file = options.file ?? JOBS_FILE
+		this.concurrency = options.concurrency
+		this.process = options.process
+		this.load()
+	}
+
+	private load(): void {
+		try {
+			if (!fs.existsSync(this.file)) return
+			const saved: unknown = JSON.parse(fs.readFileSync(this.file, 'utf-8'))
+			if (!Array.isArray(saved)) return
+			this.jobs = saved.filter(job => isJob<R>(job))
+			const dropped = saved.length - this.jobs.length
+			if (dropped > 0) console.warn(`[JobQueue] Dropped ${dropped} malformed job(s) from ${this.file}`)
+		} catch (err) {
+			console.error('[JobQueue] Failed to load jobs:', err)
+			return
+		}
+
+		// Cut short by a restart: run them again, unless they've had their tries
+		let resumed = 0
+		let abandoned = 0
+		for (const job of this.jobs) {
+			if (job.status !== 'running') continue
+			if (job.attempts >= MAX_JOB_ATTEMPTS) {
+				job.status = 'failed'
+				job.error = `Interrupted by a restart on each of ${job.attempts} attempts`
+				job.finishedAt = Date.now()
+				abandoned++
+				continue
+			}
+			job.status = 'queued'
+			job.stage = null
+			job.progress = 0
+			resumed++
+		}
+		if (abandoned > 0) {
+			console.warn(`[JobQueue] Failed ${abandoned} job(s) interrupted ${MAX_JOB_ATTEMPTS} times`)
+			this.save()
+		}
+		const queued = this.jobs.filter(job => job.status === 'queued').length
+		if (queued > 0) {
+			console.log(`[JobQueue] ${queued} job(s) waiting, ${resumed} of them interrupted by a restart`)
+		}
+	}
+
+	private save(): void {
+		try {
+			fs.mkdirSync(path.dirname(this.file), { recursive: true })
+			fs.writeFileSync(this.file, JSON.stringify(this.jobs, null, 2))
+		} catch (err) {
+			console.error('[JobQueue] Failed to save jobs:', err)
+		}
+	}
+
+	/**
+	 * Start running queued jobs, including any saved before a restart
+	 */
+	start(): void {
+		this.started = true
+		this.pump()
+	}
+
+	/**
+	 * Queue a job for a file uploaded as `filename` and saved at `file`
+	 */
+	add(filename: string, file: string, batchId: string | null = null): Job<R> {
+		const job: Job<R> = {
+			id: randomUUID(),
+			filename,
+			file,
+			batchId,
+			status: 'queued',
+			stage: null,
+			progress: 0,
+			attempts: 0,
+			createdAt: Date.now(),
+			startedAt: null,
+			finishedAt: null,
+		}
+		this.jobs.push(job)
+		this.save()
+		this.broadcast(job)
+		this.pump()
+		return job
+	}
+
+	private pump(): void {
+		if (!this.started) return
+		while (this.running < this.concurrency) {
+			const next = this.jobs.find(job => job.status === 'queued')
+			if (!next) return
+			void this.run(next)
+		}
+	}
+
+	private async run(job: Job<R>): Promise<void> {
+		this.running++
+		job.status = 'running'
+		job.attempts++
+		job.startedAt = Date.now()
+		this.save()
+		this.broadcast(job)
+
+		const report: JobReporter = (stage, progress) => {
+			const stageChanged = stage !== job.stage
+			job.stage = stage
+			job.progress = progress
+			if (stageChanged) this.save()
+			this.broadcast(job)
+		}
+
+		try {
+			job.result = await this.process(job, report)
+			job.status = 'done'
+			job.progress = 1
+		} catch (err) {
+			job.status = 'failed'
+			job.error = err instanceof Error ? err.message : String(err)
+			console.warn(`[JobQueue] ${job.filename} failed: ${job.error}`)
+		}
+		job.finishedAt = Date.now()
+		this.running--
+		this.trim()
+		this.save()
+		this.broadcast(job)
+		this.pump()
+	}
+
+	/**
+	 * Drop the oldest finished jobs past the limit
+	 */
+	private trim(): void {
+		const finished = this.jobs.filter(job => job.status === 'done' || job.status === 'failed')
+		const excess = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)))
+		if (excess.size > 0) this.jobs = this.jobs.filter(job => !excess.has(job))
+	}
+
+	/**
+	 * Jobs newest first, optionally only those with a status or from a batch
+	 */
+	list(filter: { status?: JobStatus; batchId?: string } = {}): Job<R>[] {
+		return this.jobs
+			.filter(
+				job =>
+					(!filter.status || job.status === filter.status) &&
+					(!filter.batchId || job.batchId === filter.batchId),
+			)
+			.reverse()
+	}
+
+	get(id: string): Job<R> | undefined {
+		return this.jobs.find(job => job.id === id)
+	}
+
+	counts(): Record<JobStatus, number> {
+		const counts: Record<JobStatus, number> = { queued: 0, running: 0, done: 0, failed: 0 }
+		for (const job of this.jobs) counts[job.status]++
+		return counts
+	}
+
+	addSSEClient(res: Response): void {
+		res.setHeader('Content-Type', 'text/event-stream')
+		res.setHeader('Cache-Control', 'no-cache')
+		res.setHeader('Connection', 'keep-alive')
+
+		this.sseClients.add(res)
+
+		// Send current state immediately
+		res.write(`data: ${JSON.stringify({ type: 'jobs', jobs: this.list() })}\n\n`)
+
+		// Heartbeat
+		const heartbeat = setInterval(() => {
+			if (!res.writableEnded) {
+				res.write(': heartbeat\n\n')
+			}
+		}, 30000)
+
+		res.on('close', () => {
+			clearInterval(heartbeat)
+			this.sseClients.delete(res)
+		})
+	}
+
+	private broadcast(job: Job<R>): void {
+		const message = `data: ${JSON.stringify({ type: 'job', job })}\n\n`
+		for (const client of this.sseClients) {
+			if (!client.writableEnded) client.write(message)
+		}
+	}
+}
+
+export { JobQueue }
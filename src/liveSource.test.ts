@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test'
+import { LIVE_PREBUFFER_MS, LiveSource, liveTrack } from './liveSource'
+
+// MPEG1 Layer III, 128 kbps, 44.1 kHz: 417-byte frame (~26ms)
+function mp3Frame(): Buffer {
+	const frame = Buffer.alloc(417)
+	Buffer.from([0xff, 0xfb, 0x90, 0x64]).copy(frame)
+	return frame
+}
+
+// Enough frames to pass the prebuffer
+const PREBUFFER_FRAMES = Math.ceil(LIVE_PREBUFFER_MS / ((1152 / 44100) * 1000))
+
+function source(): LiveSource {
+	return new LiveSource({ name: 'Friday Mix', userAgent: 'butt 0.1.40' })
+}
+
+describe('liveTrack', () => {
+	test('splits Icecast "Artist - Title" metadata', () => {
+		expect(liveTrack('Nujabes - Aruarian Dance', 'Friday Mix')).toMatchObject({
+			artist: 'Nujabes',
+			title: 'Aruarian Dance',
+		})
+		expect(liveTrack('Intermission', 'Friday Mix')).toMatchObject({
+			artist: 'Friday Mix',
+			title: 'Intermission',
+		})
+		expect(liveTrack(null, null)).toMatchObject({ artist: 'Live', title: 'Live' })
+	})
+})
+
+describe('LiveSource', () => {
+	test('reassembles frames split across chunks and skips junk', () => {
+		const live = source()
+		const stream = Buffer.concat([Buffer.from('ID3junk'), mp3Frame(), mp3Frame(), mp3Frame()])
+		expect(live.push(stream.subarray(0, 300))).toBeNull()
+		expect(live.push(stream.subarray(300, 1000))).toBeNull()
+		expect(live.push(stream.subarray(1000))).toBeNull()
+
+		const frames = [live.nextFrame(), live.nextFrame(), live.nextFrame()]
+		expect(frames.map(frame => frame?.data.length)).toEqual([417, 417, 417])
+		expect(live.nextFrame()).toBeUndefined()
+		expect(live.getStatus().framesReceived).toBe(3)
+	})
+
+	test('is ready once the prebuffer fills', async () => {
+		const live = source()
+		live.push(Buffer.concat(Array.from({ length: PREBUFFER_FRAMES - 1 }, mp3Frame)))
+		expect(live.isReady()).toBe(false)
+
+		const ready = live.waitUntilReady(1000)
+		live.push(mp3Frame())
+		expect(await ready).toBe(true)
+	})
+
+	test('rejects other sample rates and non-MP3 data', () => {
+		// MPEG1 Layer III, 128 kbps, 48 kHz
+		const frame48k = Buffer.alloc(384)
+		Buffer.from([0xff, 0xfb, 0x94, 0x64]).copy(frame48k)
+		expect(source().push(Buffer.concat([frame48k, frame48k]))).toContain('44100 Hz')
+
+		expect(source().push(Buffer.alloc(128 * 1024, 0x41))).toContain('No MP3 frames')
+	})
+
+	test('applies metadata updates once and stops on end', async () => {
+		const live = source()
+		expect(live.takeTitleChange()).toBeNull()
+		live.setSong('Artist - Song')
+		expect(live.takeTitleChange()?.title).toBe('Song')
+		expect(live.takeTitleChange()).toBeNull()
+
+		let closed = 0
+		live.setEndHandler(() => closed++)
+		const waiting = live.waitUntilReady(1000)
+		live.end()
+		live.end()
+		expect(await waiting).toBe(false)
+		expect(closed).toBe(1)
+	})
+})
@@ -0,0 +1,237 @@
+/**
+ * LIVE SOURCE
+ * ===========
+ * An MP3 stream pushed by a DJ's encoder (OBS, butt, ffmpeg, Mixxx) to the
+ * Icecast-style `/live` source endpoint. The request body is split into whole
+ * frames with `parseFrameHeader`; anything that isn't MPEG1 Layer III at the
+ * station's 44.1 kHz is rejected, so listeners' decoders never see a format
+ * change when the stream switches over.
+ *
+ * The engine plays a source once it has a little audio buffered, preempting
+ * the playlist at a frame boundary. If the source runs dry the rotation fills
+ * in until it has rebuffered; it's dropped when it disconnects or sends
+ * nothing for a while.
+ */
+
+import { isSameStreamFormat, parseFrameHeader } from './mp3parser'
+import type { Mp3Frame, Mp3FrameHeader, Track } from './types'
+
+// Matches normalized tracks (see audioNormalizer.ts)
+const LIVE_SAMPLE_RATE = 44100
+
+// Audio buffered before the source takes over (and again after an underrun)
+export const LIVE_PREBUFFER_MS = 1000
+
+// Frames beyond this are dropped oldest-first, so a source that bursts ahead
+// can't push listeners further and further behind
+const MAX_BUFFERED_MS = 5000
+
+// Bytes without a single valid frame before the source is refused
+const MAX_GARBAGE_BYTES = 64 * 1024
+
+/**
+ * Title shown for a live source: Icecast-style "Artist - Title" metadata
+ * when the DJ sends it, otherwise the stream name
+ */
+export function liveTrack(song: string | null, streamName: string | null): Track {
+	const name = streamName?.trim() || 'Live'
+	const separator = song ? song.indexOf(' - ') : -1
+	if (song && separator > 0) {
+		return {
+			id: 'live',
+			path: '/live',
+			artist: song.slice(0, separator).trim(),
+			title: song.slice(separator + 3).trim(),
+		}
+	}
+	return { id: 'live', path: '/live', artist: name, title: song?.trim() || name }
+}
+
+export interface LiveSourceInfo {
+	name: string | null // ice-name header: show or DJ name
+	userAgent: string | null
+}
+
+class LiveSource {
+	readonly connectedAt: number = Date.now()
+	readonly info: LiveSourceInfo
+
+	private pending: Buffer = Buffer.alloc(0)
+	private format: Mp3FrameHeader | null = null
+	private garbageBytes = 0
+	private frames: Mp3Frame[] = []
+	private bufferedMs = 0
+	private ended = false
+	private waiter: (() => void) | null = null
+	private onEnd: (() => void) | null = null
+
+	private song: string | null = null
+	private titleChanged = false
+
+	private lastFrameAt: number = this.connectedAt
+
+	private bytesReceived = 0
+	private framesReceived = 0
+	private framesDropped = 0
+
+	constructor(info: LiveSourceInfo) {
+		this.info = info
+	}
+
+	/**
+	 * Add bytes from the request body. Returns an error message if the stream
+	 * isn't usable MP3, after which the source should be dropped.
+	 */
+	push(chunk: Buffer): string | null {
+		if (this.ended) return null
+		this.bytesReceived += chunk.length
+		const buf = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk
+
+		let offset = 0
+		while (buf.length - offset >= 4) {
+			const header = parseFrameHeader(buf.subarray(offset, offset + 4))
+			const usable =
+				header !== null &&
+				header.frameSize > 0 &&
+				(this.format ? isSameStreamFormat(this.format, header) : true)
+			if (!header || !usable) {
+				offset++
+				this.garbageBytes++
+				if (this.garbageBytes > MAX_GARBAGE_BYTES) {
+					return 'No MP3 frames found in the source stream'
+				}
+				continue
+			}
+			if (offset + header.frameSize > buf.length) break
+
+			if (!this.format) {
+				if (header.mpegVersion !== 1 || header.layer !== 3 || header.sampleRate !== LIVE_SAMPLE_RATE) {
+					return `Source must be MPEG1 Layer III at ${LIVE_SAMPLE_RATE} Hz (got MPEG${header.mpegVersion} Layer ${header.layer} at ${header.sampleRate} Hz)`
+				}
+				this.format = header
+			}
+
+			this.garbageBytes = 0
+			this.addFrame({ data: Buffer.from(buf.subarray(offset, offset + header.frameSize)), header })
+			offset += header.frameSize
+		}
+
+		this.pending = Buffer.from(buf.subarray(offset))
+		return null
+	}
+
+	private addFrame(frame: Mp3Frame): void {
+		this.frames.push(frame)
+		this.bufferedMs += frame.header.frameDurationMs
+		this.framesReceived++
+		this.lastFrameAt = Date.now()
+		while (this.bufferedMs > MAX_BUFFERED_MS && this.frames.length > 1) {
+			const dropped = this.frames.shift()
+			if (dropped) this.bufferedMs -= dropped.header.frameDurationMs
+			this.framesDropped++
+		}
+		if (this.bufferedMs >= LIVE_PREBUFFER_MS) this.wake()
+	}
+
+	private wake(): void {
+		const waiter = this.waiter
+		this.waiter = null
+		waiter?.()
+	}
+
+	/**
+	 * Enough audio buffered to start (or resume) playing
+	 */
+	isReady(): boolean {
+		return this.bufferedMs >= LIVE_PREBUFFER_MS
+	}
+
+	/**
+	 * Milliseconds since the source last sent a whole frame (or connected)
+	 */
+	idleMs(now: number): number {
+		return now - this.lastFrameAt
+	}
+
+	nextFrame(): Mp3Frame | undefined {
+		const frame = this.frames.shift()
+		if (frame) this.bufferedMs -= frame.header.frameDurationMs
+		return frame
+	}
+
+	/**
+	 * Resolve true once the source is ready again, false if it ends or
+	 * `timeoutMs` passes first
+	 */
+	waitUntilReady(timeoutMs: number): Promise<boolean> {
+		if (this.isReady()) return Promise.resolve(true)
+		if (this.ended) return Promise.resolve(false)
+		return new Promise(resolve => {
+			const timeout = setTimeout(() => {
+				this.waiter = null
+				resolve(false)
+			}, timeoutMs)
+			this.waiter = () => {
+				clearTimeout(timeout)
+				resolve(this.isReady())
+			}
+		})
+	}
+
+	/**
+	 * Icecast metadata update ("Artist - Title"), applied at the next frame
+	 */
+	setSong(song: string): void {
+		this.song = song
+		this.titleChanged = true
+	}
+
+	/**
+	 * The title to show if it changed since the last call, otherwise null
+	 */
+	takeTitleChange(): Track | null {
+		if (!this.titleChanged) return null
+		this.titleChanged = false
+		return this.getTrack()
+	}
+
+	getTrack(): Track {
+		return liveTrack(this.song, this.info.name)
+	}
+
+	/**
+	 * Called once when the source ends for any reason (disconnect, stall,
+	 * kicked by an admin), e.g. to close the encoder's connection
+	 */
+	setEndHandler(handler: () => void): void {
+		this.onEnd = handler
+	}
+
+	end(): void {
+		if (this.ended) return
+		this.ended = true
+		this.frames = []
+		this.bufferedMs = 0
+		this.wake()
+		this.onEnd?.()
+	}
+
+	isEnded(): boolean {
+		return this.ended
+	}
+
+	getStatus() {
+		return {
+			name: this.info.name,
+			song: this.song,
+			connectedAt: this.connectedAt,
+			bitrate: this.format?.bitrate ?? null,
+			bufferedMs: Math.round(this.bufferedMs),
+			bytesReceived: this.bytesReceived,
+			framesReceived: this.framesReceived,
+			framesDropped: this.framesDropped,
+		}
+	}
+}
+
+export { LiveSource }
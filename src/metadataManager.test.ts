@@ -0,0 +1,128 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { audioIdOfFile, hashAudio, MetadataManager, type TrackMetadata } from './metadataManager'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'metadata-test-'))
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }))
+
+// The sample songs are all the same audio; the first half of one is different audio
+const SAMPLE = fs.readFileSync(path.join(__dirname, '../songs/a-song.mp3'))
+const OTHER_SAMPLE = SAMPLE.subarray(0, SAMPLE.length / 2)
+
+// A library directory holding the given files
+function library(name: string, files: Record<string, Buffer>): string {
+	const dir = path.join(tmpDir, name)
+	fs.mkdirSync(dir, { recursive: true })
+	for (const [filename, data] of Object.entries(files)) {
+		fs.writeFileSync(path.join(dir, filename), data)
+	}
+	return dir
+}
+
+// An ID3v2.3 tag with one TIT2 (title) frame
+function id3Tag(title: string): Buffer {
+	const text = Buffer.from(`\0${title}`, 'latin1')
+	const frame = Buffer.alloc(10)
+	frame.write('TIT2')
+	frame.writeUInt32BE(text.length, 4)
+	const size = frame.length + text.length
+	const header = Buffer.from([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, (size >> 7) & 0x7f, size & 0x7f])
+	return Buffer.concat([header, frame, text])
+}
+
+describe('hashAudio', () => {
+	test('ignores tags but not the audio', () => {
+		const dir = library('hash', { 'plain.mp3': SAMPLE, 'other.mp3': OTHER_SAMPLE })
+		const plain = path.join(dir, 'plain.mp3')
+		const tagged = path.join(dir, 'tagged.mp3')
+		fs.writeFileSync(tagged, Buffer.concat([id3Tag('Rain'), fs.readFileSync(plain)]))
+
+		expect(hashAudio(tagged)).toBe(hashAudio(plain))
+		expect(hashAudio(path.join(dir, 'other.mp3'))).not.toBe(hashAudio(plain))
+	})
+})
+
+describe('MetadataManager', () => {
+	test('keeps a track id and its metadata through renames, retags and restarts', () => {
+		const dir = library('rename', { 'rain.mp3': SAMPLE })
+		const file = path.join(dir, 'tracks-meta.json')
+		const manager = new MetadataManager(dir, file)
+		const id = manager.identify('rain.mp3')
+		if (!id) throw new Error('expected a track id')
+		expect(id).toMatch(/^[0-9a-f]{16}$/)
+		manager.update('rain.mp3', { title: 'Rain' })
+
+		fs.writeFileSync(
+			path.join(dir, 'Rain (retagged).mp3'),
+			Buffer.concat([id3Tag('Rain'), fs.readFileSync(path.join(dir, 'rain.mp3'))]),
+		)
+		fs.rmSync(path.join(dir, 'rain.mp3'))
+		expect(manager.identify('Rain (retagged).mp3')).toBe(id)
+		expect(manager.idFor('rain.mp3')).toBeUndefined()
+
+		const restarted = new MetadataManager(dir, file)
+		expect(restarted.idFor('Rain (retagged).mp3')).toBe(id)
+		expect(restarted.get('Rain (retagged).mp3')?.title).toBe('Rain')
+	})
+
+	test('gives files with the same audio their own ids, and new audio a new id', () => {
+		const dir = library('duplicates', { 'one.mp3': SAMPLE, 'two.mp3': SAMPLE })
+		const manager = new MetadataManager(dir, path.join(dir, 'tracks-meta.json'))
+		const one = manager.identify('one.mp3')
+		expect(manager.identify('two.mp3')).toBe(`${one}-2`)
+		expect(manager.identify('one.mp3')).toBe(one)
+
+		fs.writeFileSync(path.join(dir, 'two.mp3'), OTHER_SAMPLE)
+		expect(manager.identify('two.mp3')).not.toContain(one ?? '')
+		expect(manager.identify('missing.mp3')).toBeNull()
+	})
+
+	test('carries manual edits over when the audio under a filename is replaced', async () => {
+		const dir = library('replaced', { 'rain.mp3': SAMPLE, 'snow.mp3': SAMPLE })
+		const manager = new MetadataManager(dir, path.join(dir, 'tracks-meta.json'))
+		manager.update('rain.mp3', { title: 'Rain', artist: 'Me', tags: ['night'] })
+		await manager.getOrExtract('snow.mp3', path.join(dir, 'snow.mp3'))
+		expect(manager.get('snow.mp3')).toBeDefined()
+
+		fs.writeFileSync(path.join(dir, 'rain.mp3'), OTHER_SAMPLE)
+		fs.writeFileSync(path.join(dir, 'snow.mp3'), OTHER_SAMPLE)
+		manager.identify('rain.mp3')
+		expect(manager.get('rain.mp3')).toMatchObject({ title: 'Rain', artist: 'Me', tags: ['night'] })
+		expect(manager.get('rain.mp3')?.artHash).toBeUndefined()
+		// Metadata read from tags isn't kept: the new file's tags are read instead
+		manager.identify('snow.mp3')
+		expect(manager.get('snow.mp3')).toBeUndefined()
+	})
+
+	test('keeps fingerprints with the track, whose id starts with the audio id', () => {
+		const dir = library('fingerprint', { 'rain.mp3': SAMPLE })
+		const file = path.join(dir, 'tracks-meta.json')
+		const manager = new MetadataManager(dir, file)
+		manager.setFingerprint('rain.mp3', 'abcd')
+
+		const id = new MetadataManager(dir, file).idFor('rain.mp3')
+		expect(id).toBe(audioIdOfFile(path.join(dir, 'rain.mp3')))
+		expect(new MetadataManager(dir, file).getAll()[id ?? '']?.fingerprint).toBe('abcd')
+	})
+
+	test('migrates metadata keyed by filename', () => {
+		const dir = library('migrate', { 'rain.mp3': SAMPLE })
+		const file = path.join(dir, 'tracks-meta.json')
+		const meta: TrackMetadata = {
+			title: 'Rain',
+			artist: 'X',
+			extractedFromId3: false,
+			manuallyEdited: true,
+			lastUpdated: 0,
+		}
+		fs.writeFileSync(file, JSON.stringify({ 'rain.mp3': meta, 'gone.mp3': { ...meta, title: 'Gone' } }))
+
+		const manager = new MetadataManager(dir, file)
+		expect(manager.get('rain.mp3')).toEqual(meta)
+		expect(Object.values(manager.getAll()).map(record => record.filename)).toEqual(['rain.mp3'])
+		expect(fs.existsSync(path.join(dir, 'tracks-meta.v1.json'))).toBe(true)
+		expect(new MetadataManager(dir, file).get('rain.mp3')).toEqual(meta)
+	})
+})
@@ -5,23 +5,38 @@
  * Metadata is stored in a JSON file and takes precedence over ID3 tags.
  *
  * Priority: manual override > stored metadata > ID3 tags > filename fallback
+ *
+ * Tracks are keyed by an id derived from their audio: a hash of the MPEG
+ * frames, leaving out ID3/APE tags, so a track keeps its id (and metadata)
+ * when it is renamed, retagged, rescanned or the server restarts. The file's
+ * size and mtime are stored with the id so it is only rehashed when the file
+ * changes. Files with identical audio get `-2`, `-3`... suffixed ids.
  */
 
+import { createHash } from 'node:crypto'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 import * as mm from 'music-metadata'
+import { albumArt } from './albumArt'
+import { computeFingerprint } from './duplicates'
+import { Mp3FrameReader } from './mp3parser'
 
 // Store state inside songs folder so it persists with the volume on Railway
 const SONGS_DIR = path.join(__dirname, '../songs')
 const STATE_DIR = path.join(SONGS_DIR, '.radio-state')
 const METADATA_FILE = path.join(STATE_DIR, 'tracks-meta.json')
 
+// Hex characters of the audio hash used as a track id (64 bits)
+const TRACK_ID_LENGTH = 16
+
 export interface TrackMetadata {
 	title: string
 	artist: string
 	album?: string
-	albumArtUrl?: string
+	albumArtUrl?: string // Manual override; otherwise the stored cover is shown
+	artHash?: string | null // Cover in the art store; null = checked, the file has none
 	durationMs?: number
+	tags?: string[] // Lowercase labels for schedule pools
 	// Platform links
 	spotifyUrl?: string
 	youtubeUrl?: string
@@ -32,51 +47,259 @@ export interface TrackMetadata {
 	lastUpdated: number
 }
 
+export interface TrackRecord {
+	filename: string
+	// The file as it was hashed; a different size or mtime means rehashing it
+	size: number
+	mtimeMs: number
+	metadata?: TrackMetadata // Set once the file's tags have been read
+	fingerprint?: string // Acoustic fingerprint, for finding duplicates (see duplicates.ts)
+}
+
 interface MetadataStore {
+	version: 2
+	tracks: { [trackId: string]: TrackRecord }
+}
+
+// Before track ids: metadata keyed by filename
+interface LegacyMetadataStore {
 	[filename: string]: TrackMetadata
 }
 
+function isMetadataStore(value: unknown): value is MetadataStore {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		'version' in value &&
+		value.version === 2 &&
+		'tracks' in value &&
+		typeof value.tracks === 'object' &&
+		value.tracks !== null
+	)
+}
+
+/**
+ * SHA-256 of a file's MPEG audio frames. Tags and the VBR header frame are
+ * left out, so editing tags doesn't change it. A file with no frames found
+ * is hashed whole.
+ */
+export function hashAudio(filepath: string): string {
+	const hash = createHash('sha256')
+	const reader = new Mp3FrameReader(filepath)
+	let frames = 0
+	try {
+		for (let frame = reader.readNextFrame(); frame; frame = reader.readNextFrame()) {
+			hash.update(frame.data)
+			frames++
+		}
+	} finally {
+		reader.close()
+	}
+	return frames > 0
+		? hash.digest('hex')
+		: createHash('sha256').update(fs.readFileSync(filepath)).digest('hex')
+}
+
+/**
+ * The id a file's audio gets, before any `-2`, `-3`... suffix
+ */
+export function audioIdOfFile(filepath: string): string {
+	return hashAudio(filepath).slice(0, TRACK_ID_LENGTH)
+}
+
 class MetadataManager {
-	private metadata: MetadataStore = {}
+	private readonly songsDir: string
+	private readonly metadataFile: string
+	private store: MetadataStore = { version: 2, tracks: {} }
+	private idsByFilename: Map<string, string> = new Map()
 
-	constructor() {
+	constructor(songsDir: string = SONGS_DIR, metadataFile: string = METADATA_FILE) {
+		this.songsDir = songsDir
+		this.metadataFile = metadataFile
 		this.ensureStateDir()
 		this.load()
 	}
 
 	private ensureStateDir(): void {
-		if (!fs.existsSync(STATE_DIR)) {
-			fs.mkdirSync(STATE_DIR, { recursive: true })
+		const stateDir = path.dirname(this.metadataFile)
+		if (!fs.existsSync(stateDir)) {
+			fs.mkdirSync(stateDir, { recursive: true })
 		}
 	}
 
 	private load(): void {
+		let data: unknown
 		try {
-			if (fs.existsSync(METADATA_FILE)) {
-				const data = fs.readFileSync(METADATA_FILE, 'utf-8')
-				this.metadata = JSON.parse(data)
-				console.log(`[MetadataManager] Loaded metadata for ${Object.keys(this.metadata).length} tracks`)
-			}
+			if (!fs.existsSync(this.metadataFile)) return
+			data = JSON.parse(fs.readFileSync(this.metadataFile, 'utf-8'))
 		} catch (err) {
 			console.error('[MetadataManager] Failed to load metadata:', err)
-			this.metadata = {}
+			return
+		}
+
+		if (isMetadataStore(data)) {
+			this.store = data
+			for (const [id, record] of Object.entries(this.store.tracks)) {
+				this.idsByFilename.set(record.filename, id)
+			}
+			console.log(`[MetadataManager] Loaded metadata for ${this.idsByFilename.size} tracks`)
+			return
+		}
+		if (typeof data === 'object' && data !== null) {
+			this.migrate(Object.fromEntries(Object.entries(data)))
+		}
+	}
+
+	/**
+	 * Re-key a filename-keyed store by track id. The old file is kept as
+	 * tracks-meta.v1.json; entries for files that no longer exist are dropped.
+	 */
+	private migrate(legacy: LegacyMetadataStore): void {
+		const backup = this.metadataFile.replace(/\.json$/, '.v1.json')
+		try {
+			fs.copyFileSync(this.metadataFile, backup)
+		} catch (err) {
+			console.error('[MetadataManager] Failed to back up metadata, not migrating it:', err)
+			return
 		}
+
+		let migrated = 0
+		for (const [filename, metadata] of Object.entries(legacy)) {
+			const id = this.assignId(filename)
+			const record = id ? this.store.tracks[id] : undefined
+			if (!record) {
+				console.warn(`[MetadataManager] Dropping metadata for missing file: ${filename}`)
+				continue
+			}
+			record.metadata = metadata
+			migrated++
+		}
+		this.save()
+		console.log(`[MetadataManager] Migrated metadata for ${migrated} tracks to track ids (backup: ${backup})`)
 	}
 
 	private save(): void {
 		try {
-			fs.writeFileSync(METADATA_FILE, JSON.stringify(this.metadata, null, 2))
+			fs.writeFileSync(this.metadataFile, JSON.stringify(this.store, null, 2))
 		} catch (err) {
 			console.error('[MetadataManager] Failed to save metadata:', err)
 		}
 	}
 
 	/**
-	 * Extract ID3 metadata from an MP3 file
+	 * The id of a file in the songs directory, hashing its audio if it is new
+	 * or has changed since. Null if the file can't be read.
+	 */
+	identify(filename: string): string | null {
+		const known = this.idsByFilename.get(filename)
+		const id = this.assignId(filename)
+		if (id !== known) this.save()
+		return id
+	}
+
+	/**
+	 * The id already assigned to a file, without touching the file
 	 */
-	async extractFromFile(filepath: string): Promise<Partial<TrackMetadata>> {
+	idFor(filename: string): string | undefined {
+		return this.idsByFilename.get(filename)
+	}
+
+	private assignId(filename: string): string | null {
+		const filepath = path.join(this.songsDir, filename)
+		let stat: fs.Stats
+		try {
+			stat = fs.statSync(filepath)
+		} catch {
+			return null
+		}
+
+		const known = this.idsByFilename.get(filename)
+		const current = known ? this.store.tracks[known] : undefined
+		if (known && current && current.size === stat.size && current.mtimeMs === stat.mtimeMs) {
+			return known
+		}
+
+		let hash: string
 		try {
-			const metadata = await mm.parseFile(filepath)
+			hash = hashAudio(filepath)
+		} catch (err) {
+			console.error(`[MetadataManager] Failed to hash ${filepath}:`, err)
+			return null
+		}
+		const id = this.freeId(hash.slice(0, TRACK_ID_LENGTH), filename)
+
+		// Different audio under the same name is a different track, but what an
+		// admin set by hand (title, links, tags, cover URL) carries over to it
+		let carried: TrackMetadata | undefined
+		if (known && known !== id) {
+			carried = this.editedMetadataFor(filepath, this.store.tracks[known]?.metadata)
+			delete this.store.tracks[known]
+		}
+		const previous = this.store.tracks[id]
+		if (previous && previous.filename !== filename) {
+			console.log(`[MetadataManager] ${previous.filename} was renamed to ${filename}`)
+			this.idsByFilename.delete(previous.filename)
+		}
+		const metadata = previous?.metadata ?? carried
+		this.store.tracks[id] = {
+			...previous,
+			...(metadata ? { metadata } : {}),
+			filename,
+			size: stat.size,
+			mtimeMs: stat.mtimeMs,
+		}
+		this.idsByFilename.set(filename, id)
+		return id
+	}
+
+	/**
+	 * A manually edited track's metadata for the new audio at `filepath`: the
+	 * duration is read from the new file, and its cover is looked for again.
+	 * Undefined if nothing was edited by hand.
+	 */
+	private editedMetadataFor(
+		filepath: string,
+		metadata: TrackMetadata | undefined,
+	): TrackMetadata | undefined {
+		if (!metadata?.manuallyEdited) return undefined
+		let durationMs: number | undefined
+		try {
+			const reader = new Mp3FrameReader(filepath)
+			const info = reader.getStreamInfo()
+			reader.close()
+			if (info.durationMs) durationMs = Math.round(info.durationMs)
+		} catch {
+			// Left unknown
+		}
+		return { ...metadata, durationMs, artHash: undefined, lastUpdated: Date.now() }
+	}
+
+	/**
+	 * First id for this audio that is free, already this file's, or left by a
+	 * file that is gone (this one is that file, renamed)
+	 */
+	private freeId(base: string, filename: string): string {
+		for (let n = 1; ; n++) {
+			const id = n === 1 ? base : `${base}-${n}`
+			const holder = this.store.tracks[id]
+			if (
+				!holder ||
+				holder.filename === filename ||
+				!fs.existsSync(path.join(this.songsDir, holder.filename))
+			) {
+				return id
+			}
+		}
+	}
+
+	/**
+	 * Extract ID3 metadata from an MP3 file. `tagsFrom` reads the tags from
+	 * another file instead, e.g. the FLAC an upload was transcoded from (the
+	 * duration still comes from the MP3).
+	 */
+	async extractFromFile(filepath: string, tagsFrom: string = filepath): Promise<Partial<TrackMetadata>> {
+		try {
+			const metadata = await mm.parseFile(tagsFrom)
 			const { common, format } = metadata
 
 			const extracted: Partial<TrackMetadata> = {
@@ -86,16 +309,17 @@ class MetadataManager {
 			if (common.title) extracted.title = common.title
 			if (common.artist) extracted.artist = common.artist
 			if (common.album) extracted.album = common.album
-			if (format.duration) extracted.durationMs = Math.round(format.duration * 1000)
-
-			// Check for embedded album art
-			if (common.picture && common.picture.length > 0) {
-				// We don't store embedded art, but flag that it exists
-				// In the future, could extract and upload to CDN
-				const pic = common.picture[0]
-				console.log(`[MetadataManager] Track has embedded album art (${pic?.format ?? 'unknown'})`)
+			if (format.duration && tagsFrom === filepath) extracted.durationMs = Math.round(format.duration * 1000)
+			if (!extracted.durationMs) {
+				// Fall back to our own frame-level parse (exact with a Xing/VBRI frame count)
+				const reader = new Mp3FrameReader(filepath)
+				const { durationMs } = reader.getStreamInfo()
+				reader.close()
+				if (durationMs) extracted.durationMs = Math.round(durationMs)
 			}
 
+			extracted.artHash = await this.saveEmbeddedArt(common.picture, filepath)
+
 			return extracted
 		} catch (err) {
 			console.error(`[MetadataManager] Failed to extract ID3 from ${filepath}:`, err)
@@ -103,17 +327,102 @@ class MetadataManager {
 		}
 	}
 
+	/**
+	 * Store a track's embedded cover (the front cover if it's tagged as one).
+	 * Returns its hash, or null if there's none or it isn't a usable image.
+	 */
+	private async saveEmbeddedArt(
+		pictures: mm.IPicture[] | undefined,
+		filepath: string,
+	): Promise<string | null> {
+		const pic = pictures?.find(p => p.type?.toLowerCase().includes('front')) ?? pictures?.[0]
+		if (!pic) return null
+		const hash = await albumArt.save(Buffer.from(pic.data))
+		if (!hash) {
+			console.warn(`[MetadataManager] Unsupported embedded album art (${pic.format}) in ${filepath}`)
+		}
+		return hash
+	}
+
+	/**
+	 * Extract covers for tracks that have never been checked for one (stored
+	 * before art was extracted). Tracks with no stored metadata get the full
+	 * extraction. Returns how many covers were found.
+	 */
+	async extractMissingArt(filenames: string[]): Promise<number> {
+		let found = 0
+		for (const filename of filenames) {
+			const filepath = path.join(this.songsDir, filename)
+			const id = this.identify(filename)
+			const existing = id ? this.store.tracks[id]?.metadata : undefined
+			if (existing && existing.artHash !== undefined) continue
+			if (!existing) {
+				const meta = await this.getOrExtract(filename, filepath)
+				if (meta.artHash) found++
+				continue
+			}
+
+			try {
+				const { common } = await mm.parseFile(filepath)
+				existing.artHash = await this.saveEmbeddedArt(common.picture, filepath)
+			} catch (err) {
+				console.error(`[MetadataManager] Failed to read album art from ${filepath}:`, err)
+				existing.artHash = null
+			}
+			if (existing.artHash) found++
+			this.save()
+		}
+		return found
+	}
+
+	/**
+	 * Keep a track's acoustic fingerprint
+	 */
+	setFingerprint(filename: string, fingerprint: string): void {
+		const id = this.identify(filename)
+		const record = id ? this.store.tracks[id] : undefined
+		if (!record) return
+		record.fingerprint = fingerprint
+		this.save()
+	}
+
+	/**
+	 * Fingerprint tracks that don't have one yet (stored before duplicate
+	 * detection, or ffmpeg couldn't read them before). Returns how many were
+	 * fingerprinted.
+	 */
+	async fingerprintMissing(filenames: string[]): Promise<number> {
+		let added = 0
+		for (const filename of filenames) {
+			const id = this.identify(filename)
+			const record = id ? this.store.tracks[id] : undefined
+			if (!record || record.fingerprint) continue
+			const fingerprint = await computeFingerprint(path.join(this.songsDir, filename))
+			if (!fingerprint) continue
+			record.fingerprint = fingerprint
+			added++
+			this.save()
+		}
+		return added
+	}
+
 	/**
 	 * Get metadata for a track, extracting from ID3 if not stored
 	 */
-	async getOrExtract(filename: string, filepath: string): Promise<TrackMetadata> {
+	async getOrExtract(
+		filename: string,
+		filepath: string,
+		tagsFrom: string = filepath,
+	): Promise<TrackMetadata> {
 		// If we have stored metadata, return it
-		if (this.metadata[filename]) {
-			return this.metadata[filename]
+		const id = this.identify(filename)
+		const record = id ? this.store.tracks[id] : undefined
+		if (record?.metadata) {
+			return record.metadata
 		}
 
 		// Extract from ID3 and store
-		const extracted = await this.extractFromFile(filepath)
+		const extracted = await this.extractFromFile(filepath, tagsFrom)
 		const titleFromFilename = path.basename(filename, '.mp3').replace(/[-_]/g, ' ')
 
 		const meta: TrackMetadata = {
@@ -121,14 +430,18 @@ class MetadataManager {
 			artist: extracted.artist || 'Unknown Artist',
 			album: extracted.album,
 			albumArtUrl: undefined,
+			artHash: extracted.artHash ?? null,
 			durationMs: extracted.durationMs,
 			extractedFromId3: extracted.extractedFromId3 ?? false,
 			manuallyEdited: false,
 			lastUpdated: Date.now(),
 		}
 
-		this.metadata[filename] = meta
-		this.save()
+		// Kept only once the file has an id (it can't be read otherwise)
+		if (record) {
+			record.metadata = meta
+			this.save()
+		}
 
 		return meta
 	}
@@ -137,7 +450,8 @@ class MetadataManager {
 	 * Get stored metadata (without extraction)
 	 */
 	get(filename: string): TrackMetadata | undefined {
-		return this.metadata[filename]
+		const id = this.idsByFilename.get(filename)
+		return id ? this.store.tracks[id]?.metadata : undefined
 	}
 
 	/**
@@ -147,7 +461,13 @@ class MetadataManager {
 		filename: string,
 		updates: Partial<Omit<TrackMetadata, 'extractedFromId3' | 'manuallyEdited' | 'lastUpdated'>>,
 	): TrackMetadata {
-		const existing = this.metadata[filename] || {
+		const id = this.identify(filename)
+		const record = id ? this.store.tracks[id] : undefined
+		if (!record) {
+			throw new Error(`Cannot read ${filename}`)
+		}
+
+		const existing = record.metadata || {
 			title: path.basename(filename, '.mp3'),
 			artist: 'Unknown Artist',
 			extractedFromId3: false,
@@ -155,41 +475,52 @@ class MetadataManager {
 			lastUpdated: Date.now(),
 		}
 
-		this.metadata[filename] = {
+		const updated: TrackMetadata = {
 			...existing,
 			...updates,
 			manuallyEdited: true,
 			lastUpdated: Date.now(),
 		}
+		record.metadata = updated
 
 		this.save()
-		return this.metadata[filename]
+		return updated
 	}
 
 	/**
 	 * Delete metadata for a track
 	 */
 	delete(filename: string): void {
-		delete this.metadata[filename]
+		const id = this.idsByFilename.get(filename)
+		if (!id) return
+		delete this.store.tracks[id]
+		this.idsByFilename.delete(filename)
 		this.save()
 	}
 
 	/**
-	 * Get all stored metadata
+	 * Get every stored track, by id
 	 */
-	getAll(): MetadataStore {
-		return { ...this.metadata }
+	getAll(): MetadataStore['tracks'] {
+		return { ...this.store.tracks }
 	}
 
 	/**
-	 * Process a newly uploaded file - extract ID3 and store
+	 * Process a newly uploaded file - extract ID3 and store. `tagsFrom` is the
+	 * source file of a transcoded upload.
 	 */
-	async processUpload(filename: string, filepath: string): Promise<TrackMetadata> {
+	async processUpload(
+		filename: string,
+		filepath: string,
+		tagsFrom: string = filepath,
+	): Promise<TrackMetadata> {
 		console.log(`[MetadataManager] Processing upload: ${filename}`)
-		const meta = await this.getOrExtract(filename, filepath)
+		const meta = await this.getOrExtract(filename, filepath, tagsFrom)
 		console.log(`[MetadataManager] Extracted: title="${meta.title}", artist="${meta.artist}"`)
 		return meta
 	}
 }
 
 export const metadataManager = new MetadataManager()
+
+export { MetadataManager }
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test'
+import { Counter, Gauge, Histogram, Registry } from './metrics'
+
+describe('Counter', () => {
+	test('accumulates per label set regardless of key order', () => {
+		const registry = new Registry()
+		const counter = registry.register(new Counter('test_total', 'Things'))
+		counter.inc({ station: 'a', kind: 'x' })
+		counter.inc({ kind: 'x', station: 'a' }, 2)
+		counter.inc({ station: 'b', kind: 'x' })
+
+		expect(counter.get({ station: 'a', kind: 'x' })).toBe(3)
+		expect(registry.render()).toBe(
+			[
+				'# HELP test_total Things',
+				'# TYPE test_total counter',
+				'test_total{station="a",kind="x"} 3',
+				'test_total{station="b",kind="x"} 1',
+				'',
+			].join('\n'),
+		)
+	})
+
+	test('escapes label values', () => {
+		const registry = new Registry()
+		registry.register(new Counter('test_total', 'Things')).inc({ title: 'say "hi"\\\n' })
+		expect(registry.render()).toContain('test_total{title="say \\"hi\\"\\\\\\n"} 1')
+	})
+})
+
+describe('Gauge', () => {
+	test('reset drops stale series', () => {
+		const registry = new Registry()
+		const gauge = registry.register(new Gauge('test_listeners', 'Listeners'))
+		gauge.set({ station: 'gone' }, 4)
+		gauge.reset()
+		gauge.set({ station: 'default' }, 2)
+		expect(registry.render()).not.toContain('gone')
+		expect(registry.render()).toContain('test_listeners{station="default"} 2')
+	})
+})
+
+describe('Histogram', () => {
+	test('renders cumulative buckets, sum and count', () => {
+		const registry = new Registry()
+		const histogram = registry.register(new Histogram('test_seconds', 'Latency', [0.1, 1]))
+		histogram.observe({}, 0.05)
+		histogram.observe({}, 0.5)
+		histogram.observe({}, 3)
+
+		expect(registry.render().split('\n').slice(2, -1)).toEqual([
+			'test_seconds_bucket{le="0.1"} 1',
+			'test_seconds_bucket{le="1"} 2',
+			'test_seconds_bucket{le="+Inf"} 3',
+			'test_seconds_sum 3.55',
+			'test_seconds_count 3',
+		])
+	})
+})
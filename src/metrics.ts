@@ -0,0 +1,247 @@
+/**
+ * METRICS
+ * =======
+ * Minimal Prometheus client: counters, gauges and histograms with labels,
+ * rendered in the text exposition format by `/metrics`.
+ *
+ * Event metrics (bytes sent, reaps, handoff gaps, normalizations...) are
+ * recorded where they happen through the instances exported below. Point in
+ * time values (listener counts, pacing figures) are set by the `/metrics`
+ * route from each station's status just before rendering.
+ */
+
+export type Labels = Record<string, string>
+
+type MetricType = 'counter' | 'gauge' | 'histogram'
+
+// Seconds, from sub-millisecond (gapless handoffs) to multi-second stalls
+export const DEFAULT_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+
+const escapeLabelValue = (value: string): string =>
+	value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+
+function formatLabels(labels: Labels, extra?: [string, string]): string {
+	const pairs = Object.entries(labels)
+	if (extra) pairs.push(extra)
+	if (pairs.length === 0) return ''
+	return `{${pairs.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+function formatValue(value: number): string {
+	if (Number.isNaN(value)) return 'NaN'
+	if (value === Number.POSITIVE_INFINITY) return '+Inf'
+	if (value === Number.NEGATIVE_INFINITY) return '-Inf'
+	return String(value)
+}
+
+// Series are keyed by their sorted labels so { a, b } and { b, a } match
+const seriesKey = (labels: Labels): string => JSON.stringify(Object.entries(labels).sort())
+
+abstract class Metric {
+	readonly name: string
+	readonly help: string
+	abstract readonly type: MetricType
+
+	constructor(name: string, help: string) {
+		this.name = name
+		this.help = help
+	}
+
+	protected abstract renderSeries(): string[]
+
+	render(): string {
+		return [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} ${this.type}`,
+			...this.renderSeries(),
+		].join('\n')
+	}
+}
+
+class Counter extends Metric {
+	readonly type = 'counter'
+	private series: Map<string, { labels: Labels; value: number }> = new Map()
+
+	inc(labels: Labels = {}, amount = 1): void {
+		const key = seriesKey(labels)
+		const entry = this.series.get(key)
+		if (entry) {
+			entry.value += amount
+		} else {
+			this.series.set(key, { labels, value: amount })
+		}
+	}
+
+	get(labels: Labels = {}): number {
+		return this.series.get(seriesKey(labels))?.value ?? 0
+	}
+
+	protected renderSeries(): string[] {
+		return [...this.series.values()].map(
+			({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+		)
+	}
+}
+
+class Gauge extends Metric {
+	readonly type = 'gauge'
+	private series: Map<string, { labels: Labels; value: number }> = new Map()
+
+	set(labels: Labels, value: number): void {
+		this.series.set(seriesKey(labels), { labels, value })
+	}
+
+	/**
+	 * Drop every series (before re-setting them, so removed stations vanish)
+	 */
+	reset(): void {
+		this.series.clear()
+	}
+
+	protected renderSeries(): string[] {
+		return [...this.series.values()].map(
+			({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+		)
+	}
+}
+
+class Histogram extends Metric {
+	readonly type = 'histogram'
+	private readonly buckets: number[]
+	private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map()
+
+	constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+		super(name, help)
+		this.buckets = [...buckets].sort((a, b) => a - b)
+	}
+
+	observe(labels: Labels, value: number): void {
+		const key = seriesKey(labels)
+		let entry = this.series.get(key)
+		if (!entry) {
+			entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+			this.series.set(key, entry)
+		}
+		const bucket = this.buckets.findIndex(bound => value <= bound)
+		if (bucket !== -1) {
+			entry.counts[bucket] = (entry.counts[bucket] ?? 0) + 1
+		}
+		entry.sum += value
+		entry.count++
+	}
+
+	protected renderSeries(): string[] {
+		const lines: string[] = []
+		for (const { labels, counts, sum, count } of this.series.values()) {
+			// Buckets are cumulative in the exposition format
+			let cumulative = 0
+			this.buckets.forEach((bound, i) => {
+				cumulative += counts[i] ?? 0
+				lines.push(`${this.name}_bucket${formatLabels(labels, ['le', formatValue(bound)])} ${cumulative}`)
+			})
+			lines.push(`${this.name}_bucket${formatLabels(labels, ['le', '+Inf'])} ${count}`)
+			lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`)
+			lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+		}
+		return lines
+	}
+}
+
+class Registry {
+	private metrics: Metric[] = []
+
+	register<T extends Metric>(metric: T): T {
+		this.metrics.push(metric)
+		return metric
+	}
+
+	/**
+	 * Every registered metric in the Prometheus text format
+	 */
+	render(): string {
+		return `${this.metrics.map(metric => metric.render()).join('\n')}\n`
+	}
+}
+
+export const registry = new Registry()
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Stream engine (label: station)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const listenersGauge = registry.register(
+	new Gauge('radio_listeners', 'Unique listener sessions on /stream'),
+)
+export const connectionsGauge = registry.register(
+	new Gauge('radio_connections', 'Raw /stream connections, including anonymous ones'),
+)
+export const sseClientsGauge = registry.register(
+	new Gauge('radio_sse_clients', 'Connected now-playing SSE clients'),
+)
+export const hlsListenersGauge = registry.register(
+	new Gauge('radio_hls_listeners', 'Sessions that reloaded the HLS playlist recently'),
+)
+export const mountListenersGauge = registry.register(
+	new Gauge('radio_mount_listeners', 'Listeners on a transcoded mount (label: mount)'),
+)
+export const framesBroadcast = registry.register(
+	new Counter('radio_frames_broadcast_total', 'MP3 frames sent to the live stream'),
+)
+export const bytesSent = registry.register(
+	new Counter('radio_stream_bytes_sent_total', 'Audio bytes written to /stream clients, burst included'),
+)
+export const burstWrites = registry.register(
+	new Counter('radio_burst_writes_total', 'Burst-on-connect backlogs written to new /stream clients'),
+)
+export const stalledConnections = registry.register(
+	new Counter('radio_stalled_connections_total', 'Times a /stream socket backpressured and was skipped'),
+)
+export const reapedConnections = registry.register(
+	new Counter(
+		'radio_reaped_connections_total',
+		'Dead or stalled /stream connections destroyed by the reaper',
+	),
+)
+export const handoffGap = registry.register(
+	new Histogram(
+		'radio_track_handoff_seconds',
+		'Time from reading the last frame of a track to handing off to the next',
+	),
+)
+export const preloadLatency = registry.register(
+	new Histogram('radio_track_preload_seconds', 'Time to open a track and read its first frame'),
+)
+export const pacingDrift = registry.register(
+	new Gauge(
+		'radio_pacing_drift_seconds',
+		'Mean send time vs. real-time slot over recent frames (negative = early)',
+	),
+)
+export const pacingMaxLate = registry.register(
+	new Gauge('radio_pacing_max_late_seconds', 'Furthest behind its slot any recent frame went out'),
+)
+export const pacingJitter = registry.register(
+	new Gauge('radio_pacing_jitter_seconds', 'Std deviation of pacing timer wake-ups'),
+)
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Uploads
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const normalizations = registry.register(
+	new Counter('radio_normalizations_total', 'Upload normalization outcomes (label: status)'),
+)
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Process
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const residentMemory = registry.register(
+	new Gauge('process_resident_memory_bytes', 'Resident memory size in bytes'),
+)
+export const processStartTime = registry.register(
+	new Gauge('process_start_time_seconds', 'Start time of the process since the Unix epoch in seconds'),
+)
+processStartTime.set({}, Math.round(Date.now() / 1000 - process.uptime()))
+
+export { Counter, Gauge, Histogram, Registry }
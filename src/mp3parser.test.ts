@@ -0,0 +1,347 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { Mp3FrameReader, parseFrameHeader, parseVbrHeader } from './mp3parser'
+import type { MpegLayer, MpegVersion } from './types'
+
+interface HeaderFields {
+	version?: MpegVersion
+	layer?: MpegLayer
+	bitrateIndex?: number
+	sampleRateIndex?: number
+	padding?: boolean
+	crc?: boolean
+	emphasis?: number
+	versionBits?: number // Overrides `version` (for reserved values)
+	layerBits?: number // Overrides `layer`
+}
+
+const VERSION_BITS: Record<MpegVersion, number> = { 1: 0b11, 2: 0b10, 2.5: 0b00 }
+const LAYER_BITS: Record<MpegLayer, number> = { 1: 0b11, 2: 0b10, 3: 0b01 }
+
+// Synthetic 4-byte header. Defaults: MPEG1 Layer III, 128 kbps, 44.1 kHz, joint stereo.
+function header(fields: HeaderFields = {}): Buffer {
+	const versionBits = fields.versionBits ?? VERSION_BITS[fields.version ?? 1]
+	const layerBits = fields.layerBits ?? LAYER_BITS[fields.layer ?? 3]
+	const b1 = 0xe0 | (versionBits << 3) | (layerBits << 1) | (fields.crc ? 0 : 1)
+	const b2 =
+		((fields.bitrateIndex ?? 9) << 4) | ((fields.sampleRateIndex ?? 0) << 2) | (fields.padding ? 2 : 0)
+	const b3 = (0b01 << 6) | (fields.emphasis ?? 0)
+	return Buffer.from([0xff, b1, b2, b3])
+}
+
+// Header followed by zeroed payload up to `size` bytes
+function frame(fields: HeaderFields, size: number): Buffer {
+	const data = Buffer.alloc(size)
+	header(fields).copy(data)
+	return data
+}
+
+// `count` plain MPEG1 Layer III frames
+const audio = (count: number) => Array.from({ length: count }, () => frame({}, 417))
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3parser-test-'))
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }))
+
+function openReader(name: string, ...chunks: Buffer[]): Mp3FrameReader {
+	const file = path.join(tmpDir, name)
+	fs.writeFileSync(file, Buffer.concat(chunks))
+	return new Mp3FrameReader(file)
+}
+
+function readAll(name: string, ...chunks: Buffer[]) {
+	const reader = openReader(name, ...chunks)
+	const frames = []
+	for (let f = reader.readNextFrame(); f; f = reader.readNextFrame()) frames.push(f)
+	reader.close()
+	return frames
+}
+
+describe('parseFrameHeader', () => {
+	test('MPEG1 Layer III', () => {
+		const h = parseFrameHeader(header())
+		expect(h).toMatchObject({ mpegVersion: 1, layer: 3, bitrate: 128, sampleRate: 44100, frameSize: 417 })
+		expect(h?.samplesPerFrame).toBe(1152)
+		expect(h?.frameDurationMs).toBeCloseTo(26.122, 3)
+		expect(parseFrameHeader(header({ padding: true }))?.frameSize).toBe(418)
+	})
+
+	test('MPEG2 and MPEG2.5 Layer III carry 576 samples per frame', () => {
+		const v2 = parseFrameHeader(header({ version: 2, bitrateIndex: 8 })) // 64 kbps, 22.05 kHz
+		expect(v2).toMatchObject({ mpegVersion: 2, bitrate: 64, sampleRate: 22050, frameSize: 208 })
+		expect(v2?.frameDurationMs).toBeCloseTo(26.122, 3)
+
+		const v25 = parseFrameHeader(header({ version: 2.5, bitrateIndex: 4 })) // 32 kbps, 11.025 kHz
+		expect(v25).toMatchObject({ mpegVersion: 2.5, bitrate: 32, sampleRate: 11025, frameSize: 208 })
+		expect(v25?.frameDurationMs).toBeCloseTo(52.245, 3)
+	})
+
+	test('Layer II', () => {
+		const h = parseFrameHeader(header({ layer: 2, bitrateIndex: 10, sampleRateIndex: 1 })) // 192 kbps, 48 kHz
+		expect(h).toMatchObject({
+			layer: 2,
+			bitrate: 192,
+			sampleRate: 48000,
+			frameSize: 576,
+			samplesPerFrame: 1152,
+		})
+		expect(h?.frameDurationMs).toBeCloseTo(24, 6)
+	})
+
+	test('Layer I sizes are whole 4-byte slots', () => {
+		const h = parseFrameHeader(header({ layer: 1, bitrateIndex: 12 })) // 384 kbps, 44.1 kHz
+		expect(h).toMatchObject({ layer: 1, bitrate: 384, frameSize: 416, samplesPerFrame: 384 })
+		expect(parseFrameHeader(header({ layer: 1, bitrateIndex: 12, padding: true }))?.frameSize).toBe(420)
+
+		const v2 = parseFrameHeader(header({ version: 2, layer: 1, bitrateIndex: 14, sampleRateIndex: 2 }))
+		expect(v2).toMatchObject({ bitrate: 256, sampleRate: 16000, frameSize: 768 })
+	})
+
+	test('CRC-protected frames keep the same size', () => {
+		const h = parseFrameHeader(header({ crc: true }))
+		expect(h?.crcProtected).toBe(true)
+		expect(h?.frameSize).toBe(417)
+		expect(parseFrameHeader(header())?.crcProtected).toBe(false)
+	})
+
+	test('free-format frames are sized from the measured length', () => {
+		const unmeasured = parseFrameHeader(header({ bitrateIndex: 0 }))
+		expect(unmeasured).toMatchObject({ freeFormat: true, frameSize: 0, bitrate: 0 })
+
+		const measured = parseFrameHeader(header({ bitrateIndex: 0, padding: true }), 600)
+		expect(measured?.frameSize).toBe(601)
+		expect(measured?.bitrate).toBe(184)
+	})
+
+	test('rejects reserved and invalid fields', () => {
+		expect(parseFrameHeader(Buffer.from([0xfe, 0xfb, 0x90, 0x64]))).toBeNull() // sync
+		expect(parseFrameHeader(header({ versionBits: 0b01 }))).toBeNull()
+		expect(parseFrameHeader(header({ layerBits: 0b00 }))).toBeNull()
+		expect(parseFrameHeader(header({ bitrateIndex: 15 }))).toBeNull()
+		expect(parseFrameHeader(header({ sampleRateIndex: 3 }))).toBeNull()
+		expect(parseFrameHeader(header({ emphasis: 2 }))).toBeNull()
+		expect(parseFrameHeader(Buffer.from([0xff, 0xfb]))).toBeNull() // truncated
+	})
+})
+
+describe('Mp3FrameReader', () => {
+	test('reads MPEG2 Layer III frames at their real size', () => {
+		const v2 = { version: 2 as const, bitrateIndex: 8 }
+		const frames = readAll('mpeg2.mp3', ...Array.from({ length: 10 }, () => frame(v2, 208)))
+		expect(frames).toHaveLength(10)
+		expect(frames.every(f => f.data.length === 208 && f.header.mpegVersion === 2)).toBe(true)
+	})
+
+	test('a stray sync word in leading junk does not lock the format', () => {
+		const junk = Buffer.concat([header(), Buffer.alloc(500)]) // MPEG1 header not followed by a frame
+		const v2 = { version: 2 as const, bitrateIndex: 8 }
+		const frames = readAll('junk.mp3', junk, ...Array.from({ length: 5 }, () => frame(v2, 208)))
+		expect(frames).toHaveLength(5)
+		expect(frames.every(f => f.header.mpegVersion === 2)).toBe(true)
+	})
+
+	test('headers in a different format are skipped once locked', () => {
+		const mpeg1 = Array.from({ length: 3 }, () => frame({}, 417))
+		const intruder = frame({ version: 2, bitrateIndex: 8 }, 208)
+		const frames = readAll('locked.mp3', ...mpeg1, intruder, ...mpeg1)
+		expect(frames).toHaveLength(6)
+		expect(frames.every(f => f.header.mpegVersion === 1)).toBe(true)
+	})
+
+	test('measures free-format frames', () => {
+		const frames = readAll('free.mp3', ...Array.from({ length: 4 }, () => frame({ bitrateIndex: 0 }, 600)))
+		expect(frames.map(f => f.data.length)).toEqual([600, 600, 600, 600])
+		expect(frames[0]?.header.bitrate).toBe(184)
+	})
+
+	test('resyncs through a long junk region without recursing', () => {
+		const junk = Buffer.alloc(2 * 1024 * 1024)
+		for (let i = 0; i < junk.length; i += 2) junk[i] = 0xff // sync-looking bytes, never a valid header
+		const reader = openReader('long-junk.mp3', ...audio(3), junk, ...audio(3))
+		let count = 0
+		while (reader.readNextFrame()) count++
+		reader.close()
+		expect(count).toBe(6)
+		expect(reader.getStats()).toMatchObject({ frames: 6, resyncs: 1, resyncBytes: junk.length })
+	})
+
+	test('reads in chunks, not per frame', () => {
+		const reader = openReader('chunks.mp3', ...audio(1000))
+		while (reader.readNextFrame()) {}
+		reader.close()
+		const stats = reader.getStats()
+		expect(stats.frames).toBe(1000)
+		expect(stats.audioBytes).toBe(1000 * 417)
+		expect(stats.reads).toBeLessThan(10)
+	})
+
+	test('reads CRC-protected frames', () => {
+		const frames = readAll('crc.mp3', ...Array.from({ length: 3 }, () => frame({ crc: true }, 417)))
+		expect(frames).toHaveLength(3)
+		expect(frames[0]?.header.crcProtected).toBe(true)
+	})
+})
+
+interface XingFields {
+	tag?: 'Xing' | 'Info'
+	frames: number
+	bytes: number
+	toc?: number[]
+	delay?: number
+	padding?: number
+}
+
+// MPEG1 Layer III stereo frame carrying a Xing/Info header and LAME tag
+function xingFrame(fields: XingFields): Buffer {
+	const data = frame({}, 417)
+	let p = 36 // 4-byte header + 32 bytes of side info
+	data.write(fields.tag ?? 'Xing', p, 'latin1')
+	data.writeUInt32BE(0x0f, p + 4) // frames, bytes, TOC, quality
+	data.writeUInt32BE(fields.frames, p + 8)
+	data.writeUInt32BE(fields.bytes, p + 12)
+	const toc = fields.toc ?? Array.from({ length: 100 }, (_, i) => Math.floor((i * 256) / 100))
+	Buffer.from(toc).copy(data, p + 16)
+	p += 8 + 4 + 4 + 100 + 4
+	data.write('LAME3.100', p, 'latin1')
+	const delay = fields.delay ?? 576
+	const padding = fields.padding ?? 0
+	data[p + 21] = delay >> 4
+	data[p + 22] = ((delay & 0x0f) << 4) | (padding >> 8)
+	data[p + 23] = padding & 0xff
+	return data
+}
+
+describe('VBR headers', () => {
+	test('parses Xing frame count, TOC and LAME delay/padding', () => {
+		const data = xingFrame({ frames: 10, bytes: 4587, delay: 576, padding: 1500 })
+		const parsed = parseFrameHeader(data)
+		expect(parsed).not.toBeNull()
+		if (!parsed) return
+		const vbr = parseVbrHeader(data, parsed)
+		expect(vbr).toMatchObject({
+			kind: 'xing',
+			frameCount: 10,
+			byteCount: 4587,
+			encoderDelay: 576,
+			encoderPadding: 1500,
+		})
+		expect(vbr?.toc).toHaveLength(100)
+	})
+
+	test('parses a VBRI header and its seek table', () => {
+		const data = frame({}, 417)
+		const v = 36
+		data.write('VBRI', v, 'latin1')
+		data.writeUInt32BE(4170, v + 10) // bytes
+		data.writeUInt32BE(10, v + 14) // frames
+		data.writeUInt16BE(2, v + 18) // entries
+		data.writeUInt16BE(1, v + 20) // scale
+		data.writeUInt16BE(2, v + 22) // entry size
+		data.writeUInt16BE(5, v + 24) // frames per entry
+		data.writeUInt16BE(2085, v + 26)
+		data.writeUInt16BE(2085, v + 28)
+		const parsed = parseFrameHeader(data)
+		if (!parsed) throw new Error('header did not parse')
+		expect(parseVbrHeader(data, parsed)).toMatchObject({
+			kind: 'vbri',
+			frameCount: 10,
+			vbriToc: { entries: [2085, 2085], framesPerEntry: 5 },
+		})
+	})
+
+	test('ordinary audio frames have no VBR header', () => {
+		const data = frame({}, 417)
+		const parsed = parseFrameHeader(data)
+		if (!parsed) throw new Error('header did not parse')
+		expect(parseVbrHeader(data, parsed)).toBeNull()
+	})
+
+	test('the reader drops the header frame and trailing padding-only frames', () => {
+		const reader = openReader(
+			'xing.mp3',
+			xingFrame({ frames: 10, bytes: 11 * 417, padding: 1200 }),
+			...audio(10),
+		)
+		const info = reader.getStreamInfo()
+		expect(info).toMatchObject({ vbrHeader: 'xing', frameCount: 10, encoderDelay: 576, encoderPadding: 1200 })
+		expect(info.durationMs).toBeCloseTo(((10 * 1152 - 576 - 1200) / 44100) * 1000, 6)
+
+		let count = 0
+		while (reader.readNextFrame()) count++
+		reader.close()
+		expect(count).toBe(9) // 1200 samples of padding fill the whole last frame
+	})
+
+	test('without a VBR header, duration is estimated from the bitrate', () => {
+		const reader = openReader('cbr.mp3', ...audio(20))
+		const info = reader.getStreamInfo()
+		reader.close()
+		expect(info.vbrHeader).toBeNull()
+		expect(info.durationMs).toBeCloseTo((20 * 417 * 8) / 128, 6)
+	})
+})
+
+describe('tail tags', () => {
+	test('stops at an ID3v1 tag', () => {
+		const id3v1 = Buffer.alloc(128)
+		id3v1.write('TAG', 0, 'latin1')
+		id3v1.fill(0xff, 3) // would look like sync words if scanned
+		expect(readAll('id3v1.mp3', ...audio(4), id3v1)).toHaveLength(4)
+	})
+
+	test('stops at an APEv2 tag before an ID3v1 tag', () => {
+		const items = Buffer.alloc(64, 0xff)
+		const apeHeader = Buffer.alloc(32)
+		apeHeader.write('APETAGEX', 0, 'latin1')
+		const apeFooter = Buffer.alloc(32)
+		apeFooter.write('APETAGEX', 0, 'latin1')
+		apeFooter.writeUInt32LE(2000, 8)
+		apeFooter.writeUInt32LE(items.length + 32, 12) // items + footer
+		apeFooter.writeUInt32LE(0x80000000, 20) // has header
+		const id3v1 = Buffer.alloc(128)
+		id3v1.write('TAG', 0, 'latin1')
+
+		expect(readAll('ape.mp3', ...audio(4), apeHeader, items, apeFooter, id3v1)).toHaveLength(4)
+	})
+
+	test('ignores an APEv2 footer with an impossible size', () => {
+		for (const size of [0xffffff00, 16]) {
+			const apeFooter = Buffer.alloc(32)
+			apeFooter.write('APETAGEX', 0, 'latin1')
+			apeFooter.writeUInt32LE(2000, 8)
+			apeFooter.writeUInt32LE(size, 12)
+			expect(readAll(`ape-corrupt-${size}.mp3`, ...audio(4), apeFooter)).toHaveLength(4)
+		}
+	})
+})
+
+describe('seek', () => {
+	test('lands on the requested frame in a constant-bitrate file', () => {
+		const reader = openReader('seek-cbr.mp3', ...audio(100))
+		const frameMs = (1152 / 44100) * 1000
+		const landed = reader.seek(50 * frameMs)
+		expect(landed).toBeCloseTo(50 * frameMs, 6)
+		let remaining = 0
+		while (reader.readNextFrame()) remaining++
+		reader.close()
+		expect(remaining).toBe(50)
+	})
+
+	test('uses the Xing TOC', () => {
+		// Linear TOC over 100 audio frames + the header frame
+		const reader = openReader(
+			'seek-xing.mp3',
+			xingFrame({ frames: 100, bytes: 101 * 417, delay: 0 }),
+			...audio(100),
+		)
+		reader.seek(reader.getStreamInfo().durationMs ?? 0)
+		expect(reader.readNextFrame()).toBeNull()
+
+		reader.seek(0)
+		let count = 0
+		while (reader.readNextFrame()) count++
+		reader.close()
+		expect(count).toBe(100)
+	})
+})
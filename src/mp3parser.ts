@@ -1,38 +1,87 @@
 import fs from 'node:fs'
-import type { Mp3FrameHeader } from './types'
+import type {
+	ChannelMode,
+	Mp3Frame,
+	Mp3FrameHeader,
+	Mp3ReaderStats,
+	Mp3StreamInfo,
+	MpegLayer,
+	MpegVersion,
+	VbrHeader,
+} from './types'
 
 /**
- * Bitrate lookup table for MPEG1 Layer 3
- * Index comes from 4 bits in the frame header
+ * Bitrate lookup tables (kbps), indexed by the 4 bitrate bits of the header.
+ * Index 0 is "free format" (size not encoded in the header, see
+ * {@link parseFrameHeader}); index 15 is invalid. MPEG2 and MPEG2.5 share tables.
  */
-const BITRATE_TABLE: (number | null)[] = [
-	null, // 0000 - reserved
-	32, // 0001
-	40, // 0010
-	48, // 0011
-	56, // 0100
-	64, // 0101
-	80, // 0110
-	96, // 0111
-	112, // 1000
-	128, // 1001
-	160, // 1010
-	192, // 1011
-	224, // 1100
-	256, // 1101
-	320, // 1110
-	null, // 1111 - reserved
-]
+const BITRATE_TABLES: Record<'v1l1' | 'v1l2' | 'v1l3' | 'v2l1' | 'v2l23', (number | null)[]> = {
+	v1l1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448, null],
+	v1l2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384, null],
+	v1l3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, null],
+	v2l1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256, null],
+	v2l23: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160, null],
+}
+
+function bitrateTable(version: MpegVersion, layer: MpegLayer): (number | null)[] {
+	if (version === 1) {
+		if (layer === 1) return BITRATE_TABLES.v1l1
+		if (layer === 2) return BITRATE_TABLES.v1l2
+		return BITRATE_TABLES.v1l3
+	}
+	return layer === 1 ? BITRATE_TABLES.v2l1 : BITRATE_TABLES.v2l23
+}
 
 /**
- * Sample rate lookup table for MPEG1
+ * Sample rate lookup tables, indexed by the 2 sample rate bits (11 = reserved)
  */
-const SAMPLE_RATE_TABLE: (number | null)[] = [
-	44100, // 00
-	48000, // 01
-	32000, // 10
-	null, // 11 - reserved
-]
+const SAMPLE_RATE_TABLES: Record<MpegVersion, (number | null)[]> = {
+	1: [44100, 48000, 32000, null],
+	2: [22050, 24000, 16000, null],
+	2.5: [11025, 12000, 8000, null],
+}
+
+// Version bits (byte 1, bits 4-3): 01 is reserved
+const VERSIONS: (MpegVersion | null)[] = [2.5, null, 2, 1]
+
+// Layer bits (byte 1, bits 2-1): 00 is reserved
+const LAYERS: (MpegLayer | null)[] = [null, 3, 2, 1]
+
+const CHANNEL_MODES: ChannelMode[] = ['stereo', 'joint-stereo', 'dual-channel', 'mono']
+
+/**
+ * PCM samples per frame. MPEG2/2.5 Layer III frames carry one granule, not two.
+ */
+function samplesPerFrame(version: MpegVersion, layer: MpegLayer): number {
+	if (layer === 1) return 384
+	if (layer === 3 && version !== 1) return 576
+	return 1152
+}
+
+/**
+ * Padding adds one slot: 4 bytes in Layer I, 1 byte otherwise
+ */
+function slotSize(layer: MpegLayer): number {
+	return layer === 1 ? 4 : 1
+}
+
+/**
+ * Frame length in bytes (header, CRC and padding included):
+ * samples/8 bytes per second of bitrate, rounded down to whole slots.
+ * Equivalent to the familiar `144 * bitrate / sampleRate` for MPEG1 Layer III,
+ * `72 * ...` for MPEG2/2.5 Layer III and `(12 * ... ) * 4` for Layer I.
+ */
+function computeFrameSize(
+	version: MpegVersion,
+	layer: MpegLayer,
+	bitrate: number,
+	sampleRate: number,
+	padding: boolean,
+): number {
+	const slot = slotSize(layer)
+	const slots = Math.floor((samplesPerFrame(version, layer) / 8 / slot) * ((bitrate * 1000) / sampleRate))
+	return (slots + (padding ? 1 : 0)) * slot
+}
 
 /**
  * Parse an MP3 frame header from 4 bytes
@@ -40,43 +89,225 @@ const SAMPLE_RATE_TABLE: (number | null)[] = [
  * Frame header structure:
  * - Byte 0: 0xFF (sync)
  * - Byte 1: 111AABBC (sync continued, version, layer, protection)
- * - Byte 2: DDDDEEEF (bitrate, sample rate, padding)
- * - Byte 3: GGHHJJKK (channel mode, etc.)
+ * - Byte 2: DDDDEEFG (bitrate, sample rate, padding, private)
+ * - Byte 3: HHIIJKLL (channel mode, mode extension, copyright, original, emphasis)
+ *
+ * Handles MPEG1/2/2.5 and Layers I/II/III. A cleared protection bit means a
+ * 16-bit CRC follows the header; it's counted in the frame size like any
+ * other payload. Reserved/invalid fields return null so garbage that happens
+ * to contain a sync word is rejected rather than mis-sized.
+ *
+ * Free-format frames (bitrate index 0) don't encode their size: pass the size
+ * measured between two consecutive free-format frames (without padding) as
+ * `freeFormatSize`. Until then they come back with `frameSize` and `bitrate` 0.
  */
-function parseFrameHeader(header: Buffer): Mp3FrameHeader | null {
+function parseFrameHeader(header: Buffer, freeFormatSize = 0): Mp3FrameHeader | null {
+	const b1 = header[1]
+	const b2 = header[2]
+	const b3 = header[3]
+	if (b1 === undefined || b2 === undefined || b3 === undefined) return null
+
 	// Check sync word: first byte must be 0xFF, top 3 bits of second byte must be 1s
-	if (header[0] !== 0xff || (header[1]! & 0xe0) !== 0xe0) {
+	if (header[0] !== 0xff || (b1 & 0xe0) !== 0xe0) {
 		return null
 	}
 
-	// Extract MPEG version (bits 4-3 of byte 1)
-	const mpegVersion = (header[1]! >> 3) & 0x03
-	if (mpegVersion === 1) return null // Reserved
+	const mpegVersion = VERSIONS[(b1 >> 3) & 0x03]
+	if (!mpegVersion) return null
+
+	const layer = LAYERS[(b1 >> 1) & 0x03]
+	if (!layer) return null
 
-	// Extract layer (bits 2-1 of byte 1)
-	const layer = (header[1]! >> 1) & 0x03
-	if (layer === 0) return null // Reserved
+	const crcProtected = (b1 & 0x01) === 0
 
-	// Extract bitrate index (bits 7-4 of byte 2)
-	const bitrateIndex = (header[2]! >> 4) & 0x0f
-	const bitrate = BITRATE_TABLE[bitrateIndex]
-	if (!bitrate) return null
+	const bitrateIndex = (b2 >> 4) & 0x0f
+	const tableBitrate = bitrateTable(mpegVersion, layer)[bitrateIndex]
+	if (tableBitrate === null || tableBitrate === undefined) return null
 
-	// Extract sample rate index (bits 3-2 of byte 2)
-	const sampleRateIndex = (header[2]! >> 2) & 0x03
-	const sampleRate = SAMPLE_RATE_TABLE[sampleRateIndex]
+	const sampleRate = SAMPLE_RATE_TABLES[mpegVersion][(b2 >> 2) & 0x03]
 	if (!sampleRate) return null
 
-	// Extract padding bit (bit 1 of byte 2)
-	const padding = (header[2]! >> 1) & 0x01
+	const padding = ((b2 >> 1) & 0x01) === 1
+	const channelMode = CHANNEL_MODES[(b3 >> 6) & 0x03] ?? 'stereo'
 
-	// Calculate frame size for MPEG1 Layer 3
-	const frameSize = Math.floor((144 * bitrate * 1000) / sampleRate) + padding
+	// Emphasis 10 is reserved
+	if ((b3 & 0x03) === 2) return null
 
-	// Calculate frame duration (1152 samples per frame for MPEG1 Layer 3)
-	const frameDurationMs = (1152 / sampleRate) * 1000
+	const samples = samplesPerFrame(mpegVersion, layer)
+	const freeFormat = bitrateIndex === 0
+
+	let bitrate = tableBitrate
+	let frameSize = 0
+	if (!freeFormat) {
+		frameSize = computeFrameSize(mpegVersion, layer, bitrate, sampleRate, padding)
+	} else if (freeFormatSize > 0) {
+		frameSize = freeFormatSize + (padding ? slotSize(layer) : 0)
+		bitrate = Math.round((freeFormatSize * 8 * sampleRate) / samples / 1000)
+	}
+
+	return {
+		frameSize,
+		bitrate,
+		sampleRate,
+		frameDurationMs: (samples / sampleRate) * 1000,
+		mpegVersion,
+		layer,
+		samplesPerFrame: samples,
+		padding,
+		crcProtected,
+		channelMode,
+		freeFormat,
+	}
+}
 
-	return { frameSize, bitrate, sampleRate, frameDurationMs }
+/**
+ * Whether two headers describe the same stream format. Once a reader has
+ * locked onto a stream, a sync word with a different version, layer, sample
+ * rate or free-format flag is treated as garbage, not a new frame.
+ */
+function isSameStreamFormat(a: Mp3FrameHeader, b: Mp3FrameHeader): boolean {
+	return (
+		a.mpegVersion === b.mpegVersion &&
+		a.layer === b.layer &&
+		a.sampleRate === b.sampleRate &&
+		a.freeFormat === b.freeFormat
+	)
+}
+
+// Bytes per disk read: ~150 frames at 128 kbps, so streaming touches the disk
+// every few seconds instead of twice per frame
+const READ_CHUNK_BYTES = 64 * 1024
+
+// Largest free-format frame we'll measure (MPEG1 Layer III tops out at 640 kbps)
+const MAX_FREE_FORMAT_FRAME_BYTES = 8192
+
+// ============================================================================
+// VBR HEADERS (Xing / Info / VBRI) AND TAGS
+// ============================================================================
+
+/**
+ * The Xing/Info tag sits right after the header, the CRC (if any) and the
+ * Layer III side information, whose size depends on version and channel count.
+ */
+function xingTagOffset(header: Mp3FrameHeader): number {
+	const mono = header.channelMode === 'mono'
+	const sideInfo = header.mpegVersion === 1 ? (mono ? 17 : 32) : mono ? 9 : 17
+	return 4 + (header.crcProtected ? 2 : 0) + sideInfo
+}
+
+// VBRI always sits 32 bytes after the header
+const VBRI_TAG_OFFSET = 36
+
+// LAME-style extension after the Xing fields; ffmpeg writes the same layout
+// with its own encoder string
+const LAME_TAG_PREFIXES = ['LAME', 'Lavc', 'Lavf', 'L3.9', 'GOGO']
+
+/**
+ * Parse a Xing/Info (LAME, ffmpeg) or VBRI (Fraunhofer) header out of a first
+ * frame. That frame is silent metadata, not audio. Returns null if the frame
+ * is ordinary audio.
+ */
+function parseVbrHeader(frame: Buffer, header: Mp3FrameHeader): VbrHeader | null {
+	if (header.layer !== 3) return null
+
+	const xing = xingTagOffset(header)
+	const xingTag = frame.toString('latin1', xing, xing + 4)
+	if ((xingTag === 'Xing' || xingTag === 'Info') && xing + 8 <= frame.length) {
+		const flags = frame.readUInt32BE(xing + 4)
+		let p = xing + 8
+		const field = (present: boolean, size: number): number | null => {
+			if (!present || p + size > frame.length) return null
+			const at = p
+			p += size
+			return at
+		}
+
+		const framesAt = field((flags & 0x01) !== 0, 4)
+		const bytesAt = field((flags & 0x02) !== 0, 4)
+		const tocAt = field((flags & 0x04) !== 0, 100)
+		field((flags & 0x08) !== 0, 4) // quality indicator
+
+		let encoderDelay = 0
+		let encoderPadding = 0
+		const encoder = frame.toString('latin1', p, p + 4)
+		if (LAME_TAG_PREFIXES.includes(encoder) && p + 24 <= frame.length) {
+			// 12 bits delay, 12 bits padding, 21 bytes into the LAME tag
+			const b0 = frame[p + 21] ?? 0
+			const b1 = frame[p + 22] ?? 0
+			const b2 = frame[p + 23] ?? 0
+			encoderDelay = (b0 << 4) | (b1 >> 4)
+			encoderPadding = ((b1 & 0x0f) << 8) | b2
+		}
+
+		return {
+			kind: xingTag === 'Xing' ? 'xing' : 'info',
+			frameCount: framesAt === null ? null : frame.readUInt32BE(framesAt),
+			byteCount: bytesAt === null ? null : frame.readUInt32BE(bytesAt),
+			toc: tocAt === null ? null : Array.from(frame.subarray(tocAt, tocAt + 100)),
+			vbriToc: null,
+			encoderDelay,
+			encoderPadding,
+		}
+	}
+
+	const v = VBRI_TAG_OFFSET
+	if (frame.toString('latin1', v, v + 4) === 'VBRI' && v + 26 <= frame.length) {
+		const entryCount = frame.readUInt16BE(v + 18)
+		const scale = frame.readUInt16BE(v + 20)
+		const entrySize = frame.readUInt16BE(v + 22)
+		const framesPerEntry = frame.readUInt16BE(v + 24)
+
+		let vbriToc: VbrHeader['vbriToc'] = null
+		const tocEnd = v + 26 + entryCount * entrySize
+		if (entrySize >= 1 && entrySize <= 4 && framesPerEntry > 0 && tocEnd <= frame.length) {
+			const entries: number[] = []
+			for (let i = 0; i < entryCount; i++) {
+				entries.push(frame.readUIntBE(v + 26 + i * entrySize, entrySize) * scale)
+			}
+			vbriToc = { entries, framesPerEntry }
+		}
+
+		return {
+			kind: 'vbri',
+			frameCount: frame.readUInt32BE(v + 14),
+			byteCount: frame.readUInt32BE(v + 10),
+			toc: null,
+			vbriToc,
+			encoderDelay: 0,
+			encoderPadding: 0,
+		}
+	}
+
+	return null
+}
+
+/**
+ * Where the audio ends: before a trailing ID3v1 tag (128 bytes, "TAG") and/or
+ * an APEv2 tag (32-byte "APETAGEX" footer whose size covers everything but the
+ * optional header). APE comes first when both are present. An APE footer with
+ * an impossible size is ignored rather than allowed to cut off the audio.
+ */
+function findAudioEnd(fd: number, fileSize: number): number {
+	let end = fileSize
+
+	const id3v1 = Buffer.alloc(3)
+	if (end >= 128 && fs.readSync(fd, id3v1, 0, 3, end - 128) === 3 && id3v1.toString('latin1') === 'TAG') {
+		end -= 128
+	}
+
+	const apeFooter = Buffer.alloc(32)
+	if (
+		end >= 32 &&
+		fs.readSync(fd, apeFooter, 0, 32, end - 32) === 32 &&
+		apeFooter.toString('latin1', 0, 8) === 'APETAGEX'
+	) {
+		const size = apeFooter.readUInt32LE(12)
+		const tagSize = size + ((apeFooter.readUInt32LE(20) & 0x80000000) !== 0 ? 32 : 0)
+		// A size that can't cover its own footer or runs past the file start is corrupt: ignore the tag
+		if (size >= 32 && tagSize <= end) end -= tagSize
+	}
+
+	return end
 }
 
 // ============================================================================
@@ -87,11 +318,34 @@ class Mp3FrameReader {
 	private fd: number
 	private position: number = 0
 	private fileSize: number
+	// First confirmed frame; every later header must match its format
+	private format: Mp3FrameHeader | null = null
+	// Free-format streams: frame size without padding, measured once
+	private freeFormatSize = 0
+	// Audio lies between these offsets: after the ID3v2 tag and any VBR
+	// header frame, before trailing ID3v1/APEv2 tags
+	private audioStart = 0
+	private audioEnd: number
+	private vbrHeader: VbrHeader | null = null
+	private vbrHeaderOffset = 0
+	// Audio frames returned so far, and where to stop (trailing frames that are
+	// pure encoder padding are dropped so the next track starts sooner). The
+	// encoder delay at the start stays: the first frames feed the bit reservoir
+	// of the ones after. It counts towards the duration, and rendered
+	// crossfades line up by it (see crossfade.ts).
+	private framesRead = 0
+	private frameLimit: number | null = null
+	// Current read-ahead chunk and its file offset
+	private chunk: Buffer = Buffer.alloc(0)
+	private chunkStart = 0
+	private stats: Mp3ReaderStats = { frames: 0, audioBytes: 0, resyncs: 0, resyncBytes: 0, reads: 0 }
 
 	constructor(filePath: string) {
 		this.fd = fs.openSync(filePath, 'r')
 		this.fileSize = fs.fstatSync(this.fd).size
+		this.audioEnd = findAudioEnd(this.fd, this.fileSize)
 		this.skipId3v2Tag()
+		this.readVbrHeader()
 	}
 
 	/**
@@ -104,10 +358,10 @@ class Mp3FrameReader {
 		if (header.toString('ascii', 0, 3) === 'ID3') {
 			// ID3v2 size is a "synchsafe" integer (7 bits per byte)
 			const size =
-				((header[6]! & 0x7f) << 21) |
-				((header[7]! & 0x7f) << 14) |
-				((header[8]! & 0x7f) << 7) |
-				(header[9]! & 0x7f)
+				(((header[6] ?? 0) & 0x7f) << 21) |
+				(((header[7] ?? 0) & 0x7f) << 14) |
+				(((header[8] ?? 0) & 0x7f) << 7) |
+				((header[9] ?? 0) & 0x7f)
 
 			this.position = 10 + size
 			console.log(`[Mp3Reader] Skipped ID3v2 tag: ${this.position} bytes`)
@@ -115,101 +369,261 @@ class Mp3FrameReader {
 	}
 
 	/**
-	 * Read the next MP3 frame from the file
+	 * Check the first frame for a Xing/Info/VBRI header. If there is one, keep
+	 * it and start the audio after it (it would otherwise be streamed as a
+	 * frame of silence); if not, rewind so that frame is read as audio.
 	 */
-	readNextFrame(): { data: Buffer; header: Mp3FrameHeader } | null {
-		if (this.position >= this.fileSize) {
-			return null
+	private readVbrHeader(): void {
+		const first = this.readFrame()
+		if (!first) return
+
+		const offset = this.position - first.data.length
+		const vbr = parseVbrHeader(first.data, first.header)
+		if (!vbr) {
+			this.position = offset
+			this.audioStart = offset
+			return
 		}
 
-		// Read potential frame header (4 bytes)
-		const headerBuf = Buffer.alloc(4)
-		const bytesRead = fs.readSync(this.fd, headerBuf, 0, 4, this.position)
+		this.vbrHeader = vbr
+		this.vbrHeaderOffset = offset
+		this.audioStart = this.position
+		if (vbr.frameCount !== null) {
+			const paddingFrames = Math.floor(vbr.encoderPadding / first.header.samplesPerFrame)
+			this.frameLimit = Math.max(0, vbr.frameCount - paddingFrames)
+		}
+	}
 
-		if (bytesRead < 4) {
+	/**
+	 * Read the next MP3 frame from the file
+	 */
+	readNextFrame(): Mp3Frame | null {
+		if (this.frameLimit !== null && this.framesRead >= this.frameLimit) {
 			return null
 		}
-
-		// Try to parse as frame header
-		const header = parseFrameHeader(headerBuf)
-
-		if (!header) {
-			// Not a valid frame header, skip one byte and try again
-			// This handles garbage data between frames
-			this.position++
-			return this.readNextFrame()
+		const frame = this.readFrame()
+		if (frame) {
+			this.framesRead++
+			this.stats.frames++
+			this.stats.audioBytes += frame.data.length
 		}
+		return frame
+	}
 
-		// Read the full frame (including header)
-		const frameData = Buffer.alloc(header.frameSize)
-		fs.readSync(this.fd, frameData, 0, header.frameSize, this.position)
+	getStats(): Mp3ReaderStats {
+		return { ...this.stats }
+	}
 
-		this.position += header.frameSize
+	/**
+	 * Find and read the frame at or after the current position. Garbage
+	 * between frames is skipped by scanning ahead to the next 0xFF byte in the
+	 * loaded chunk, in a loop (no recursion, however long the junk runs).
+	 */
+	private readFrame(): Mp3Frame | null {
+		let skipped = 0
+		let frame: Mp3Frame | null = null
+
+		while (this.position + 4 <= this.audioEnd) {
+			const headerBuf = this.bytesAt(this.position, 4)
+			if (headerBuf.length < 4) break
+
+			const header = headerBuf[0] === 0xff ? this.acceptHeader(headerBuf, this.position) : null
+			if (!header) {
+				const next = this.nextSyncCandidate(this.position + 1)
+				skipped += next - this.position
+				this.position = next
+				continue
+			}
+
+			// A frame cut short by the end of the audio is dropped
+			if (this.position + header.frameSize > this.audioEnd) break
+			const data = this.bytesAt(this.position, header.frameSize)
+			if (data.length < header.frameSize) break
+
+			this.position += header.frameSize
+			frame = { data, header }
+			break
+		}
 
-		return { data: frameData, header }
+		if (skipped > 0) {
+			this.stats.resyncs++
+			this.stats.resyncBytes += skipped
+		}
+		return frame
 	}
 
-	close(): void {
-		fs.closeSync(this.fd)
+	/**
+	 * `length` bytes at `offset`, served from the current chunk when it covers
+	 * them, else from a fresh chunk read at `offset`. Shorter only at EOF.
+	 *
+	 * Frames are returned as views into these chunks rather than copies, so a
+	 * chunk is never written to after it's read: refilling allocates a new one
+	 * and the old one is freed once no frame refers to it.
+	 */
+	private bytesAt(offset: number, length: number): Buffer {
+		const chunkEnd = this.chunkStart + this.chunk.length
+		const covered = offset >= this.chunkStart && (offset + length <= chunkEnd || chunkEnd >= this.fileSize)
+		if (!covered) {
+			const size = Math.min(Math.max(READ_CHUNK_BYTES, length), this.fileSize - offset)
+			if (size <= 0) return Buffer.alloc(0)
+			const chunk = Buffer.allocUnsafe(size)
+			const bytesRead = fs.readSync(this.fd, chunk, 0, size, offset)
+			this.chunk = chunk.subarray(0, bytesRead)
+			this.chunkStart = offset
+			this.stats.reads++
+		}
+		const start = offset - this.chunkStart
+		return this.chunk.subarray(start, start + length)
 	}
 
-	reset(): void {
-		this.position = 0
-		this.skipId3v2Tag()
+	/**
+	 * Offset of the next possible sync byte at or after `from`, searching the
+	 * loaded chunk. If the rest of the chunk has none, returns the chunk end so
+	 * the next {@link bytesAt} loads more.
+	 */
+	private nextSyncCandidate(from: number): number {
+		const start = from - this.chunkStart
+		if (start < 0 || start >= this.chunk.length) return from
+		const index = this.chunk.indexOf(0xff, start)
+		const next = index === -1 ? this.chunkStart + this.chunk.length : this.chunkStart + index
+		return Math.min(next, this.audioEnd)
 	}
-}
-
-// ============================================================================
-// PRECISE TIMER
-// ============================================================================
-
-/**
- * Precise timing using process.hrtime for nanosecond accuracy
- *
- * Standard setTimeout has ~4ms minimum delay and can drift.
- * For audio streaming, we need much better precision.
- */
-class PreciseTimer {
-	private startTime: bigint = process.hrtime.bigint()
-	private elapsedTargetMs: number = 0
 
 	/**
-	 * Add time to our "budget" - how much time should have elapsed
+	 * Validate a candidate header found at `offset`. It must parse and match the
+	 * locked stream format. The very first frame must also be followed by a
+	 * matching header (or EOF), so a stray sync word in leading junk can't lock
+	 * the reader onto a bogus format and throw off every frame duration after it.
 	 */
-	addTime(ms: number): void {
-		this.elapsedTargetMs += ms
+	private acceptHeader(headerBuf: Buffer, offset: number): Mp3FrameHeader | null {
+		let header = parseFrameHeader(headerBuf, this.freeFormatSize)
+		if (!header) return null
+		if (this.format && !isSameStreamFormat(this.format, header)) return null
+
+		if (header.frameSize === 0) {
+			const size = this.measureFreeFormatSize(header, offset)
+			if (!size) return null
+			header = parseFrameHeader(headerBuf, size)
+			if (!header) return null
+			this.freeFormatSize = size
+		}
+
+		if (!this.format) {
+			const nextOffset = offset + header.frameSize
+			if (nextOffset + 4 <= this.audioEnd) {
+				const next = this.headerAt(nextOffset)
+				if (!next || !isSameStreamFormat(header, next)) {
+					this.freeFormatSize = 0
+					return null
+				}
+			}
+			this.format = header
+		}
+
+		return header
+	}
+
+	private headerAt(offset: number): Mp3FrameHeader | null {
+		const buf = this.bytesAt(offset, 4)
+		if (buf.length < 4) return null
+		return parseFrameHeader(buf, this.freeFormatSize)
 	}
 
 	/**
-	 * Calculate how long we should wait before sending the next frame
+	 * Free-format frames don't state their size, so find the next free-format
+	 * header of the same format and measure the distance. Returns the size
+	 * without padding, or 0 if no second frame is found.
 	 */
-	getDelayMs(): number {
-		const actualElapsedNs = process.hrtime.bigint() - this.startTime
-		const actualElapsedMs = Number(actualElapsedNs) / 1_000_000
-		return Math.max(0, this.elapsedTargetMs - actualElapsedMs)
+	private measureFreeFormatSize(header: Mp3FrameHeader, offset: number): number {
+		const window = this.bytesAt(offset, MAX_FREE_FORMAT_FRAME_BYTES + 4)
+
+		for (let i = 4; i + 4 <= window.length; i++) {
+			if (window[i] !== 0xff) continue
+			const candidate = parseFrameHeader(window.subarray(i, i + 4))
+			if (candidate && isSameStreamFormat(header, candidate)) {
+				return i - (header.padding ? slotSize(header.layer) : 0)
+			}
+		}
+		return 0
+	}
+
+	close(): void {
+		fs.closeSync(this.fd)
 	}
 
 	/**
-	 * Wait until it's time to send the next frame
+	 * Duration, frame count and seek table. Exact when the file has a VBR
+	 * header with a frame count; otherwise estimated from the bitrate.
 	 */
-	async wait(): Promise<void> {
-		const delay = this.getDelayMs()
+	getStreamInfo(): Mp3StreamInfo {
+		const vbr = this.vbrHeader
+		const header = this.format
+		const audioBytes = this.audioEnd - this.audioStart
+
+		let durationMs: number | null = null
+		if (header && vbr?.frameCount != null) {
+			const samples = vbr.frameCount * header.samplesPerFrame - vbr.encoderDelay - vbr.encoderPadding
+			durationMs = (Math.max(0, samples) / header.sampleRate) * 1000
+		} else if (header && header.bitrate > 0) {
+			durationMs = (audioBytes * 8) / header.bitrate
+		}
 
-		if (delay > 1) {
-			// Use setTimeout for longer waits (saves CPU)
-			await new Promise(resolve => setTimeout(resolve, delay - 1))
+		return {
+			vbrHeader: vbr?.kind ?? null,
+			frameCount: vbr?.frameCount ?? null,
+			audioBytes,
+			toc: vbr?.toc ?? null,
+			encoderDelay: vbr?.encoderDelay ?? 0,
+			encoderPadding: vbr?.encoderPadding ?? 0,
+			durationMs,
 		}
+	}
 
-		// Busy-wait for final sub-millisecond precision
-		while (this.getDelayMs() > 0) {
-			// Spin
+	/**
+	 * Move to the frame nearest `ms` into the track, via the Xing TOC or VBRI
+	 * table when present, else assuming a constant bitrate. The next read
+	 * resyncs to a frame boundary. Returns the position seeked to, in ms.
+	 */
+	seek(ms: number): number {
+		const header = this.format
+		if (!header) return 0
+
+		const frameMs = header.frameDurationMs
+		const vbr = this.vbrHeader
+		const totalFrames = vbr?.frameCount ?? null
+		let targetFrame = Math.max(0, Math.round(ms / frameMs))
+		if (totalFrames !== null) targetFrame = Math.min(targetFrame, totalFrames)
+
+		let offset: number
+		if (vbr?.toc && vbr.byteCount && totalFrames) {
+			// TOC entry i: byte position at i% of the track, in 1/256ths of byteCount
+			const percent = Math.min(99.999, (targetFrame / totalFrames) * 100)
+			const i = Math.floor(percent)
+			const a = vbr.toc[i] ?? 0
+			const b = i < 99 ? (vbr.toc[i + 1] ?? 256) : 256
+			const fraction = (a + (b - a) * (percent - i)) / 256
+			offset = Math.max(this.audioStart, this.vbrHeaderOffset + Math.round(fraction * vbr.byteCount))
+		} else if (vbr?.vbriToc) {
+			const { entries, framesPerEntry } = vbr.vbriToc
+			const entryIndex = Math.min(Math.floor(targetFrame / framesPerEntry), entries.length)
+			offset = this.audioStart + entries.slice(0, entryIndex).reduce((sum, size) => sum + size, 0)
+			targetFrame = entryIndex * framesPerEntry
+		} else {
+			// Aim half a frame early: padding makes frame sizes vary by a byte, and
+			// the resync scan moves forward to the next boundary
+			const averageFrameBytes = (header.bitrate * frameMs) / 8
+			offset = this.audioStart + Math.max(0, Math.round((targetFrame - 0.5) * averageFrameBytes))
 		}
+
+		this.position = Math.min(offset, this.audioEnd)
+		this.framesRead = targetFrame
+		return targetFrame * frameMs
 	}
 
 	reset(): void {
-		this.startTime = process.hrtime.bigint()
-		this.elapsedTargetMs = 0
+		this.position = this.audioStart
+		this.framesRead = 0
 	}
 }
 
-export { Mp3FrameReader, PreciseTimer }
+export { isSameStreamFormat, Mp3FrameReader, parseFrameHeader, parseVbrHeader }
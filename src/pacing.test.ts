@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test'
+import {
+	BatchedPacer,
+	DEFAULT_PACING_LEAD_MS,
+	MAX_PACING_LEAD_MS,
+	PreciseTimer,
+	parsePacingLeadMs,
+	parsePacingStrategy,
+} from './pacing'
+
+describe('parsePacingStrategy', () => {
+	test('accepts known strategies and falls back to precise', () => {
+		expect(parsePacingStrategy('batched')).toBe('batched')
+		expect(parsePacingStrategy(undefined)).toBe('precise')
+		expect(parsePacingStrategy('turbo')).toBe('precise')
+	})
+})
+
+describe('parsePacingLeadMs', () => {
+	test('defaults and clamps', () => {
+		expect(parsePacingLeadMs(undefined)).toBe(DEFAULT_PACING_LEAD_MS)
+		expect(parsePacingLeadMs('abc')).toBe(DEFAULT_PACING_LEAD_MS)
+		expect(parsePacingLeadMs('1')).toBe(50)
+		expect(parsePacingLeadMs('99999')).toBe(MAX_PACING_LEAD_MS)
+		expect(parsePacingLeadMs('250')).toBe(250)
+	})
+})
+
+describe('BatchedPacer', () => {
+	test('sends without sleeping while within the lead', async () => {
+		const pacer = new BatchedPacer(200)
+		for (let i = 0; i < 5; i++) {
+			pacer.addTime(26)
+			await pacer.wait()
+		}
+		expect(pacer.getStats().sleeps).toBe(0)
+		expect(pacer.getStats().currentLeadMs).toBeGreaterThan(100)
+	})
+
+	test('sleeps until half the lead is left once over it', async () => {
+		const pacer = new BatchedPacer(60)
+		pacer.addTime(100)
+		const start = performance.now()
+		await pacer.wait()
+		const slept = performance.now() - start
+		expect(slept).toBeGreaterThanOrEqual(60) // 100ms ahead -> sleep ~70ms down to 30ms
+		expect(slept).toBeLessThan(200)
+		expect(pacer.getStats().sleeps).toBe(1)
+		expect(pacer.getStats().driftMs).toBeLessThan(0) // frames go out early
+	})
+
+	test('reset keeps the lead already sent', () => {
+		const pacer = new BatchedPacer(300)
+		pacer.addTime(250)
+		pacer.reset()
+		expect(pacer.getStats().currentLeadMs).toBeGreaterThan(200)
+	})
+})
+
+describe('PreciseTimer', () => {
+	test('waits out each frame and reports near-zero drift', async () => {
+		const timer = new PreciseTimer()
+		const start = performance.now()
+		for (let i = 0; i < 4; i++) {
+			timer.addTime(10)
+			await timer.wait()
+		}
+		expect(performance.now() - start).toBeGreaterThanOrEqual(39)
+		const stats = timer.getStats()
+		expect(stats.strategy).toBe('precise')
+		expect(stats.currentLeadMs).toBe(0)
+		expect(Math.abs(stats.driftMs)).toBeLessThan(5)
+	})
+})
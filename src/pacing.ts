@@ -0,0 +1,228 @@
+/**
+ * FRAME PACING
+ * ============
+ * Decides when the engine may send the next frame so the stream runs at real
+ * time. Two strategies, selected with PACING_STRATEGY:
+ *
+ * - `precise` ({@link PreciseTimer}): sleeps until ~1ms before each frame's
+ *   slot, then busy-waits the rest. Frames leave within microseconds of
+ *   schedule, but a core spins for ~1ms of every 26ms frame — per station.
+ * - `batched` ({@link BatchedPacer}): lets sends run up to PACING_LEAD_MS
+ *   ahead of real time, then sleeps (no spinning) until half that lead is
+ *   left and sends the next batch. Listener buffers absorb the lead.
+ *
+ * Both measure progress against the monotonic clock rather than adding up
+ * sleeps, so timer overshoot is corrected on the next frame instead of
+ * accumulating as drift. Drift and wake-up jitter are tracked so the two can
+ * be compared in /status.
+ */
+
+export type PacingStrategy = 'precise' | 'batched'
+
+export const PACING_STRATEGIES: PacingStrategy[] = ['precise', 'batched']
+
+export const DEFAULT_PACING_LEAD_MS = 300
+export const MIN_PACING_LEAD_MS = 50
+export const MAX_PACING_LEAD_MS = 2000
+
+// Recent frames/sleeps kept for the drift and jitter figures
+const STATS_WINDOW = 512
+
+export interface PacingStats {
+	strategy: PacingStrategy
+	leadMs: number // Configured lead (0 for precise)
+	currentLeadMs: number // How far sends are ahead of real time right now
+	driftMs: number // Mean of (send time - frame's real-time slot) over recent frames; negative = early
+	maxLateMs: number // Furthest behind its slot any recent frame went out
+	jitterMs: number // Std deviation of timer wake-ups from when they were requested
+	sleeps: number // Timer sleeps since start
+}
+
+export interface FramePacer {
+	/** Add a sent frame's duration to the schedule */
+	addTime(ms: number): void
+	/** Resolve when the next frame may be sent */
+	wait(): Promise<void>
+	/** Restart the schedule from now (new track), keeping any lead already sent */
+	reset(): void
+	getStats(): PacingStats
+}
+
+function nowMs(): number {
+	return Number(process.hrtime.bigint()) / 1_000_000
+}
+
+const round3 = (value: number): number => Math.round(value * 1000) / 1000
+
+/**
+ * Fixed-size ring of recent samples
+ */
+class SampleWindow {
+	private samples: number[] = []
+	private next = 0
+
+	push(value: number): void {
+		if (this.samples.length < STATS_WINDOW) {
+			this.samples.push(value)
+		} else {
+			this.samples[this.next] = value
+		}
+		this.next = (this.next + 1) % STATS_WINDOW
+	}
+
+	mean(): number {
+		if (this.samples.length === 0) return 0
+		return this.samples.reduce((sum, value) => sum + value, 0) / this.samples.length
+	}
+
+	max(): number {
+		return this.samples.reduce((max, value) => Math.max(max, value), 0)
+	}
+
+	stddev(): number {
+		if (this.samples.length < 2) return 0
+		const mean = this.mean()
+		const variance = this.samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / this.samples.length
+		return Math.sqrt(variance)
+	}
+}
+
+/**
+ * Shared schedule bookkeeping: `elapsedTargetMs` of audio has been sent since
+ * `startMs`, so sends are `elapsedTargetMs - (now - startMs)` ahead of real time.
+ */
+abstract class BasePacer implements FramePacer {
+	abstract readonly strategy: PacingStrategy
+	protected abstract readonly leadMs: number
+
+	private startMs = nowMs()
+	private elapsedTargetMs = 0
+	private drift = new SampleWindow()
+	private wakeErrors = new SampleWindow()
+	private sleeps = 0
+
+	abstract wait(): Promise<void>
+
+	addTime(ms: number): void {
+		this.elapsedTargetMs += ms
+	}
+
+	reset(): void {
+		const lead = Math.max(0, this.aheadMs())
+		this.startMs = nowMs()
+		this.elapsedTargetMs = lead
+	}
+
+	/**
+	 * How far sends are ahead of real time (negative = behind)
+	 */
+	protected aheadMs(): number {
+		return this.elapsedTargetMs - (nowMs() - this.startMs)
+	}
+
+	protected async sleep(ms: number): Promise<void> {
+		const wakeAt = nowMs() + ms
+		await new Promise(resolve => setTimeout(resolve, ms))
+		this.wakeErrors.push(nowMs() - wakeAt)
+		this.sleeps++
+	}
+
+	/**
+	 * Called as wait() returns, i.e. when the next frame is about to go out
+	 */
+	protected recordSend(): void {
+		this.drift.push(-this.aheadMs())
+	}
+
+	getStats(): PacingStats {
+		return {
+			strategy: this.strategy,
+			leadMs: this.leadMs,
+			currentLeadMs: round3(Math.max(0, this.aheadMs())),
+			driftMs: round3(this.drift.mean()),
+			maxLateMs: round3(this.drift.max()),
+			jitterMs: round3(this.wakeErrors.stddev()),
+			sleeps: this.sleeps,
+		}
+	}
+}
+
+/**
+ * Precise timing using process.hrtime for nanosecond accuracy
+ *
+ * Standard setTimeout has ~4ms minimum delay and can drift.
+ * For audio streaming, we need much better precision.
+ */
+class PreciseTimer extends BasePacer {
+	readonly strategy = 'precise'
+	protected readonly leadMs = 0
+
+	/**
+	 * Wait until it's time to send the next frame
+	 */
+	async wait(): Promise<void> {
+		const delay = this.aheadMs()
+
+		if (delay > 1) {
+			// Use setTimeout for longer waits (saves CPU)
+			await this.sleep(delay - 1)
+		}
+
+		// Busy-wait for final sub-millisecond precision
+		while (this.aheadMs() > 0) {
+			// Spin
+		}
+		this.recordSend()
+	}
+}
+
+/**
+ * Sends ahead of real time in batches, sleeping between them
+ */
+class BatchedPacer extends BasePacer {
+	readonly strategy = 'batched'
+	protected readonly leadMs: number
+
+	constructor(leadMs: number) {
+		super()
+		this.leadMs = leadMs
+	}
+
+	async wait(): Promise<void> {
+		const ahead = this.aheadMs()
+		if (ahead > this.leadMs) {
+			// Far enough ahead: sleep until half the lead is left, then the
+			// following frames go out back to back until we're over it again
+			await this.sleep(ahead - this.leadMs / 2)
+		}
+		this.recordSend()
+	}
+}
+
+/**
+ * Parse PACING_STRATEGY. Unknown values fall back to `precise` with a warning.
+ */
+export function parsePacingStrategy(value: string | undefined): PacingStrategy {
+	if (!value) return 'precise'
+	const strategy = PACING_STRATEGIES.find(s => s === value)
+	if (!strategy) {
+		console.warn(`[Pacing] Unknown PACING_STRATEGY "${value}", using precise`)
+		return 'precise'
+	}
+	return strategy
+}
+
+/**
+ * Parse PACING_LEAD_MS, clamped to a sane range
+ */
+export function parsePacingLeadMs(value: string | undefined): number {
+	const ms = Number(value)
+	if (!value || !Number.isFinite(ms)) return DEFAULT_PACING_LEAD_MS
+	return Math.min(MAX_PACING_LEAD_MS, Math.max(MIN_PACING_LEAD_MS, Math.round(ms)))
+}
+
+export function createPacer(strategy: PacingStrategy, leadMs = DEFAULT_PACING_LEAD_MS): FramePacer {
+	return strategy === 'batched' ? new BatchedPacer(leadMs) : new PreciseTimer()
+}
+
+export { BatchedPacer, PreciseTimer }
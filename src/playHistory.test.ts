@@ -0,0 +1,132 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { PlayHistory } from './playHistory'
+import type { NowPlaying, PlayHistoryEntry } from './types'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-test-'))
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }))
+
+const MIN = 60_000
+const DAY = 24 * 60 * MIN
+
+function history(name: string, options: { maxEntries?: number; retentionDays?: number } = {}): PlayHistory {
+	return new PlayHistory({
+		stateDir: path.join(tmpDir, name),
+		maxEntries: options.maxEntries ?? 0,
+		retentionDays: options.retentionDays ?? 0,
+		listenerCount: () => 3,
+	})
+}
+
+function entry(title: string, startedAt: number): PlayHistoryEntry {
+	return {
+		trackId: title,
+		filename: `${title}.mp3`,
+		title,
+		artist: 'X',
+		startedAt,
+		endedAt: startedAt + 3 * MIN,
+		skipped: false,
+		listeners: 0,
+	}
+}
+
+describe('PlayHistory', () => {
+	test('records songs as they end, but not jingles', () => {
+		const log = history('observer')
+		const recorded: string[] = []
+		log.setRecordHandler(e => recorded.push(e.title))
+
+		const song: NowPlaying = {
+			track: { id: '1', path: './songs/rain.mp3', title: 'Rain', artist: 'X' },
+			startedAt: 1000,
+		}
+		log.onTrackStart(song)
+		log.onTrackEnd(song, 5000, true)
+
+		const jingle: NowPlaying = {
+			track: {
+				id: 'jingle:id.mp3',
+				path: './songs/jingles/id.mp3',
+				title: 'id',
+				artist: '',
+				interstitial: true,
+			},
+			startedAt: 5000,
+			interstitial: true,
+		}
+		log.onTrackStart(jingle)
+		log.onTrackEnd(jingle, 8000, false)
+
+		expect(recorded).toEqual(['Rain'])
+		expect(log.recent(5)).toEqual([
+			{
+				trackId: '1',
+				filename: 'rain.mp3',
+				title: 'Rain',
+				artist: 'X',
+				startedAt: 1000,
+				endedAt: 5000,
+				skipped: true,
+				listeners: 3,
+			},
+		])
+	})
+
+	test('pages newest first and survives a restart', () => {
+		const log = history('paging')
+		const now = Date.now()
+		for (let i = 0; i < 5; i++) {
+			log.record(entry(`t${i}`, now + i * MIN))
+		}
+
+		const first = log.page(2)
+		expect(first.history.map(e => e.title)).toEqual(['t4', 't3'])
+		const second = log.page(2, first.nextBefore ?? undefined)
+		expect(second.history.map(e => e.title)).toEqual(['t2', 't1'])
+		const last = log.page(2, second.nextBefore ?? undefined)
+		expect(last).toEqual({ history: [entry('t0', now)], nextBefore: null })
+
+		fs.appendFileSync(path.join(tmpDir, 'paging', 'history.jsonl'), '{"trackId": "cut sho')
+		expect(history('paging').recent(10)).toHaveLength(5)
+	})
+
+	test('re-keys entries saved with index ids by filename', () => {
+		const now = Date.now()
+		const log = history('index-ids')
+		log.record({ ...entry('rain', now), trackId: '3' })
+		log.record({ ...entry('gone', now + MIN), trackId: '4' })
+
+		const ids: Record<string, string> = { 'rain.mp3': '0123456789abcdef' }
+		const rekeyed = new PlayHistory({
+			stateDir: path.join(tmpDir, 'index-ids'),
+			maxEntries: 0,
+			retentionDays: 0,
+			trackIdFor: filename => ids[filename] ?? null,
+		})
+		expect(rekeyed.recent(2).map(e => e.trackId)).toEqual(['4', '0123456789abcdef'])
+		// Saved, so the next start has nothing left to look up
+		expect(
+			history('index-ids')
+				.recent(2)
+				.map(e => e.trackId),
+		).toEqual(['4', '0123456789abcdef'])
+	})
+
+	test('trims by count and age, compacting the file', () => {
+		const log = history('retention', { maxEntries: 100, retentionDays: 7 })
+		const now = Date.now()
+		log.record(entry('old', now - 30 * DAY))
+		for (let i = 0; i < 700; i++) {
+			log.record(entry(`t${i}`, now + i))
+		}
+
+		expect(log.size()).toBe(100)
+		expect(log.recent(1)[0]?.title).toBe('t699')
+		const lines = fs.readFileSync(path.join(tmpDir, 'retention', 'history.jsonl'), 'utf-8').split('\n')
+		expect(lines.length).toBeLessThan(700)
+		expect(history('retention', { maxEntries: 100, retentionDays: 7 }).size()).toBe(100)
+	})
+})
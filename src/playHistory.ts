@@ -0,0 +1,231 @@
+/**
+ * PLAY HISTORY
+ * ============
+ * What a station played, appended to `history.jsonl` in its state directory
+ * as each track ends: a snapshot of the track's title and artist, when it
+ * started and ended, whether it was cut short and how many were listening
+ * when it started. Songs and live sets are recorded; jingles are not.
+ *
+ * The log is kept in memory for paging through `/api/history`, trimmed to
+ * the retention limits (entry count and age) as it grows, and the file is
+ * rewritten once enough trimmed lines have built up in it.
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { EngineObserver } from './streamEngine'
+import type { NowPlaying, PlayHistoryEntry } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_HISTORY_MAX_ENTRIES = 10_000
+export const DEFAULT_HISTORY_RETENTION_DAYS = 90
+
+// Trimmed lines tolerated in the file before it is rewritten
+const COMPACT_SLACK_LINES = 500
+
+// Track ids from before they were derived from the audio: the track's position
+// in the library (audio ids are 16 hex characters)
+const INDEX_TRACK_ID = /^\d{1,15}$/
+
+/**
+ * Non-negative whole number from an env var, or the fallback
+ */
+export function parseHistorySetting(value: string | undefined, fallback: number): number {
+	const parsed = Math.floor(Number(value))
+	return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+// Enough of an entry to page through; other fields pass through as saved
+function isHistoryEntry(value: unknown): value is PlayHistoryEntry {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		'trackId' in value &&
+		typeof value.trackId === 'string' &&
+		'startedAt' in value &&
+		typeof value.startedAt === 'number' &&
+		'endedAt' in value &&
+		typeof value.endedAt === 'number'
+	)
+}
+
+export interface PlayHistoryOptions {
+	stateDir: string // Where history.jsonl lives
+	maxEntries: number // 0 = no limit
+	retentionDays: number // 0 = keep forever
+	listenerCount?: () => number // Listeners on every output, sampled as each track starts
+	trackIdFor?: (filename: string) => string | null // Id of a song file, for entries saved with an index id
+}
+
+export interface HistoryPage {
+	history: PlayHistoryEntry[] // Newest first
+	nextBefore: number | null // Pass as `before` for the next page, null on the last
+}
+
+class PlayHistory implements EngineObserver {
+	private readonly file: string
+	private readonly options: PlayHistoryOptions
+	private entries: PlayHistoryEntry[] = [] // Oldest first
+	private fileLines = 0
+	private onRecord: ((entry: PlayHistoryEntry) => void) | null = null
+
+	// The track playing and the audience when it started
+	private current: NowPlaying | null = null
+	private listenersAtStart = 0
+
+	constructor(options: PlayHistoryOptions) {
+		this.options = options
+		this.file = path.join(options.stateDir, 'history.jsonl')
+		this.load()
+	}
+
+	private load(): void {
+		let lines: string[]
+		try {
+			if (!fs.existsSync(this.file)) return
+			lines = fs.readFileSync(this.file, 'utf-8').split('\n').filter(Boolean)
+		} catch (err) {
+			console.error('[History] Failed to load history:', err)
+			return
+		}
+
+		for (const line of lines) {
+			try {
+				const entry: unknown = JSON.parse(line)
+				if (isHistoryEntry(entry)) this.entries.push(entry)
+			} catch {
+				// A line cut short by a crash
+			}
+		}
+		this.fileLines = lines.length
+		if (this.rekeyIndexIds() > 0) this.compact()
+		this.trim()
+	}
+
+	/**
+	 * Give entries saved with an index id their song's track id, found by
+	 * filename. Entries for files that are gone keep the old id. Returns how
+	 * many were re-keyed.
+	 */
+	private rekeyIndexIds(): number {
+		const { trackIdFor } = this.options
+		if (!trackIdFor) return 0
+		let rekeyed = 0
+		for (const entry of this.entries) {
+			if (!entry.filename || !INDEX_TRACK_ID.test(entry.trackId)) continue
+			const trackId = trackIdFor(entry.filename)
+			if (!trackId) continue
+			entry.trackId = trackId
+			rekeyed++
+		}
+		if (rekeyed > 0) console.log(`[History] Re-keyed ${rekeyed} entries by track id`)
+		return rekeyed
+	}
+
+	/**
+	 * Called with each new entry, e.g. to push it to SSE clients
+	 */
+	setRecordHandler(handler: (entry: PlayHistoryEntry) => void): void {
+		this.onRecord = handler
+	}
+
+	onTrackStart(nowPlaying: NowPlaying): void {
+		this.current = nowPlaying
+		this.listenersAtStart = this.options.listenerCount?.() ?? 0
+	}
+
+	onTrackEnd(nowPlaying: NowPlaying, endedAt: number, skipped: boolean): void {
+		if (nowPlaying.interstitial) return
+
+		const { track } = nowPlaying
+		const entry: PlayHistoryEntry = {
+			trackId: track.id,
+			filename: nowPlaying.live ? null : path.basename(track.path),
+			title: track.title,
+			artist: track.artist,
+			...(track.album ? { album: track.album } : {}),
+			startedAt: nowPlaying.startedAt,
+			endedAt,
+			skipped,
+			listeners: nowPlaying === this.current ? this.listenersAtStart : 0,
+			...(nowPlaying.live ? { live: true } : {}),
+		}
+		this.record(entry)
+	}
+
+	/**
+	 * Append an entry to the log
+	 */
+	record(entry: PlayHistoryEntry): void {
+		this.entries.push(entry)
+		try {
+			fs.mkdirSync(path.dirname(this.file), { recursive: true })
+			fs.appendFileSync(this.file, `${JSON.stringify(entry)}\n`)
+			this.fileLines++
+		} catch (err) {
+			console.error('[History] Failed to append history:', err)
+		}
+		this.trim()
+		this.onRecord?.(entry)
+	}
+
+	/**
+	 * Drop entries past the retention limits, rewriting the file once enough
+	 * dropped lines have built up
+	 */
+	private trim(now: number = Date.now()): void {
+		const { maxEntries, retentionDays } = this.options
+		let drop = 0
+		if (retentionDays > 0) {
+			const cutoff = now - retentionDays * DAY_MS
+			while (drop < this.entries.length && (this.entries[drop]?.endedAt ?? 0) < cutoff) drop++
+		}
+		if (maxEntries > 0) {
+			drop = Math.max(drop, this.entries.length - maxEntries)
+		}
+		if (drop > 0) this.entries.splice(0, drop)
+
+		if (this.fileLines - this.entries.length > COMPACT_SLACK_LINES) {
+			this.compact()
+		}
+	}
+
+	private compact(): void {
+		try {
+			const lines = this.entries.map(entry => `${JSON.stringify(entry)}\n`).join('')
+			fs.writeFileSync(this.file, lines)
+			this.fileLines = this.entries.length
+		} catch (err) {
+			console.error('[History] Failed to compact history:', err)
+		}
+	}
+
+	/**
+	 * Up to `limit` entries that started before `before`, newest first
+	 */
+	page(limit: number, before: number = Number.POSITIVE_INFINITY): HistoryPage {
+		const history: PlayHistoryEntry[] = []
+		let i = this.entries.length - 1
+		for (; i >= 0 && history.length < limit; i--) {
+			const entry = this.entries[i]
+			if (entry && entry.startedAt < before) history.push(entry)
+		}
+		// Stopped early with older entries left: there's another page
+		const last = history[history.length - 1]
+		return { history, nextBefore: i >= 0 && last ? last.startedAt : null }
+	}
+
+	/**
+	 * The `count` most recent entries, newest first
+	 */
+	recent(count: number): PlayHistoryEntry[] {
+		return this.entries.slice(-count).reverse()
+	}
+
+	size(): number {
+		return this.entries.length
+	}
+}
+
+export { PlayHistory }
@@ -0,0 +1,127 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { PlaylistManager } from './playlistManager'
+import type { PlaylistState, Track } from './types'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'playlist-test-'))
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }))
+
+// The sample songs in the library
+const SAMPLES = ['a-song.mp3', 'b-song.mp3', 'c-song.mp3']
+
+function playlist(name: string): PlaylistManager {
+	return new PlaylistManager({
+		stateDir: path.join(tmpDir, name),
+		includeFile: filename => SAMPLES.includes(filename),
+	})
+}
+
+function filenameOf(track: Track | undefined): string | undefined {
+	return track && path.basename(track.path)
+}
+
+// Resolves with the saved state once it satisfies `ready` (saves are written in the background)
+async function savedState(name: string, ready: (state: PlaylistState) => boolean): Promise<PlaylistState> {
+	const file = path.join(tmpDir, name, 'state.json')
+	while (true) {
+		if (fs.existsSync(file)) {
+			const state: PlaylistState = JSON.parse(fs.readFileSync(file, 'utf-8'))
+			if (ready(state)) return state
+		}
+		await new Promise(resolve => setTimeout(resolve, 5))
+	}
+}
+
+describe('PlaylistManager queue', () => {
+	test('queued tracks play before the rotation, which resumes where it left off', () => {
+		const manager = playlist('priority')
+		const [first = '', second = '', third = ''] = manager.getTracks().map(filenameOf)
+		expect(manager.getTracks()).toHaveLength(3)
+
+		expect(filenameOf(manager.commitNextTrack())).toBe(first)
+		manager.enqueue(third, { source: 'listener', sessionId: 'listener-1' })
+		manager.enqueue(first, { source: 'admin', position: 0 })
+		expect(filenameOf(manager.peekNextTrack())).toBe(first)
+		expect(filenameOf(manager.commitNextTrack())).toBe(first)
+		expect(filenameOf(manager.commitNextTrack())).toBe(third)
+		expect(manager.getQueue()).toHaveLength(0)
+		expect(filenameOf(manager.commitNextTrack())).toBe(second)
+	})
+
+	test('only queues tracks in the playlist', () => {
+		const manager = playlist('unknown')
+		expect(manager.enqueue('not-a-song.mp3', { source: 'admin' })).toBeUndefined()
+		expect(manager.getQueue()).toHaveLength(0)
+	})
+
+	test('keeps the queue across a reload', async () => {
+		const manager = playlist('reload')
+		const [, second = '', third = ''] = manager.getTracks().map(filenameOf)
+		const listenerEntry = manager.enqueue(second, { source: 'listener', sessionId: 'listener-1' })
+		manager.enqueue(third, { source: 'admin' })
+		await savedState('reload', state => state.queue?.length === 2)
+
+		const reloaded = playlist('reload')
+		expect(reloaded.getQueue().map(entry => [entry.filename, entry.source])).toEqual([
+			[second, 'listener'],
+			[third, 'admin'],
+		])
+		expect(reloaded.getQueue()[0]?.id).toBe(listenerEntry?.id ?? '')
+		expect(filenameOf(reloaded.commitNextTrack())).toBe(second)
+	})
+
+	test('clamps insert positions and only reorders a permutation of the queue', () => {
+		const manager = playlist('reorder')
+		const [first = '', second = '', third = ''] = manager.getTracks().map(filenameOf)
+		const a = manager.enqueue(first, { source: 'admin' })?.id ?? ''
+		const b = manager.enqueue(second, { source: 'admin', position: 99 })?.id ?? ''
+		const c = manager.enqueue(third, { source: 'admin', position: -5 })?.id ?? ''
+		expect(manager.getQueue().map(entry => entry.id)).toEqual([c, a, b])
+
+		expect(manager.reorderQueue([a, b])).toBe(false)
+		expect(manager.reorderQueue([a, a, b])).toBe(false)
+		expect(manager.reorderQueue([a, b, 'unknown'])).toBe(false)
+		expect(manager.getQueue().map(entry => entry.id)).toEqual([c, a, b])
+
+		expect(manager.reorderQueue([a, b, c])).toBe(true)
+		expect(manager.getQueue().map(entry => entry.id)).toEqual([a, b, c])
+		expect(manager.removeFromQueue(a)).toBe(true)
+		expect(manager.removeFromQueue(a)).toBe(false)
+	})
+})
+
+describe('PlaylistManager order', () => {
+	test('rescanning keeps the order and the playing track', () => {
+		const manager = playlist('rescan')
+		const [first = '', second = '', third = ''] = manager.getTracks().map(filenameOf)
+		expect(manager.setOrder([third, first, second])).toBe(true)
+		const playing = manager.commitNextTrack()
+		if (playing) manager.notifyTrackChange(playing)
+		expect(manager.moveTrack(second, 0)).toBe(true)
+		const order = manager.getTracks().map(filenameOf)
+		const upcoming = filenameOf(manager.peekNextTrack())
+
+		manager.rescan()
+		expect(manager.getTracks().map(filenameOf)).toEqual(order)
+		expect(filenameOf(manager.getCurrentTrack())).toBe(filenameOf(playing) ?? '')
+		expect(filenameOf(manager.commitNextTrack())).toBe(upcoming ?? '')
+	})
+
+	test('resumes on the saved track, in the saved order less missing files', () => {
+		fs.mkdirSync(path.join(tmpDir, 'resume'), { recursive: true })
+		const state: PlaylistState = {
+			playlistOrder: ['gone.mp3', 'c-song.mp3', 'a-song.mp3', 'b-song.mp3'],
+			currentTrackFilename: 'a-song.mp3',
+			currentTrackIndex: 2,
+			lastUpdated: 0,
+		}
+		fs.writeFileSync(path.join(tmpDir, 'resume', 'state.json'), JSON.stringify(state))
+
+		const manager = playlist('resume')
+		expect(manager.getTracks().map(filenameOf)).toEqual(['c-song.mp3', 'a-song.mp3', 'b-song.mp3'])
+		expect(manager.getCurrentIndex()).toBe(1)
+		expect(filenameOf(manager.commitNextTrack())).toBe('a-song.mp3')
+	})
+})
@@ -6,30 +6,104 @@
  * - Current track index tracking
  * - SSE notifications for track changes
  * - Reactive add/remove without interrupting playback
+ * - Sequential, shuffle and smart-rotation playback modes (see rotation.ts)
+ * - An up-next queue (admin + listener requests) that takes priority over rotation
+ * - Admin reordering and "play this track now"
+ *
+ * One instance exists per station (see stationManager.ts). Every instance reads
+ * from the shared songs library; a station can narrow that to the filenames
+ * assigned to it and keeps its own state file.
  */
 
+import { randomUUID } from 'node:crypto'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 import type { Response } from 'express'
+import { trackArtUrl } from './albumArt'
 import { metadataManager } from './metadataManager'
-import type { PlaylistState, Track } from './types'
+import { buildShuffleBag, pickSmartCandidate } from './rotation'
+import type { PlaybackMode, PlayHistoryEntry, PlaylistState, QueueEntry, Track } from './types'
 
 const SONGS_DIR = path.join(__dirname, '../songs')
 // Store state inside songs folder so it persists with the volume on Railway
 const STATE_DIR = path.join(SONGS_DIR, '.radio-state')
-const STATE_FILE = path.join(STATE_DIR, 'state.json')
+
+/**
+ * Track for a file in the songs library, with its stored metadata (falling
+ * back to the filename) and its content-derived id. Null if the file can't
+ * be read.
+ */
+function trackFromFile(filename: string): Track | null {
+	const id = metadataManager.identify(filename)
+	if (!id) return null
+
+	// Try to get stored metadata, fallback to filename
+	const meta = metadataManager.get(filename)
+	const fallbackTitle = filename.replace(/\.mp3$/i, '').replace(/[-_]/g, ' ')
+
+	return {
+		id,
+		path: `./songs/${filename}`,
+		title: meta?.title || fallbackTitle,
+		artist: meta?.artist || 'Unknown Artist',
+		album: meta?.album || undefined,
+		albumArtUrl: trackArtUrl(meta),
+		durationMs: meta?.durationMs || undefined,
+		tags: meta?.tags?.length ? meta.tags : undefined,
+		spotifyUrl: meta?.spotifyUrl || undefined,
+		youtubeUrl: meta?.youtubeUrl || undefined,
+		appleMusicUrl: meta?.appleMusicUrl || undefined,
+	}
+}
 
 // Callback type for when current track needs to be skipped
 type SkipCallback = () => void
 
+export const PLAYBACK_MODES: readonly PlaybackMode[] = ['sequential', 'shuffle', 'smart']
+export const DEFAULT_SMART_WINDOW = 5
+export const MAX_SMART_WINDOW = 50
+
+export interface PlaylistManagerOptions {
+	// Directory holding this playlist's state.json (defaults to .radio-state/)
+	stateDir?: string
+	// Narrows the library to a subset of filenames; all MP3s when omitted
+	includeFile?: (filename: string) => boolean
+}
+
+/**
+ * Narrows the rotation to a subset of tracks (a schedule pool). `key`
+ * identifies the subset so a pick made under a different one can be dropped.
+ */
+export interface RotationFilter {
+	key: string
+	includes: (track: Track) => boolean
+}
+
+type RotationFilterProvider = () => RotationFilter | null
+
 class PlaylistManager {
 	private tracks: Track[] = []
 	private nextIndex: number = 0
 	private playingIndex: number = 0
 	private sseClients: Set<Response> = new Set()
 	private onSkipCurrentTrack: SkipCallback | null = null
-
-	constructor() {
+	private readonly stateFile: string
+	private readonly includeFile: (filename: string) => boolean
+
+	private playbackMode: PlaybackMode = 'sequential'
+	private smartWindow: number = DEFAULT_SMART_WINDOW
+	private shuffleBag: string[] = [] // Filenames left in the current shuffle pass
+	private recentlyPlayed: string[] = [] // Filenames, most recent first
+	// Shuffle/smart pick made by peekNextTrack(), held until commitNextTrack() so
+	// repeated peeks agree and the engine's stale-preload check keeps passing.
+	private pendingNext: string | null = null
+	private pendingFilterKey: string | null = null // Rotation filter pendingNext was picked under
+	private rotationFilter: RotationFilterProvider | null = null
+	private queue: QueueEntry[] = []
+
+	constructor(options: PlaylistManagerOptions = {}) {
+		this.stateFile = path.join(options.stateDir ?? STATE_DIR, 'state.json')
+		this.includeFile = options.includeFile ?? (() => true)
 		this.loadTracksFromDisk()
 		this.loadState()
 	}
@@ -42,6 +116,37 @@ class PlaylistManager {
 		this.onSkipCurrentTrack = callback
 	}
 
+	/**
+	 * Limit rotation picks to whatever the provider returns at pick time (the
+	 * queue is unaffected). A filter that matches no tracks is ignored.
+	 */
+	setRotationFilter(provider: RotationFilterProvider): void {
+		this.rotationFilter = provider
+		// A pick restored from state.json resumes regardless of the slot
+		this.pendingFilterKey = this.activeFilter()?.key ?? null
+	}
+
+	private activeFilter(): RotationFilter | null {
+		const filter = this.rotationFilter?.() ?? null
+		if (filter && !this.tracks.some(track => filter.includes(track))) {
+			return null
+		}
+		return filter
+	}
+
+	/**
+	 * First index from nextIndex on (wrapping) whose track passes the filter
+	 */
+	private sequentialIndex(filter: RotationFilter | null): number {
+		if (!filter) return this.nextIndex
+		for (let i = 0; i < this.tracks.length; i++) {
+			const index = (this.nextIndex + i) % this.tracks.length
+			const track = this.tracks[index]
+			if (track && filter.includes(track)) return index
+		}
+		return this.nextIndex
+	}
+
 	private loadTracksFromDisk(): void {
 		if (!fs.existsSync(SONGS_DIR)) {
 			console.log('[PlaylistManager] Songs directory not found, creating...')
@@ -51,26 +156,9 @@ class PlaylistManager {
 		}
 
 		const files = fs.readdirSync(SONGS_DIR)
-		const mp3Files = files.filter(file => file.toLowerCase().endsWith('.mp3'))
-
-		this.tracks = mp3Files.map((filename, index) => {
-			// Try to get stored metadata, fallback to filename
-			const meta = metadataManager.get(filename)
-			const fallbackTitle = filename.replace(/\.mp3$/i, '').replace(/[-_]/g, ' ')
-
-			return {
-				id: String(index + 1),
-				path: `./songs/${filename}`,
-				title: meta?.title || fallbackTitle,
-				artist: meta?.artist || 'Unknown Artist',
-				album: meta?.album || undefined,
-				albumArtUrl: meta?.albumArtUrl || undefined,
-				durationMs: meta?.durationMs || undefined,
-				spotifyUrl: meta?.spotifyUrl || undefined,
-				youtubeUrl: meta?.youtubeUrl || undefined,
-				appleMusicUrl: meta?.appleMusicUrl || undefined,
-			}
-		})
+		const mp3Files = files.filter(file => file.toLowerCase().endsWith('.mp3') && this.includeFile(file))
+
+		this.tracks = mp3Files.map(trackFromFile).filter(track => track !== null)
 
 		console.log(`[PlaylistManager] Loaded ${this.tracks.length} tracks`)
 	}
@@ -85,12 +173,22 @@ class PlaylistManager {
 
 	/**
 	 * Rescan songs directory and reload tracks
-	 * Useful for manual full refresh
+	 * Useful for manual full refresh (and after metadata edits). Tracks keep
+	 * their place in the current order; new files are appended.
 	 */
 	rescan(): void {
 		console.log('[PlaylistManager] Rescanning songs directory...')
+		const order = this.tracks.map(track => path.basename(track.path))
+		const previous = this.tracks
 		this.loadTracksFromDisk()
-		this.broadcastPlaylistUpdate()
+		const onDisk = new Map(this.tracks.map(track => [path.basename(track.path), track]))
+		const inOrder = new Set(order)
+		const reordered = [
+			...order.flatMap(filename => onDisk.get(filename) ?? []),
+			...this.tracks.filter(track => !inOrder.has(path.basename(track.path))),
+		]
+		this.tracks = previous
+		this.applyOrder(reordered)
 		console.log(`[PlaylistManager] Rescan complete: ${this.tracks.length} tracks`)
 	}
 
@@ -106,23 +204,10 @@ class PlaylistManager {
 			return
 		}
 
-		// Get metadata
-		const meta = metadataManager.get(filename)
-		const fallbackTitle = filename.replace(/\.mp3$/i, '').replace(/[-_]/g, ' ')
-
-		// Create new track with next available ID
-		const maxId = this.tracks.reduce((max, t) => Math.max(max, parseInt(t.id, 10) || 0), 0)
-		const newTrack: Track = {
-			id: String(maxId + 1),
-			path: `./songs/${filename}`,
-			title: meta?.title || fallbackTitle,
-			artist: meta?.artist || 'Unknown Artist',
-			album: meta?.album || undefined,
-			albumArtUrl: meta?.albumArtUrl || undefined,
-			durationMs: meta?.durationMs || undefined,
-			spotifyUrl: meta?.spotifyUrl || undefined,
-			youtubeUrl: meta?.youtubeUrl || undefined,
-			appleMusicUrl: meta?.appleMusicUrl || undefined,
+		const newTrack = trackFromFile(filename)
+		if (!newTrack) {
+			console.log(`[PlaylistManager] Could not read track: ${filename}`)
+			return
 		}
 
 		// Add to end of playlist
@@ -176,9 +261,16 @@ class PlaylistManager {
 			this.nextIndex = 0
 		}
 
+		// Drop any queued plays of the removed track
+		const queueLength = this.queue.length
+		this.queue = this.queue.filter(entry => entry.filename !== filename)
+
 		// Save state and notify clients
 		this.saveState()
 		this.broadcastPlaylistUpdate()
+		if (this.queue.length !== queueLength) {
+			this.broadcastQueueUpdate()
+		}
 
 		// If the currently playing track was removed, trigger skip
 		if (isCurrentlyPlaying && this.onSkipCurrentTrack) {
@@ -187,6 +279,95 @@ class PlaylistManager {
 		}
 	}
 
+	/**
+	 * Move a track to `position` (0-based, clamped) in the playlist order
+	 */
+	moveTrack(filename: string, position: number): boolean {
+		const track = this.findTrack(filename)
+		if (!track) {
+			return false
+		}
+
+		const reordered = this.tracks.filter(t => t !== track)
+		reordered.splice(Math.max(0, Math.min(position, reordered.length)), 0, track)
+		this.applyOrder(reordered)
+		console.log(`[PlaylistManager] Moved ${filename} to position ${reordered.indexOf(track) + 1}`)
+		return true
+	}
+
+	/**
+	 * Replace the playlist order. `filenames` must list every track exactly once.
+	 */
+	setOrder(filenames: string[]): boolean {
+		if (filenames.length !== this.tracks.length || new Set(filenames).size !== filenames.length) {
+			return false
+		}
+
+		const reordered: Track[] = []
+		for (const filename of filenames) {
+			const track = this.findTrack(filename)
+			if (!track) return false
+			reordered.push(track)
+		}
+
+		this.applyOrder(reordered)
+		console.log(`[PlaylistManager] Playlist reordered (${reordered.length} tracks)`)
+		return true
+	}
+
+	/**
+	 * Swap in a reordered track list, keeping playingIndex on the playing track.
+	 * nextIndex follows the new order after the playing track when it was simply
+	 * "the one after current"; otherwise (e.g. after removeTrack) it stays on the
+	 * same upcoming track, as removeTrack does. Tracks are matched by file, so
+	 * the new list may hold reloaded copies of them.
+	 */
+	private applyOrder(reordered: Track[]): void {
+		const playing = this.tracks[this.playingIndex]?.path
+		const upcoming = this.tracks[this.nextIndex]?.path
+		const nextFollowsPlaying = this.nextIndex === (this.playingIndex + 1) % this.tracks.length
+
+		this.tracks = reordered
+
+		const newPlayingIndex = this.tracks.findIndex(track => track.path === playing)
+		this.playingIndex = Math.max(0, newPlayingIndex)
+		if (nextFollowsPlaying && newPlayingIndex !== -1) {
+			this.nextIndex = (newPlayingIndex + 1) % this.tracks.length
+		} else {
+			this.nextIndex = Math.max(
+				0,
+				this.tracks.findIndex(track => track.path === upcoming),
+			)
+		}
+
+		this.saveState()
+		this.broadcastPlaylistUpdate()
+	}
+
+	/**
+	 * Jump to a track immediately. It goes to the head of the queue and the
+	 * current track is skipped through the engine's normal skip path, so the
+	 * handoff re-peeks and picks it up cleanly. In sequential mode the rotation
+	 * then carries on from the jumped-to track.
+	 */
+	playNow(filename: string): boolean {
+		const track = this.findTrack(filename)
+		if (!track) {
+			return false
+		}
+
+		if (this.playbackMode === 'sequential') {
+			this.nextIndex = (this.tracks.indexOf(track) + 1) % this.tracks.length
+		}
+		this.enqueue(filename, { source: 'admin', position: 0 })
+		console.log(`[PlaylistManager] Play now: ${filename}`)
+
+		if (this.onSkipCurrentTrack) {
+			this.onSkipCurrentTrack()
+		}
+		return true
+	}
+
 	/**
 	 * Get the currently playing track (for skip detection)
 	 */
@@ -202,6 +383,8 @@ class PlaylistManager {
 			type: 'playlist',
 			tracks: this.tracks,
 			currentIndex: this.playingIndex,
+			nextIndex: this.nextIndex,
+			playbackMode: this.playbackMode,
 		}
 		const message = `data: ${JSON.stringify(data)}\n\n`
 
@@ -222,7 +405,32 @@ class PlaylistManager {
 			return undefined
 		}
 
-		return this.tracks[this.nextIndex]
+		// Queued entries take priority over the rotation
+		const queued = this.peekQueue()
+		if (queued) {
+			return queued.track
+		}
+
+		const filter = this.activeFilter()
+		if (this.playbackMode === 'sequential') {
+			return this.tracks[this.sequentialIndex(filter)]
+		}
+
+		// A pick made before a schedule slot started or ended is stale
+		const filterKey = filter?.key ?? null
+		if (this.pendingFilterKey !== filterKey) {
+			this.pendingNext = null
+		}
+
+		const pending = this.pendingNext ? this.findTrack(this.pendingNext) : undefined
+		if (pending) {
+			return pending
+		}
+
+		const selected = this.selectNext(filter)
+		this.pendingNext = selected ? path.basename(selected.path) : null
+		this.pendingFilterKey = filterKey
+		return selected
 	}
 
 	commitNextTrack(): Track | undefined {
@@ -230,11 +438,228 @@ class PlaylistManager {
 			return undefined
 		}
 
-		const track = this.tracks[this.nextIndex]
-		this.nextIndex = (this.nextIndex + 1) % this.tracks.length
+		// A queued track plays without advancing the rotation, which resumes
+		// where it left off once the queue is empty
+		const queued = this.peekQueue()
+		if (queued) {
+			this.queue = this.queue.filter(entry => entry !== queued.entry)
+			this.recordPlayed(queued.track)
+			this.saveState()
+			this.broadcastQueueUpdate()
+			return queued.track
+		}
+
+		if (this.playbackMode === 'sequential') {
+			const index = this.sequentialIndex(this.activeFilter())
+			const track = this.tracks[index]
+			this.nextIndex = (index + 1) % this.tracks.length
+			if (track) this.recordPlayed(track)
+			return track
+		}
+
+		const track = this.peekNextTrack()
+		if (!track) {
+			return undefined
+		}
+
+		const filename = path.basename(track.path)
+		this.pendingNext = null
+		this.shuffleBag = this.shuffleBag.filter(f => f !== filename)
+		this.recordPlayed(track)
+
+		// Keep nextIndex just past the committed track, so switching back to
+		// sequential continues from where the listener is now
+		const index = this.tracks.indexOf(track)
+		this.nextIndex = (index + 1) % this.tracks.length
 		return track
 	}
 
+	/**
+	 * First queue entry whose track is still in the playlist. Entries for
+	 * tracks that were removed since they were queued are dropped.
+	 */
+	private peekQueue(): { entry: QueueEntry; track: Track } | undefined {
+		while (this.queue.length > 0) {
+			const entry = this.queue[0]
+			if (!entry) break
+			const track = this.findTrack(entry.filename)
+			if (track) {
+				return { entry, track }
+			}
+			console.log(`[PlaylistManager] Dropping queued track no longer in playlist: ${entry.filename}`)
+			this.queue.shift()
+			this.saveState()
+			this.broadcastQueueUpdate()
+		}
+		return undefined
+	}
+
+	/**
+	 * Up-next entries in play order, with the track each one refers to
+	 */
+	getQueue(): (QueueEntry & { track: Track | undefined })[] {
+		return this.queue.map(entry => ({ ...entry, track: this.findTrack(entry.filename) }))
+	}
+
+	/**
+	 * Add a track to the up-next queue (at the end, or at `position`).
+	 * Returns undefined if the track isn't in this playlist.
+	 */
+	enqueue(
+		filename: string,
+		options: { source: QueueEntry['source']; sessionId?: string; position?: number },
+	): QueueEntry | undefined {
+		if (!this.findTrack(filename)) {
+			return undefined
+		}
+
+		const entry: QueueEntry = {
+			id: randomUUID(),
+			filename,
+			source: options.source,
+			sessionId: options.sessionId,
+			requestedAt: Date.now(),
+		}
+		const position = options.position ?? this.queue.length
+		this.queue.splice(Math.max(0, Math.min(position, this.queue.length)), 0, entry)
+		console.log(
+			`[PlaylistManager] Queued ${filename} at ${this.queue.indexOf(entry) + 1}/${this.queue.length}`,
+		)
+
+		this.saveState()
+		this.broadcastQueueUpdate()
+		return entry
+	}
+
+	removeFromQueue(entryId: string): boolean {
+		const before = this.queue.length
+		this.queue = this.queue.filter(entry => entry.id !== entryId)
+		if (this.queue.length === before) {
+			return false
+		}
+
+		this.saveState()
+		this.broadcastQueueUpdate()
+		return true
+	}
+
+	/**
+	 * Reorder the queue. `entryIds` must list every current entry exactly once.
+	 */
+	reorderQueue(entryIds: string[]): boolean {
+		const byId = new Map(this.queue.map(entry => [entry.id, entry]))
+		if (entryIds.length !== this.queue.length || new Set(entryIds).size !== entryIds.length) {
+			return false
+		}
+
+		const reordered: QueueEntry[] = []
+		for (const id of entryIds) {
+			const entry = byId.get(id)
+			if (!entry) return false
+			reordered.push(entry)
+		}
+
+		this.queue = reordered
+		this.saveState()
+		this.broadcastQueueUpdate()
+		return true
+	}
+
+	private broadcastQueueUpdate(): void {
+		this.broadcastEvent({ type: 'queue', queue: this.getQueue() })
+	}
+
+	/**
+	 * Tell playlist clients what just finished (see playHistory.ts)
+	 */
+	notifyRecentlyPlayed(history: PlayHistoryEntry[]): void {
+		this.broadcastEvent({ type: 'recentlyPlayed', history })
+	}
+
+	/**
+	 * Write one SSE event to every playlist client
+	 */
+	private broadcastEvent(data: object): void {
+		const message = `data: ${JSON.stringify(data)}\n\n`
+
+		for (const client of this.sseClients) {
+			try {
+				if (!client.writableEnded) {
+					client.write(message)
+				} else {
+					this.sseClients.delete(client)
+				}
+			} catch (err) {
+				console.error('[PlaylistManager SSE] Broadcast error:', err)
+				this.sseClients.delete(client)
+			}
+		}
+	}
+
+	private findTrack(filename: string): Track | undefined {
+		return this.tracks.find(t => path.basename(t.path) === filename)
+	}
+
+	private recordPlayed(track: Track): void {
+		const filename = path.basename(track.path)
+		this.recentlyPlayed = [filename, ...this.recentlyPlayed.filter(f => f !== filename)].slice(
+			0,
+			MAX_SMART_WINDOW,
+		)
+	}
+
+	/**
+	 * Choose the next shuffle/smart track from the current shuffle pass,
+	 * starting a new pass once every track has played. With a rotation filter
+	 * only the pass's matching tracks are candidates; the rest stay in the bag.
+	 */
+	private selectNext(filter: RotationFilter | null): Track | undefined {
+		const available = new Set(this.tracks.map(t => path.basename(t.path)))
+		this.shuffleBag = this.shuffleBag.filter(f => available.has(f))
+
+		const candidates = (): Track[] =>
+			this.shuffleBag
+				.map(f => this.findTrack(f))
+				.filter((t): t is Track => !!t && (!filter || filter.includes(t)))
+
+		let bagTracks = candidates()
+		if (bagTracks.length === 0) {
+			this.shuffleBag = buildShuffleBag([...available], this.recentlyPlayed[0])
+			console.log(`[PlaylistManager] New ${this.playbackMode} pass over ${this.shuffleBag.length} tracks`)
+			bagTracks = candidates()
+		}
+
+		if (this.playbackMode === 'shuffle') {
+			return bagTracks[0]
+		}
+
+		const recent = this.recentlyPlayed.map(f => this.findTrack(f)).filter((t): t is Track => !!t)
+		return pickSmartCandidate(bagTracks, recent, this.smartWindow)
+	}
+
+	getPlaybackMode(): { mode: PlaybackMode; smartWindow: number } {
+		return { mode: this.playbackMode, smartWindow: this.smartWindow }
+	}
+
+	/**
+	 * Switch playback mode. Takes effect from the next track: the pending pick
+	 * is dropped, so the engine's boundary stale-check re-peeks under the new mode.
+	 */
+	setPlaybackMode(mode: PlaybackMode, smartWindow?: number): void {
+		if (mode !== this.playbackMode) {
+			this.shuffleBag = []
+		}
+		this.playbackMode = mode
+		if (smartWindow !== undefined) {
+			this.smartWindow = Math.max(0, Math.min(MAX_SMART_WINDOW, Math.floor(smartWindow)))
+		}
+		this.pendingNext = null
+		console.log(`[PlaylistManager] Playback mode: ${this.playbackMode} (smart window ${this.smartWindow})`)
+
+		this.saveState()
+		this.broadcastPlaylistUpdate()
+	}
+
 	addSSEClient(res: Response): void {
 		res.setHeader('Content-Type', 'text/event-stream')
 		res.setHeader('Cache-Control', 'no-cache')
@@ -249,8 +674,11 @@ class PlaylistManager {
 			type: 'playlist',
 			tracks: this.tracks,
 			currentIndex: this.playingIndex,
+			nextIndex: this.nextIndex,
+			playbackMode: this.playbackMode,
 		}
 		res.write(`data: ${JSON.stringify(data)}\n\n`)
+		res.write(`data: ${JSON.stringify({ type: 'queue', queue: this.getQueue() })}\n\n`)
 
 		// Heartbeat
 		const heartbeat = setInterval(() => {
@@ -266,6 +694,16 @@ class PlaylistManager {
 		})
 	}
 
+	/**
+	 * End every playlist SSE connection (the station is being deleted)
+	 */
+	disconnectAll(): void {
+		for (const client of this.sseClients) {
+			client.end()
+		}
+		this.sseClients.clear()
+	}
+
 	notifyTrackChange(track: Track): void {
 		const trackIndex = this.tracks.findIndex(t => t.id === track.id)
 		if (trackIndex !== -1) {
@@ -301,15 +739,15 @@ class PlaylistManager {
 	 */
 	private loadState(): void {
 		try {
-			if (!fs.existsSync(STATE_FILE)) {
+			if (!fs.existsSync(this.stateFile)) {
 				console.log('[PlaylistManager] No state file found, starting fresh')
 				return
 			}
 
-			const stateData = fs.readFileSync(STATE_FILE, 'utf-8')
+			const stateData = fs.readFileSync(this.stateFile, 'utf-8')
 			const state: PlaylistState = JSON.parse(stateData)
 
-			console.log('[PlaylistManager] Loading state from', STATE_FILE)
+			console.log('[PlaylistManager] Loading state from', this.stateFile)
 			this.reconcilePlaylist(state)
 		} catch (err) {
 			console.error('[PlaylistManager] Failed to load state:', err)
@@ -330,7 +768,7 @@ class PlaylistManager {
 
 	private async writeStateToDisk(): Promise<void> {
 		try {
-			const stateDir = path.dirname(STATE_FILE)
+			const stateDir = path.dirname(this.stateFile)
 			if (!fs.existsSync(stateDir)) {
 				fs.mkdirSync(stateDir, { recursive: true })
 			}
@@ -342,9 +780,14 @@ class PlaylistManager {
 				currentTrackFilename: currentTrack ? path.basename(currentTrack.path) : null,
 				currentTrackIndex: this.playingIndex,
 				lastUpdated: Date.now(),
+				playbackMode: this.playbackMode,
+				smartRotationWindow: this.smartWindow,
+				shuffleBag: this.shuffleBag,
+				recentlyPlayed: this.recentlyPlayed,
+				queue: this.queue,
 			}
 
-			await fs.promises.writeFile(STATE_FILE, JSON.stringify(state, null, 2), 'utf-8')
+			await fs.promises.writeFile(this.stateFile, JSON.stringify(state, null, 2), 'utf-8')
 			console.log('[PlaylistManager] State saved:', state.currentTrackFilename)
 		} catch (err) {
 			console.error('[PlaylistManager] Failed to save state:', err)
@@ -381,32 +824,16 @@ class PlaylistManager {
 		}
 
 		// 3. Rebuild tracks array with reconciled order
-		this.tracks = reconciledFilenames.map((filename, index) => {
-			// Try to get stored metadata, fallback to filename
-			const meta = metadataManager.get(filename)
-			const fallbackTitle = filename.replace(/\.mp3$/i, '').replace(/[-_]/g, ' ')
-
-			return {
-				id: String(index + 1),
-				path: `./songs/${filename}`,
-				title: meta?.title || fallbackTitle,
-				artist: meta?.artist || 'Unknown Artist',
-				album: meta?.album || undefined,
-				albumArtUrl: meta?.albumArtUrl || undefined,
-				durationMs: meta?.durationMs || undefined,
-				spotifyUrl: meta?.spotifyUrl || undefined,
-				youtubeUrl: meta?.youtubeUrl || undefined,
-				appleMusicUrl: meta?.appleMusicUrl || undefined,
-			}
-		})
+		this.tracks = reconciledFilenames.map(trackFromFile).filter(track => track !== null)
 
-		// 4. Find current track index
-		if (state.currentTrackFilename) {
-			const resumeIndex = reconciledFilenames.indexOf(state.currentTrackFilename)
+		// 4. Find current track index, among the tracks that could be read
+		const resumeFilename = state.currentTrackFilename
+		if (resumeFilename) {
+			const resumeIndex = this.tracks.findIndex(track => path.basename(track.path) === resumeFilename)
 			if (resumeIndex !== -1) {
 				this.nextIndex = resumeIndex
 				this.playingIndex = resumeIndex
-				console.log(`[PlaylistManager] Resuming from: ${state.currentTrackFilename} (index ${resumeIndex})`)
+				console.log(`[PlaylistManager] Resuming from: ${resumeFilename} (index ${resumeIndex})`)
 			} else {
 				console.log('[PlaylistManager] Current track not found, starting from beginning')
 				this.nextIndex = 0
@@ -414,8 +841,24 @@ class PlaylistManager {
 			}
 		}
 
+		// 5. Restore playback mode. Filenames that vanished are filtered lazily
+		// when the next pick is made.
+		if (state.playbackMode && PLAYBACK_MODES.includes(state.playbackMode)) {
+			this.playbackMode = state.playbackMode
+		}
+		if (typeof state.smartRotationWindow === 'number') {
+			this.smartWindow = state.smartRotationWindow
+		}
+		this.shuffleBag = state.shuffleBag ?? []
+		this.recentlyPlayed = state.recentlyPlayed ?? []
+		this.queue = state.queue ?? []
+		// Like sequential mode, resume by replaying the interrupted track first
+		if (resumeFilename && this.findTrack(resumeFilename)) {
+			this.pendingNext = resumeFilename
+		}
+
 		console.log(`[PlaylistManager] Reconciliation complete: ${this.tracks.length} tracks`)
 	}
 }
 
-export const playlistManager = new PlaylistManager()
+export { PlaylistManager }
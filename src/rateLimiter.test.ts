@@ -0,0 +1,25 @@
+import { describe, expect, test } from 'bun:test'
+import { RateLimiter } from './rateLimiter'
+
+describe('RateLimiter', () => {
+	test('allows `limit` hits per window and refills as the oldest expire', () => {
+		const limiter = new RateLimiter(2, 1000)
+		expect(limiter.tryConsume('1.2.3.4', 0)).toBe(true)
+		expect(limiter.tryConsume('1.2.3.4', 400)).toBe(true)
+		expect(limiter.tryConsume('1.2.3.4', 500)).toBe(false)
+
+		// The rejected hit isn't recorded, so the first one still sets the wait
+		expect(limiter.retryAfterMs('1.2.3.4', 500)).toBe(500)
+		expect(limiter.tryConsume('1.2.3.4', 1000)).toBe(true)
+		expect(limiter.retryAfterMs('1.2.3.4', 1000)).toBe(400)
+		expect(limiter.retryAfterMs('1.2.3.4', 1400)).toBe(0)
+	})
+
+	test('limits each key on its own', () => {
+		const limiter = new RateLimiter(1, 1000)
+		expect(limiter.tryConsume('a', 0)).toBe(true)
+		expect(limiter.tryConsume('a', 10)).toBe(false)
+		expect(limiter.tryConsume('b', 10)).toBe(true)
+		expect(limiter.retryAfterMs('c', 10)).toBe(0)
+	})
+})
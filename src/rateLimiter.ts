@@ -0,0 +1,55 @@
+/**
+ * Sliding-window rate limiter keyed by an arbitrary string (session id, IP…).
+ * In-memory only: limits reset on restart, which is fine for abuse throttling.
+ */
+class RateLimiter {
+	private hits: Map<string, number[]> = new Map()
+	private readonly limit: number
+	private readonly windowMs: number
+
+	constructor(limit: number, windowMs: number) {
+		this.limit = limit
+		this.windowMs = windowMs
+	}
+
+	/**
+	 * Record a hit for `key` if it is under the limit.
+	 * Returns false (and records nothing) when the key is rate limited.
+	 */
+	tryConsume(key: string, now: number = Date.now()): boolean {
+		const recent = this.recentHits(key, now)
+		if (recent.length >= this.limit) {
+			return false
+		}
+		recent.push(now)
+		this.hits.set(key, recent)
+		this.sweep(now)
+		return true
+	}
+
+	/**
+	 * Milliseconds until `key` may hit again (0 when it isn't limited)
+	 */
+	retryAfterMs(key: string, now: number = Date.now()): number {
+		const recent = this.recentHits(key, now)
+		if (recent.length < this.limit) return 0
+		const oldest = recent[0] ?? now
+		return Math.max(0, oldest + this.windowMs - now)
+	}
+
+	private recentHits(key: string, now: number): number[] {
+		return (this.hits.get(key) ?? []).filter(ts => now - ts < this.windowMs)
+	}
+
+	// Drop keys whose hits have all expired so the map can't grow without bound
+	private sweep(now: number): void {
+		if (this.hits.size < 1000) return
+		for (const [key, timestamps] of this.hits) {
+			if (timestamps.every(ts => now - ts >= this.windowMs)) {
+				this.hits.delete(key)
+			}
+		}
+	}
+}
+
+export { RateLimiter }
@@ -0,0 +1,62 @@
+import { Database } from 'bun:sqlite'
+import { afterAll, describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { ReactionStore } from './reactions'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reactions-test-'))
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }))
+
+describe('ReactionStore', () => {
+	test('one vote per session per track, which can change or be taken back', () => {
+		const store = new ReactionStore(':memory:')
+		expect(store.react('rain', 'a', 'like', 'default')).toEqual({ likes: 1, dislikes: 0 })
+		expect(store.react('rain', 'a', 'like', 'default')).toEqual({ likes: 1, dislikes: 0 })
+		expect(store.react('rain', 'b', 'like', 'study')).toEqual({ likes: 2, dislikes: 0 })
+		expect(store.react('rain', 'a', 'dislike', 'default')).toEqual({ likes: 1, dislikes: 1 })
+		expect(store.getReaction('rain', 'a')).toBe('dislike')
+
+		expect(store.react('rain', 'a', null, 'default')).toEqual({ likes: 1, dislikes: 0 })
+		expect(store.getReaction('rain', 'a')).toBeNull()
+		expect(store.getCounts('other')).toEqual({ likes: 0, dislikes: 0 })
+	})
+
+	test('ranks the most disliked or liked tracks with enough votes', () => {
+		const store = new ReactionStore(':memory:')
+		for (const sid of ['a', 'b', 'c']) store.react('bad', sid, 'dislike', 'default')
+		store.react('meh', 'a', 'dislike', 'default')
+		store.react('good', 'a', 'like', 'default')
+		store.react('good', 'b', 'like', 'default')
+		store.react('elsewhere', 'a', 'dislike', 'default')
+
+		const library = ['bad', 'meh', 'good', 'unheard']
+		expect(store.rank(library, 'disliked', 1, 10).map(t => t.trackId)).toEqual(['bad', 'meh', 'good'])
+		expect(store.rank(library, 'liked', 2, 10)).toEqual([
+			{ trackId: 'good', likes: 2, dislikes: 0, score: 2 },
+			{ trackId: 'bad', likes: 0, dislikes: 3, score: -3 },
+		])
+
+		store.forget('bad')
+		expect(store.rank(library, 'disliked', 1, 1).map(t => t.trackId)).toEqual(['meh'])
+	})
+	test('re-keys votes saved by filename to track ids', () => {
+		const dbPath = path.join(tmpDir, 'legacy.sqlite')
+		const legacy = new Database(dbPath, { create: true })
+		legacy.exec(`CREATE TABLE reactions (
+			filename TEXT NOT NULL, session_id TEXT NOT NULL, station_id TEXT NOT NULL,
+			reaction TEXT NOT NULL, reacted_at INTEGER NOT NULL, PRIMARY KEY (filename, session_id))`)
+		const vote = legacy.prepare('INSERT INTO reactions VALUES (?, ?, ?, ?, 0)')
+		vote.run('rain.mp3', 'a', 'default', 'like')
+		vote.run('rain copy.mp3', 'a', 'default', 'dislike')
+		vote.run('rain copy.mp3', 'b', 'default', 'like')
+		vote.run('gone.mp3', 'a', 'default', 'like')
+		legacy.close()
+
+		const ids: Record<string, string> = { 'rain.mp3': 'f00d', 'rain copy.mp3': 'f00d' }
+		const store = new ReactionStore(dbPath, filename => ids[filename] ?? null)
+		expect(store.getCounts('f00d')).toEqual({ likes: 1, dislikes: 1 })
+		expect(store.getReaction('f00d', 'a')).toBe('dislike')
+		expect(store.rank(['f00d', 'gone.mp3'], 'liked', 1, 10).map(t => t.trackId)).toEqual(['f00d'])
+	})
+})
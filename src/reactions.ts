@@ -0,0 +1,171 @@
+/**
+ * REACTIONS
+ * =========
+ * Listener likes and dislikes, stored in SQLite (`.radio-state/reactions.sqlite`).
+ *
+ * Votes are keyed by track id, so a song shared by several stations collects
+ * one set of counts (kept when the file is renamed), and by listener session
+ * id: one vote per session per track, which the session can change or take
+ * back. Counts are cached in memory for `/api/tracks` and the now-playing
+ * payload.
+ */
+
+import { Database } from 'bun:sqlite'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { ReactionCounts } from './types'
+
+export type Reaction = 'like' | 'dislike'
+
+export interface TrackReactions extends ReactionCounts {
+	trackId: string
+	score: number // likes - dislikes
+}
+
+export type ReactionRankOrder = 'liked' | 'disliked'
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS reactions (
+	track_id TEXT NOT NULL,
+	session_id TEXT NOT NULL,
+	station_id TEXT NOT NULL,
+	reaction TEXT NOT NULL,
+	reacted_at INTEGER NOT NULL,
+	PRIMARY KEY (track_id, session_id)
+);
+`
+
+export function isReaction(value: unknown): value is Reaction {
+	return value === 'like' || value === 'dislike'
+}
+
+class ReactionStore {
+	private readonly db: Database
+	private counts: Map<string, ReactionCounts> = new Map() // track id -> counts
+
+	/**
+	 * @param dbPath - SQLite file, or ':memory:'
+	 * @param trackIdFor - Id of a song file, for votes saved by filename
+	 */
+	constructor(dbPath: string, trackIdFor?: (filename: string) => string | null) {
+		if (dbPath !== ':memory:') {
+			fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+		}
+		this.db = new Database(dbPath, { create: true })
+		this.db.exec('PRAGMA journal_mode = WAL')
+		this.migrateFilenames(trackIdFor)
+		this.db.exec(SCHEMA)
+		this.loadCounts()
+	}
+
+	/**
+	 * Votes used to be keyed by filename: re-key them by track id, dropping
+	 * votes for files that are gone. A session that voted on two files with
+	 * the same audio keeps its vote on the first by name.
+	 */
+	private migrateFilenames(trackIdFor?: (filename: string) => string | null): void {
+		const columns = this.db.query<{ name: string }, []>('PRAGMA table_info(reactions)').all()
+		if (!columns.some(column => column.name === 'filename')) return
+
+		const filenames = this.db
+			.query<{ filename: string }, []>('SELECT DISTINCT filename FROM reactions ORDER BY filename')
+			.all()
+			.map(row => row.filename)
+		this.db.transaction(() => {
+			for (const filename of filenames) {
+				const trackId = trackIdFor?.(filename) ?? null
+				if (trackId) {
+					this.db.run('UPDATE OR IGNORE reactions SET filename = ? WHERE filename = ?', [trackId, filename])
+				}
+				this.db.run('DELETE FROM reactions WHERE filename = ?', [filename])
+			}
+			this.db.exec('ALTER TABLE reactions RENAME COLUMN filename TO track_id')
+		})()
+		console.log(`[Reactions] Re-keyed votes for ${filenames.length} files by track id`)
+	}
+
+	private loadCounts(): void {
+		const rows = this.db
+			.query<{ trackId: string; likes: number; dislikes: number }, []>(
+				`SELECT track_id AS trackId,
+					SUM(reaction = 'like') AS likes,
+					SUM(reaction = 'dislike') AS dislikes
+				FROM reactions GROUP BY track_id`,
+			)
+			.all()
+		this.counts = new Map(rows.map(row => [row.trackId, { likes: row.likes, dislikes: row.dislikes }]))
+	}
+
+	/**
+	 * Set (or with null, take back) a session's vote on a track. Returns the
+	 * track's new counts.
+	 */
+	react(
+		trackId: string,
+		sessionId: string,
+		reaction: Reaction | null,
+		stationId: string,
+		now: number = Date.now(),
+	): ReactionCounts {
+		const previous = this.getReaction(trackId, sessionId)
+		if (previous === reaction) return this.getCounts(trackId)
+
+		if (reaction) {
+			this.db.run(
+				`INSERT INTO reactions (track_id, session_id, station_id, reaction, reacted_at) VALUES (?, ?, ?, ?, ?)
+				ON CONFLICT (track_id, session_id) DO UPDATE SET
+					station_id = excluded.station_id, reaction = excluded.reaction, reacted_at = excluded.reacted_at`,
+				[trackId, sessionId, stationId, reaction, now],
+			)
+		} else {
+			this.db.run('DELETE FROM reactions WHERE track_id = ? AND session_id = ?', [trackId, sessionId])
+		}
+
+		const counts = { ...this.getCounts(trackId) }
+		if (previous === 'like') counts.likes--
+		if (previous === 'dislike') counts.dislikes--
+		if (reaction === 'like') counts.likes++
+		if (reaction === 'dislike') counts.dislikes++
+		this.counts.set(trackId, counts)
+		return counts
+	}
+
+	getReaction(trackId: string, sessionId: string): Reaction | null {
+		const row = this.db
+			.query<{ reaction: string }, [string, string]>(
+				'SELECT reaction FROM reactions WHERE track_id = ? AND session_id = ?',
+			)
+			.get(trackId, sessionId)
+		return row && isReaction(row.reaction) ? row.reaction : null
+	}
+
+	getCounts(trackId: string): ReactionCounts {
+		return this.counts.get(trackId) ?? { likes: 0, dislikes: 0 }
+	}
+
+	/**
+	 * Tracks among `trackIds` with at least `minVotes` votes, most liked (or
+	 * most disliked) first
+	 */
+	rank(trackIds: string[], order: ReactionRankOrder, minVotes: number, limit: number): TrackReactions[] {
+		const direction = order === 'liked' ? 1 : -1
+		return trackIds
+			.map(trackId => {
+				const { likes, dislikes } = this.getCounts(trackId)
+				return { trackId, likes, dislikes, score: likes - dislikes }
+			})
+			.filter(track => track.likes + track.dislikes >= Math.max(1, minVotes))
+			.sort((a, b) => direction * (b.score - a.score) || b.likes + b.dislikes - (a.likes + a.dislikes))
+			.slice(0, limit)
+	}
+
+	/**
+	 * Drop a deleted track's votes
+	 */
+	forget(trackId: string): void {
+		this.db.run('DELETE FROM reactions WHERE track_id = ?', [trackId])
+		this.counts.delete(trackId)
+	}
+}
+
+export { ReactionStore }
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test'
+import { buildShuffleBag, pickSmartCandidate, shuffled } from './rotation'
+import type { Track } from './types'
+
+// Deterministic PRNG (mulberry32) so shuffles are reproducible
+function seeded(seed: number): () => number {
+	let a = seed
+	return () => {
+		a = (a + 0x6d2b79f5) | 0
+		let t = Math.imul(a ^ (a >>> 15), 1 | a)
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+	}
+}
+
+function track(name: string, artist: string, album?: string): Track {
+	return { id: name, path: `./songs/${name}.mp3`, title: name, artist, album }
+}
+
+describe('shuffled', () => {
+	test('is a permutation and leaves the input untouched', () => {
+		const input = ['a', 'b', 'c', 'd', 'e']
+		const result = shuffled(input, seeded(1))
+		expect(result).toHaveLength(input.length)
+		expect([...result].sort()).toEqual(input)
+		expect(input).toEqual(['a', 'b', 'c', 'd', 'e'])
+	})
+})
+
+describe('buildShuffleBag', () => {
+	test('never opens a new pass with the track that just played', () => {
+		const files = ['a', 'b', 'c']
+		for (let seed = 0; seed < 50; seed++) {
+			const bag = buildShuffleBag(files, 'a', seeded(seed))
+			expect(bag[0]).not.toBe('a')
+			expect([...bag].sort()).toEqual(files)
+		}
+	})
+
+	test('a single-track library still plays', () => {
+		expect(buildShuffleBag(['a'], 'a')).toEqual(['a'])
+	})
+})
+
+describe('pickSmartCandidate', () => {
+	const a1 = track('a1', 'Artist A', 'Album 1')
+	const a2 = track('a2', 'Artist A', 'Album 2')
+	const b1 = track('b1', 'Artist B', 'Album 1')
+	const c1 = track('c1', 'Artist C', 'Album 3')
+
+	test('skips candidates sharing an artist or album with recent tracks', () => {
+		expect(pickSmartCandidate([a2, b1, c1], [a1], 3)).toBe(c1)
+	})
+
+	test('only the most recent `window` tracks block', () => {
+		// a1 is outside a window of 1, so a2 is allowed again
+		expect(pickSmartCandidate([a2, c1], [c1, a1], 1)).toBe(a2)
+	})
+
+	test('narrows the window rather than stalling when everything clashes', () => {
+		expect(pickSmartCandidate([a2], [a1], 5)).toBe(a2)
+	})
+
+	test('unknown artists are not treated as the same artist', () => {
+		const x = track('x', 'Unknown Artist')
+		const y = track('y', 'Unknown Artist')
+		expect(pickSmartCandidate([y], [x], 5)).toBe(y)
+	})
+
+	test('returns undefined when there are no candidates', () => {
+		expect(pickSmartCandidate([], [a1], 5)).toBeUndefined()
+	})
+})
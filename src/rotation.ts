@@ -0,0 +1,90 @@
+/**
+ * ROTATION
+ * ========
+ * Pure selection helpers behind PlaylistManager's playback modes. Kept free of
+ * disk and SSE concerns so the choices are easy to reason about (and test).
+ *
+ * - `shuffle`: every track plays once per pass, in an order reshuffled at the
+ *   start of each pass (a "shuffle bag").
+ * - `smart`: walks the same shuffle bag, but prefers the first entry whose
+ *   artist/album hasn't been heard within the last `window` tracks.
+ */
+
+import type { Track } from './types'
+
+// Placeholder artist from the metadata fallback; never treated as a repeat
+const UNKNOWN_ARTIST = 'Unknown Artist'
+
+/**
+ * Fisher–Yates shuffle into a new array. `random` is injectable for tests.
+ */
+export function shuffled<T>(items: readonly T[], random: () => number = Math.random): T[] {
+	const result = [...items]
+	for (let i = result.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1))
+		const a = result[i]
+		const b = result[j]
+		if (a !== undefined && b !== undefined) {
+			result[i] = b
+			result[j] = a
+		}
+	}
+	return result
+}
+
+/**
+ * Build a fresh shuffle pass. When possible the pass doesn't open with
+ * `lastPlayed`, so a reshuffle can't repeat the track that just ended.
+ */
+export function buildShuffleBag(
+	filenames: readonly string[],
+	lastPlayed: string | undefined,
+	random: () => number = Math.random,
+): string[] {
+	const bag = shuffled(filenames, random)
+	const first = bag[0]
+	if (bag.length > 1 && first !== undefined && first === lastPlayed) {
+		const swapWith = 1 + Math.floor(random() * (bag.length - 1))
+		const other = bag[swapWith]
+		if (other !== undefined) {
+			bag[0] = other
+			bag[swapWith] = first
+		}
+	}
+	return bag
+}
+
+function sameArtist(a: Track, b: Track): boolean {
+	return a.artist !== UNKNOWN_ARTIST && a.artist.toLowerCase() === b.artist.toLowerCase()
+}
+
+function sameAlbum(a: Track, b: Track): boolean {
+	return !!a.album && !!b.album && a.album.toLowerCase() === b.album.toLowerCase()
+}
+
+/**
+ * Pick the smart-rotation candidate: the first track in `candidates` (bag
+ * order) that doesn't share an artist or album with any of the `window` most
+ * recently played tracks (`recent`, most recent first). If every candidate
+ * clashes, the window is narrowed one track at a time until one fits, so a
+ * small or single-artist library still plays. Returns undefined only when
+ * `candidates` is empty.
+ */
+export function pickSmartCandidate(
+	candidates: readonly Track[],
+	recent: readonly Track[],
+	window: number,
+): Track | undefined {
+	for (let size = Math.min(window, recent.length); size >= 0; size--) {
+		const blocking = recent.slice(0, size)
+		const pick = candidates.find(
+			candidate =>
+				!blocking.some(
+					played =>
+						played.path === candidate.path || sameArtist(candidate, played) || sameAlbum(candidate, played),
+				),
+		)
+		if (pick) return pick
+	}
+	return undefined
+}
@@ -0,0 +1,137 @@
+import { describe, expect, test } from 'bun:test'
+import {
+	activeOccurrence,
+	normalizeTags,
+	occurrencesBetween,
+	parseClock,
+	poolIncludes,
+	validateSchedule,
+	zonedTimeToUtc,
+} from './scheduler'
+import type { ScheduleConfig } from './types'
+
+const HOUR = 60 * 60 * 1000
+
+const pools = [
+	{ id: 'coffee', name: 'Coffee', tags: ['upbeat'], tracks: [] },
+	{ id: 'mellow', name: 'Mellow', tags: ['mellow'], tracks: ['rain.mp3'] },
+]
+
+function schedule(timezone: string, slots: ScheduleConfig['slots']): ScheduleConfig {
+	return { timezone, pools, slots }
+}
+
+describe('parseClock', () => {
+	test('accepts HH:MM up to 24:00', () => {
+		expect(parseClock('00:00')).toBe(0)
+		expect(parseClock('07:30')).toBe(450)
+		expect(parseClock('24:00')).toBe(1440)
+		expect(parseClock('24:01')).toBeNull()
+		expect(parseClock('7:30')).toBeNull()
+		expect(parseClock('12:60')).toBeNull()
+	})
+})
+
+describe('zonedTimeToUtc', () => {
+	test('converts wall-clock time across DST changes', () => {
+		// Berlin: UTC+1 in winter, UTC+2 after 31 March 2024
+		expect(zonedTimeToUtc(2024, 1, 15, 7 * 60, 'Europe/Berlin')).toBe(Date.UTC(2024, 0, 15, 6))
+		expect(zonedTimeToUtc(2024, 4, 2, 7 * 60, 'Europe/Berlin')).toBe(Date.UTC(2024, 3, 2, 5))
+		expect(zonedTimeToUtc(2024, 7, 1, 0, 'UTC')).toBe(Date.UTC(2024, 6, 1))
+	})
+})
+
+describe('occurrencesBetween', () => {
+	test('a slot ending before it starts runs past midnight', () => {
+		// Friday 2024-05-03, 23:00 until Saturday 02:00
+		const config = schedule('UTC', [
+			{ id: 'late', name: 'Late Night', poolId: 'mellow', days: [5], start: '23:00', end: '02:00' },
+		])
+		const saturday = Date.UTC(2024, 4, 4, 1)
+		expect(activeOccurrence(config, saturday)).toMatchObject({
+			slotId: 'late',
+			poolName: 'Mellow',
+			startsAt: Date.UTC(2024, 4, 3, 23),
+			endsAt: Date.UTC(2024, 4, 4, 2),
+		})
+		expect(activeOccurrence(config, Date.UTC(2024, 4, 4, 2))).toBeNull()
+	})
+
+	test('lists a week of occurrences in the schedule timezone', () => {
+		const config = schedule('America/New_York', [
+			{
+				id: 'morning',
+				name: 'Morning Coffee',
+				poolId: 'coffee',
+				days: [1, 2, 3, 4, 5],
+				start: '07:00',
+				end: '10:00',
+			},
+		])
+		const from = Date.UTC(2024, 4, 5) // Sunday
+		const week = occurrencesBetween(config, from, from + 7 * 24 * HOUR)
+		expect(week).toHaveLength(5)
+		// 07:00 EDT is 11:00 UTC
+		expect(week[0]?.startsAt).toBe(Date.UTC(2024, 4, 6, 11))
+		expect(week[0]?.endsAt).toBe(Date.UTC(2024, 4, 6, 14))
+	})
+
+	test('the earlier slot wins where slots overlap', () => {
+		const config = schedule('UTC', [
+			{ id: 'special', name: 'Special', poolId: 'mellow', days: [3], start: '08:00', end: '09:00' },
+			{ id: 'morning', name: 'Morning', poolId: 'coffee', days: [3], start: '07:00', end: '10:00' },
+		])
+		const wednesday = Date.UTC(2024, 4, 8)
+		expect(activeOccurrence(config, wednesday + 7.5 * HOUR)?.slotId).toBe('morning')
+		expect(activeOccurrence(config, wednesday + 8.5 * HOUR)?.slotId).toBe('special')
+		expect(activeOccurrence(config, wednesday + 11 * HOUR)).toBeNull()
+	})
+})
+
+describe('poolIncludes', () => {
+	test('matches by tag or by filename', () => {
+		const mellow = pools[1]
+		if (!mellow) throw new Error('missing pool')
+		expect(
+			poolIncludes(mellow, { id: '1', path: './songs/a.mp3', title: 'A', artist: 'X', tags: ['mellow'] }),
+		).toBe(true)
+		expect(poolIncludes(mellow, { id: '2', path: './songs/rain.mp3', title: 'Rain', artist: 'X' })).toBe(true)
+		expect(
+			poolIncludes(mellow, { id: '3', path: './songs/b.mp3', title: 'B', artist: 'X', tags: ['upbeat'] }),
+		).toBe(false)
+	})
+})
+
+describe('validateSchedule', () => {
+	test('normalizes a valid schedule', () => {
+		const result = validateSchedule({
+			timezone: 'Europe/Berlin',
+			pools: [{ id: 'mellow', tags: [' Mellow ', 'mellow', 'Chill'] }],
+			slots: [{ id: 'late', poolId: 'mellow', days: [6, 5, 5], start: '23:00', end: '02:00' }],
+		})
+		expect(result).toEqual({
+			config: {
+				timezone: 'Europe/Berlin',
+				pools: [{ id: 'mellow', name: 'mellow', tags: ['mellow', 'chill'], tracks: [] }],
+				slots: [{ id: 'late', name: 'late', poolId: 'mellow', days: [5, 6], start: '23:00', end: '02:00' }],
+			},
+		})
+	})
+
+	test('rejects bad timezones, unknown pools and malformed times', () => {
+		const pool = { id: 'p', tags: ['x'] }
+		const slot = { id: 's', poolId: 'p', days: [1], start: '07:00', end: '08:00' }
+		expect(validateSchedule({ timezone: 'Mars/Olympus', pools: [], slots: [] })).toHaveProperty('error')
+		expect(validateSchedule({ pools: [pool], slots: [{ ...slot, poolId: 'q' }] })).toHaveProperty('error')
+		expect(validateSchedule({ pools: [pool], slots: [{ ...slot, start: '7am' }] })).toHaveProperty('error')
+		expect(validateSchedule({ pools: [pool], slots: [{ ...slot, days: [7] }] })).toHaveProperty('error')
+		expect(validateSchedule({ pools: [pool, pool], slots: [] })).toHaveProperty('error')
+		expect(validateSchedule({ pools: [{ id: 'empty' }], slots: [] })).toHaveProperty('error')
+	})
+})
+
+describe('normalizeTags', () => {
+	test('trims, lowercases and de-duplicates', () => {
+		expect(normalizeTags([' Chill', 'chill', '', 'Night Drive'])).toEqual(['chill', 'night drive'])
+	})
+})
@@ -0,0 +1,337 @@
+/**
+ * SCHEDULER
+ * =========
+ * Time-of-day programming for a station: named pools of tracks (by tag or by
+ * filename) and a weekly schedule, in a fixed timezone, of which pool plays
+ * when — e.g. a "Morning Coffee" block at 07:00 and mellow tracks after 23:00.
+ * Outside every slot the station plays its whole rotation.
+ *
+ * The scheduler doesn't drive the engine. PlaylistManager asks it for the
+ * active pool each time it picks a next track, so a slot that begins
+ * mid-track takes over at the next track boundary (the engine re-peeks there
+ * and drops a preload picked under the old slot).
+ *
+ * Each station keeps its schedule in `schedule.json`, next to `state.json`.
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { RotationFilter } from './playlistManager'
+import type { ScheduleConfig, SchedulePool, ScheduleSlot, Track } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/
+const CLOCK_PATTERN = /^(\d{2}):(\d{2})$/
+
+export const DEFAULT_TIMEZONE = 'UTC'
+
+/**
+ * One concrete occurrence of a slot
+ */
+export interface ScheduleOccurrence {
+	slotId: string
+	name: string
+	poolId: string
+	poolName: string
+	startsAt: number
+	endsAt: number
+}
+
+export function emptySchedule(): ScheduleConfig {
+	return { timezone: DEFAULT_TIMEZONE, pools: [], slots: [] }
+}
+
+/**
+ * Trimmed, lowercased, de-duplicated tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+	return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(tag => tag !== ''))]
+}
+
+/**
+ * Minutes since midnight for "HH:MM" (00:00-24:00), or null if malformed
+ */
+export function parseClock(value: string): number | null {
+	const match = CLOCK_PATTERN.exec(value)
+	if (!match) return null
+	const hours = Number(match[1])
+	const minutes = Number(match[2])
+	if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) return null
+	return hours * 60 + minutes
+}
+
+export function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+		return true
+	} catch {
+		return false
+	}
+}
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map()
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+	let formatter = formatters.get(timezone)
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric',
+		})
+		formatters.set(timezone, formatter)
+	}
+	return formatter
+}
+
+/**
+ * Wall-clock date and time in `timezone` at instant `at`
+ */
+export function zonedParts(
+	at: number,
+	timezone: string,
+): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+	const parts: Record<string, number> = {}
+	for (const part of formatterFor(timezone).formatToParts(new Date(at))) {
+		if (part.type !== 'literal') parts[part.type] = Number(part.value)
+	}
+	return {
+		year: parts.year ?? 1970,
+		month: parts.month ?? 1,
+		day: parts.day ?? 1,
+		hour: parts.hour ?? 0,
+		minute: parts.minute ?? 0,
+		second: parts.second ?? 0,
+	}
+}
+
+// How far `timezone` is ahead of UTC at instant `at`
+function offsetMs(at: number, timezone: string): number {
+	const p = zonedParts(at, timezone)
+	return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - (at - (at % 1000))
+}
+
+/**
+ * The instant a wall-clock time occurs in `timezone`. `day` may overflow the
+ * month (Date.UTC normalizes it). In a DST gap this lands just after the jump.
+ */
+export function zonedTimeToUtc(
+	year: number,
+	month: number,
+	day: number,
+	minutes: number,
+	timezone: string,
+): number {
+	const asUtc = Date.UTC(year, month - 1, day, 0, minutes)
+	const first = asUtc - offsetMs(asUtc, timezone)
+	const second = asUtc - offsetMs(first, timezone)
+	return second
+}
+
+/**
+ * Every slot occurrence overlapping [from, to), by start time then slot order
+ */
+export function occurrencesBetween(config: ScheduleConfig, from: number, to: number): ScheduleOccurrence[] {
+	const pools = new Map(config.pools.map(pool => [pool.id, pool]))
+	const today = zonedParts(from, config.timezone)
+	const days = Math.ceil((to - from) / DAY_MS)
+	const found: (ScheduleOccurrence & { order: number })[] = []
+
+	// Start a day early for slots that began yesterday and run past midnight
+	for (let offset = -1; offset <= days; offset++) {
+		const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset))
+		const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()]
+		const weekday = date.getUTCDay()
+
+		config.slots.forEach((slot, order) => {
+			if (!slot.days.includes(weekday)) return
+			const start = parseClock(slot.start)
+			const end = parseClock(slot.end)
+			const pool = pools.get(slot.poolId)
+			if (start === null || end === null || !pool) return
+
+			const startsAt = zonedTimeToUtc(year, month, day, start, config.timezone)
+			const endsAt = zonedTimeToUtc(year, month, end > start ? day : day + 1, end, config.timezone)
+			if (endsAt > from && startsAt < to) {
+				found.push({
+					slotId: slot.id,
+					name: slot.name,
+					poolId: pool.id,
+					poolName: pool.name,
+					startsAt,
+					endsAt,
+					order,
+				})
+			}
+		})
+	}
+
+	return found
+		.sort((a, b) => a.startsAt - b.startsAt || a.order - b.order)
+		.map(({ order: _order, ...occurrence }) => occurrence)
+}
+
+/**
+ * The occurrence in effect at `at` (the earliest-defined slot if several overlap)
+ */
+export function activeOccurrence(config: ScheduleConfig, at: number): ScheduleOccurrence | null {
+	const order = new Map(config.slots.map((slot, index) => [slot.id, index]))
+	const active = occurrencesBetween(config, at, at + 1).filter(o => o.startsAt <= at && at < o.endsAt)
+	active.sort((a, b) => (order.get(a.slotId) ?? 0) - (order.get(b.slotId) ?? 0))
+	return active[0] ?? null
+}
+
+/**
+ * Whether a track belongs to a pool
+ */
+export function poolIncludes(pool: SchedulePool, track: Track): boolean {
+	if (pool.tracks.includes(path.basename(track.path))) return true
+	return !!track.tags && track.tags.some(tag => pool.tags.includes(tag))
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+	Array.isArray(value) && value.every(item => typeof item === 'string')
+
+/**
+ * Validate an admin-supplied schedule. Returns the normalized config, or an
+ * error message naming the first problem.
+ */
+export function validateSchedule(input: unknown): { config: ScheduleConfig } | { error: string } {
+	if (typeof input !== 'object' || input === null) return { error: 'Schedule must be an object' }
+	const { timezone = DEFAULT_TIMEZONE, pools = [], slots = [] } = input as Record<string, unknown>
+
+	if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+		return { error: `Unknown timezone: ${String(timezone)}` }
+	}
+	if (!Array.isArray(pools) || !Array.isArray(slots)) return { error: 'pools and slots must be arrays' }
+
+	const config: ScheduleConfig = { timezone, pools: [], slots: [] }
+	for (const pool of pools) {
+		const { id, name, tags = [], tracks = [] } = (pool ?? {}) as Record<string, unknown>
+		if (typeof id !== 'string' || !ID_PATTERN.test(id)) return { error: `Invalid pool id: ${String(id)}` }
+		if (config.pools.some(p => p.id === id)) return { error: `Duplicate pool id: ${id}` }
+		if (!isStringArray(tags) || !isStringArray(tracks)) {
+			return { error: `Pool ${id}: tags and tracks must be string arrays` }
+		}
+		if (tags.length === 0 && tracks.length === 0) return { error: `Pool ${id} needs tags or tracks` }
+		config.pools.push({
+			id,
+			name: typeof name === 'string' && name.trim() ? name.trim() : id,
+			tags: normalizeTags(tags),
+			tracks: tracks.filter(filename => path.basename(filename) === filename),
+		})
+	}
+
+	for (const slot of slots) {
+		const { id, name, poolId, days, start, end } = (slot ?? {}) as Record<string, unknown>
+		if (typeof id !== 'string' || !ID_PATTERN.test(id)) return { error: `Invalid slot id: ${String(id)}` }
+		if (config.slots.some(s => s.id === id)) return { error: `Duplicate slot id: ${id}` }
+		if (typeof poolId !== 'string' || !config.pools.some(pool => pool.id === poolId)) {
+			return { error: `Slot ${id}: unknown pool ${String(poolId)}` }
+		}
+		if (
+			!Array.isArray(days) ||
+			days.length === 0 ||
+			!days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)
+		) {
+			return { error: `Slot ${id}: days must list weekdays 0 (Sunday) to 6` }
+		}
+		if (typeof start !== 'string' || parseClock(start) === null) return { error: `Slot ${id}: invalid start` }
+		if (typeof end !== 'string' || parseClock(end) === null) return { error: `Slot ${id}: invalid end` }
+		const slotEntry: ScheduleSlot = {
+			id,
+			name: typeof name === 'string' && name.trim() ? name.trim() : id,
+			poolId,
+			days: [...new Set<number>(days)].sort((a, b) => a - b),
+			start,
+			end,
+		}
+		config.slots.push(slotEntry)
+	}
+
+	return { config }
+}
+
+class Scheduler {
+	private config: ScheduleConfig = emptySchedule()
+	private readonly file: string
+	private activeSlotId: string | null = null
+
+	constructor(stateDir: string) {
+		this.file = path.join(stateDir, 'schedule.json')
+		this.load()
+	}
+
+	private load(): void {
+		try {
+			if (!fs.existsSync(this.file)) return
+			const result = validateSchedule(JSON.parse(fs.readFileSync(this.file, 'utf-8')))
+			if ('error' in result) {
+				console.error(`[Scheduler] Ignoring invalid ${this.file}: ${result.error}`)
+				return
+			}
+			this.config = result.config
+			console.log(
+				`[Scheduler] Loaded ${this.config.slots.length} slot(s) in ${this.config.timezone} from ${this.file}`,
+			)
+		} catch (err) {
+			console.error('[Scheduler] Failed to load schedule:', err)
+		}
+	}
+
+	private save(): void {
+		try {
+			fs.mkdirSync(path.dirname(this.file), { recursive: true })
+			fs.writeFileSync(this.file, JSON.stringify(this.config, null, 2))
+		} catch (err) {
+			console.error('[Scheduler] Failed to save schedule:', err)
+		}
+	}
+
+	getConfig(): ScheduleConfig {
+		return this.config
+	}
+
+	/**
+	 * Replace the schedule (already validated). Takes effect from the next track.
+	 */
+	setConfig(config: ScheduleConfig): void {
+		this.config = config
+		this.save()
+	}
+
+	getActive(at: number = Date.now()): ScheduleOccurrence | null {
+		return activeOccurrence(this.config, at)
+	}
+
+	getUpcoming(from: number, days: number): ScheduleOccurrence[] {
+		return occurrencesBetween(this.config, from, from + days * DAY_MS)
+	}
+
+	/**
+	 * Rotation filter for the pool playing now, or null outside every slot
+	 */
+	getRotationFilter(at: number = Date.now()): RotationFilter | null {
+		const active = this.getActive(at)
+		const slotId = active?.slotId ?? null
+		if (slotId !== this.activeSlotId) {
+			this.activeSlotId = slotId
+			console.log(
+				active
+					? `[Scheduler] Slot started: ${active.name} (${active.poolName})`
+					: '[Scheduler] No slot active',
+			)
+		}
+
+		const pool = active && this.config.pools.find(p => p.id === active.poolId)
+		if (!pool) return null
+		return { key: pool.id, includes: track => poolIncludes(pool, track) }
+	}
+}
+
+export { Scheduler }
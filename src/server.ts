@@ -6,26 +6,84 @@
  * Streams MP3 files to multiple listeners in sync with live metadata updates.
  */
 
+import { randomUUID, timingSafeEqual } from 'node:crypto'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 import express, { type NextFunction, type Request, type Response } from 'express'
 import multer from 'multer'
-import { normalizeInPlace } from './audioNormalizer'
-import { metadataManager } from './metadataManager'
-import { playlistManager } from './playlistManager'
-import { StreamEngine } from './streamEngine'
+import { albumArt, parseThumbnailSize, trackArtUrl } from './albumArt'
+import { buildCueSheet, parseRecordingName } from './archiveRecorder'
+import {
+	claimFilename,
+	mp3Filename,
+	needsTranscode,
+	normalizeInPlace,
+	removeStaleTempFiles,
+	transcodeToMp3,
+} from './audioNormalizer'
+import {
+	computeFingerprint,
+	type DuplicateGroup,
+	type DuplicateMatch,
+	findDuplicate,
+	findDuplicateGroups,
+	type LibraryTrack,
+	parseDuplicatePolicy,
+} from './duplicates'
+import { parseSegmentName } from './hls'
+import { JINGLES_DIR, listJingles } from './jingles'
+import { DEFAULT_JOB_CONCURRENCY, isJobStatus, JobQueue, type JobReporter, parseJobSetting } from './jobQueue'
+import { LiveSource } from './liveSource'
+import { audioIdOfFile, metadataManager, type TrackMetadata } from './metadataManager'
+import * as metrics from './metrics'
+import { MAX_SMART_WINDOW, PLAYBACK_MODES } from './playlistManager'
+import { RateLimiter } from './rateLimiter'
+import { isReaction, type ReactionRankOrder } from './reactions'
+import { emptySchedule, normalizeTags, type ScheduleOccurrence, validateSchedule } from './scheduler'
+import {
+	analytics,
+	DEFAULT_STATION_ID,
+	isValidStationId,
+	reactions,
+	type Station,
+	stationManager,
+} from './stationManager'
+import { MOUNT_DEFINITIONS } from './transcodeMount'
+import type { Track } from './types'
 
 // ============================================================================
 // EXPRESS SERVER
 // ============================================================================
 
 const app = express()
-const engine = new StreamEngine()
 
-// Connect the skip callback so deleted tracks can trigger skip
-playlistManager.setSkipCallback(() => {
-	engine.skipCurrentTrack()
-})
+// Listener track requests are opt-in. Each listener session may make a few per
+// hour and hold one pending request at a time; the queue caps listener entries.
+const LISTENER_REQUESTS_ENABLED = process.env.LISTENER_REQUESTS === 'true'
+const REQUESTS_PER_SESSION_PER_HOUR = Number(process.env.REQUESTS_PER_SESSION_PER_HOUR) || 3
+const MAX_QUEUED_LISTENER_REQUESTS = 10
+const requestLimiter = new RateLimiter(REQUESTS_PER_SESSION_PER_HOUR, 60 * 60 * 1000)
+
+// Likes/dislikes each client IP may send per minute
+const REACTIONS_PER_IP_PER_MINUTE = Number(process.env.REACTIONS_PER_IP_PER_MINUTE) || 20
+const reactionLimiter = new RateLimiter(REACTIONS_PER_IP_PER_MINUTE, 60 * 1000)
+
+// Proxy hops to trust for the client IP (X-Forwarded-For), e.g. 1 behind Railway or nginx
+if (process.env.TRUST_PROXY) {
+	app.set('trust proxy', Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY)
+}
+
+// When set, /metrics requires `Authorization: Bearer <METRICS_TOKEN>`
+const METRICS_TOKEN = process.env.METRICS_TOKEN
+
+// Password for live DJ sources on /live (unset = live input disabled)
+const LIVE_SOURCE_PASSWORD = process.env.LIVE_SOURCE_PASSWORD
+
+// Keep the source of each transcoded upload (FLAC, WAV...) in songs/originals/
+const KEEP_ORIGINALS = process.env.KEEP_ORIGINALS === 'true'
+
+// Reject uploads that duplicate a library track, or add them flagged
+const DUPLICATE_POLICY = parseDuplicatePolicy(process.env.DUPLICATE_POLICY)
 
 // ============================================================================
 // FILE UPLOAD CONFIGURATION
@@ -33,46 +91,264 @@ playlistManager.setSkipCallback(() => {
 
 const SONGS_DIR = path.join(__dirname, '../songs')
 
+const ORIGINALS_DIR = path.join(SONGS_DIR, 'originals')
+
+// Uploads wait here, outside the library, until their job has processed them
+const UPLOADS_DIR = path.join(SONGS_DIR, '.radio-state', 'uploads')
+
 // Ensure songs directory exists
 if (!fs.existsSync(SONGS_DIR)) {
 	fs.mkdirSync(SONGS_DIR, { recursive: true })
 }
 
+const uploadFilename = (file: Express.Multer.File): string => {
+	// Fix UTF-8 double-encoding issue: multer interprets UTF-8 bytes as Latin-1
+	// Convert back to proper UTF-8
+	let filename = file.originalname
+	try {
+		// If the filename contains high bytes, it's likely mis-decoded UTF-8
+		if (/[\u0080-\u00ff]/.test(filename)) {
+			// Re-encode as Latin-1 bytes, then decode as UTF-8
+			const latin1Bytes = Buffer.from(filename, 'latin1')
+			filename = latin1Bytes.toString('utf8')
+		}
+	} catch (err) {
+		// If conversion fails, keep original
+		console.warn('Failed to fix filename encoding:', err)
+	}
+	return filename
+}
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
 	destination: (req, file, cb) => {
-		cb(null, SONGS_DIR)
+		fs.mkdirSync(UPLOADS_DIR, { recursive: true })
+		cb(null, UPLOADS_DIR)
 	},
 	filename: (req, file, cb) => {
-		// Fix UTF-8 double-encoding issue: multer interprets UTF-8 bytes as Latin-1
-		// Convert back to proper UTF-8
-		let filename = file.originalname
-		try {
-			// If the filename contains high bytes, it's likely mis-decoded UTF-8
-			if (/[\u0080-\u00ff]/.test(filename)) {
-				// Re-encode as Latin-1 bytes, then decode as UTF-8
-				const latin1Bytes = Buffer.from(filename, 'latin1')
-				filename = latin1Bytes.toString('utf8')
-			}
-		} catch (err) {
-			// If conversion fails, keep original
-			console.warn('Failed to fix filename encoding:', err)
-		}
-		cb(null, filename)
+		// Unique, so an upload never replaces a library track or another upload
+		cb(null, `${randomUUID()}${path.extname(uploadFilename(file)).toLowerCase()}`)
 	},
 })
 
+const acceptMp3: multer.Options['fileFilter'] = (req, file, cb) => {
+	// Only accept MP3 files
+	if (file.mimetype === 'audio/mpeg' || file.originalname.endsWith('.mp3')) {
+		cb(null, true)
+	} else {
+		cb(null, false) // Gracefully reject instead of throwing
+	}
+}
+
+const acceptAudio: multer.Options['fileFilter'] = (_req, file, cb) => {
+	// MP3s, plus the formats transcoded to MP3 on the way in
+	if (
+		file.mimetype === 'audio/mpeg' ||
+		file.originalname.endsWith('.mp3') ||
+		needsTranscode(file.originalname)
+	) {
+		cb(null, true)
+	} else {
+		cb(null, false) // Gracefully reject instead of throwing
+	}
+}
+
 const upload = multer({
 	storage,
 	limits: {
-		fileSize: 50 * 1024 * 1024, // 50MB per file
+		fileSize: 200 * 1024 * 1024, // 200MB per file (lossless sources are large)
+	},
+	fileFilter: acceptAudio,
+})
+
+// Jingles go to their own library, outside the rotation, once normalized;
+// until then they wait with the song uploads
+const jingleUpload = multer({
+	storage,
+	limits: {
+		fileSize: 10 * 1024 * 1024, // 10MB per jingle
+	},
+	fileFilter: acceptMp3,
+})
+
+// Cover images are kept in memory: the art store names them by content hash
+const coverUpload = multer({
+	storage: multer.memoryStorage(),
+	limits: {
+		fileSize: 10 * 1024 * 1024, // 10MB per cover
 	},
-	fileFilter: (req, file, cb) => {
-		// Only accept MP3 files
-		if (file.mimetype === 'audio/mpeg' || file.originalname.endsWith('.mp3')) {
-			cb(null, true)
-		} else {
-			cb(null, false) // Gracefully reject instead of throwing
+	fileFilter: (_req, file, cb) => {
+		cb(null, file.mimetype.startsWith('image/'))
+	},
+})
+
+/**
+ * An upload as it went into the library
+ */
+type IngestResult = {
+	filename: string // The MP3 in the library
+	size: number
+	normalized: boolean
+	transcodedFrom: string | null // Source format, e.g. "flac"
+	originalKept: boolean
+	sourceSampleRate: number | null
+	sourceLoudnessLufs: number | null
+	duplicateOf: DuplicateMatch | null // Only with DUPLICATE_POLICY=flag
+	metadata: Pick<TrackMetadata, 'title' | 'artist' | 'album' | 'durationMs' | 'extractedFromId3'>
+}
+
+function ingestedMetadata(metadata: TrackMetadata): IngestResult['metadata'] {
+	return {
+		title: metadata.title,
+		artist: metadata.artist,
+		album: metadata.album,
+		durationMs: metadata.durationMs,
+		extractedFromId3: metadata.extractedFromId3,
+	}
+}
+
+/**
+ * Every track in the library, identified and with its fingerprint, to check
+ * for duplicates
+ */
+function libraryTracks(): LibraryTrack[] {
+	const filenames = fs.readdirSync(SONGS_DIR).filter(f => f.toLowerCase().endsWith('.mp3'))
+	const ids = filenames.map(filename => metadataManager.identify(filename))
+	const records = metadataManager.getAll()
+	return filenames.flatMap((filename, i) => {
+		const id = ids[i]
+		const record = id ? records[id] : undefined
+		if (!id || !record) return []
+		return [
+			{
+				id,
+				filename,
+				title: record.metadata?.title,
+				artist: record.metadata?.artist,
+				fingerprint: record.fingerprint,
+			},
+		]
+	})
+}
+
+/**
+ * Claim the name an upload goes into the library as: its own (with an .mp3
+ * extension if it had another), or `Name (2).mp3`... if that's taken. The
+ * name is held by an empty file, so concurrent jobs never pick the same one.
+ */
+function libraryFilename(uploaded: string): string {
+	const name =
+		path.extname(uploaded).toLowerCase() === '.mp3' ? path.basename(uploaded) : mp3Filename(uploaded)
+	return claimFilename(SONGS_DIR, name)
+}
+
+/**
+ * Bring an upload into the library: an MP3 is normalized (on failure the
+ * original is kept), any other format is transcoded to an MP3 and its tags
+ * carried over. Both happen in the uploads directory; the MP3 is then checked
+ * against the library for duplicates (rejected, or flagged under
+ * DUPLICATE_POLICY=flag) and moved in. The source of a transcode is moved to
+ * originals/ (KEEP_ORIGINALS) or deleted.
+ *
+ * Runs as an upload job, so it may be run again on an upload after a restart
+ * cut it short.
+ */
+async function ingestUpload(uploaded: string, staged: string, report: JobReporter): Promise<IngestResult> {
+	if (!fs.existsSync(staged)) throw new Error('Uploaded file is gone')
+
+	const transcodedFrom = needsTranscode(uploaded) ? path.extname(uploaded).slice(1).toLowerCase() : null
+	let audio = staged
+	let normalized = true
+	let sourceSampleRate: number | null
+	let sourceLoudnessLufs: number | null
+	if (!transcodedFrom) {
+		// Normalize to the canonical format + loudness BEFORE extracting metadata, so
+		// heterogeneous sample rates can't cause a midstream decode error at track
+		// boundaries and tracks don't jump in volume. Metadata is read from the final
+		// (possibly re-encoded) file so duration stays accurate.
+		const norm = await normalizeInPlace(staged, report)
+		if (norm.status === 'failed') {
+			console.warn(`[Upload] Normalization skipped for ${uploaded}: ${norm.error}`)
+		}
+		normalized = norm.status === 'normalized'
+		sourceSampleRate = norm.sourceSampleRate
+		sourceLoudnessLufs = norm.status === 'failed' ? null : norm.sourceLoudnessLufs
+	} else {
+		// Left by a run cut short by a restart; gone, the transcode gets its name
+		// back, which is the one the upload job cleans up
+		fs.rmSync(path.join(path.dirname(staged), mp3Filename(staged)), { force: true })
+		const result = await transcodeToMp3(staged, report)
+		if (result.status === 'failed') throw new Error(`Could not transcode: ${result.error}`)
+		audio = result.output
+		sourceSampleRate = result.sourceSampleRate
+		sourceLoudnessLufs = result.sourceLoudnessLufs
+	}
+
+	// Compared after normalizing, as the library's copies were
+	report('fingerprinting', 0)
+	let audioId: string | null = null
+	try {
+		audioId = audioIdOfFile(audio)
+	} catch (err) {
+		console.warn(`[Upload] Could not hash ${uploaded}:`, err)
+	}
+	const fingerprint = await computeFingerprint(audio)
+	const duplicateOf = findDuplicate({ audioId, fingerprint }, libraryTracks())
+	if (duplicateOf && DUPLICATE_POLICY === 'reject') {
+		throw new Error(
+			`Duplicate of ${duplicateOf.filename} (track ${duplicateOf.id}, ${duplicateOf.match} match)`,
+		)
+	}
+	if (duplicateOf) {
+		console.warn(
+			`[Upload] ${uploaded} looks like a duplicate of ${duplicateOf.filename} (${duplicateOf.match})`,
+		)
+	}
+
+	report('metadata', 0)
+	const filename = libraryFilename(uploaded)
+	const filepath = path.join(SONGS_DIR, filename)
+	try {
+		fs.renameSync(audio, filepath)
+	} catch (err) {
+		fs.rmSync(filepath, { force: true })
+		throw err
+	}
+	const metadata = await metadataManager.processUpload(filename, filepath, transcodedFrom ? staged : filepath)
+	if (fingerprint) metadataManager.setFingerprint(filename, fingerprint)
+	if (transcodedFrom && KEEP_ORIGINALS) {
+		fs.mkdirSync(ORIGINALS_DIR, { recursive: true })
+		fs.renameSync(staged, path.join(ORIGINALS_DIR, path.basename(uploaded)))
+	}
+
+	return {
+		filename,
+		size: fs.statSync(filepath).size,
+		normalized,
+		transcodedFrom,
+		originalKept: transcodedFrom !== null && KEEP_ORIGINALS,
+		sourceSampleRate,
+		sourceLoudnessLufs,
+		duplicateOf,
+		metadata: ingestedMetadata(metadata),
+	}
+}
+
+// Uploads are ingested in the background, a few at a time (UPLOAD_JOB_CONCURRENCY)
+// so ffmpeg never starves the real-time busy-wait streaming engine
+const uploadJobs = new JobQueue<IngestResult>({
+	concurrency: parseJobSetting(process.env.UPLOAD_JOB_CONCURRENCY, DEFAULT_JOB_CONCURRENCY),
+	process: async (job, report) => {
+		try {
+			const result = await ingestUpload(job.filename, job.file, report)
+			// Add track to every station that plays it (no full rescan needed)
+			report('adding', 0)
+			stationManager.addLibraryTrack(result.filename)
+			return result
+		} finally {
+			// Whatever of the upload is left: a rejected or failed file, a source not kept
+			fs.rmSync(job.file, { force: true })
+			fs.rmSync(path.join(UPLOADS_DIR, mp3Filename(job.file)), { force: true })
 		}
 	},
 })
@@ -119,26 +395,120 @@ const requireAuth = (req: Request, res: Response, next: NextFunction) => {
 	next()
 }
 
+// Constant-time compare of a credential; timingSafeEqual needs equal lengths
+const secretMatches = (given: string, expected: string): boolean => {
+	const givenBytes = Buffer.from(given)
+	const expectedBytes = Buffer.from(expected)
+	return givenBytes.length === expectedBytes.length && timingSafeEqual(givenBytes, expectedBytes)
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // PUBLIC ROUTES
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Resolve the station a request targets. `/stations/:stationId/...` routes
+ * name one explicitly; the legacy top-level routes alias the default station.
+ * Sends a 404 and returns undefined for an unknown station.
+ */
+const resolveStation = (req: Request, res: Response): Station | undefined => {
+	const stationId = req.params.stationId
+	const station = stationId ? stationManager.get(stationId) : stationManager.getDefault()
+	if (!station) {
+		res.status(404).json({ error: 'Station not found' })
+		return undefined
+	}
+	return station
+}
+
+/**
+ * Whether a session id belongs to someone tuned in to the station on any
+ * output (stream, HLS or a transcoded mount)
+ */
+const isTunedIn = (station: Station, sessionId: unknown): sessionId is string =>
+	typeof sessionId === 'string' &&
+	(station.engine.hasSession(sessionId) ||
+		station.hls.hasListener(sessionId) ||
+		station.mounts.some(mount => mount.hasSession(sessionId)))
+
 /**
  * Main audio stream endpoint
  * Connect with: <audio src="http://localhost:3000/stream">
  */
-app.get('/stream', (req: Request, res: Response) => {
+app.get(['/stream', '/stations/:stationId/stream'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
 	// Session ID for unique listener tracking (sent by client)
 	const sessionId = req.query.sid as string | undefined
-	engine.addClient(res, sessionId)
+	// Shoutcast-style players (VLC, car stereos) ask for inline title updates
+	station.engine.addClient(res, sessionId, { icyMetadata: req.headers['icy-metadata'] === '1' })
 	// Note: we don't call res.end() - the response stays open
 })
 
+/**
+ * Transcoded streams (/stream.opus, /stream.aac, /stream-64k.mp3) for
+ * bandwidth-constrained listeners. The encoder starts with the first listener.
+ */
+for (const [index, definition] of MOUNT_DEFINITIONS.entries()) {
+	app.get([definition.path, `/stations/:stationId${definition.path}`], (req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const sessionId = req.query.sid as string | undefined
+		station.mounts[index]?.addClient(res, sessionId)
+	})
+}
+
+/**
+ * HLS live playlist (sliding window), for players that prefer HLS (Safari/iOS)
+ * Connect with: <audio src="http://localhost:3000/hls/live.m3u8">
+ */
+app.get(['/hls/live.m3u8', '/stations/:stationId/hls/live.m3u8'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	// Players reload the playlist every segment, which keeps the session counted
+	const sessionId = req.query.sid
+	if (typeof sessionId === 'string' && sessionId) {
+		station.hls.touchListener(sessionId, req.headers['user-agent'] ?? null)
+	}
+
+	const playlist = station.hls.getPlaylist()
+	if (!playlist) {
+		res.status(503).set('Retry-After', '2').json({ error: 'Stream is starting, try again shortly' })
+		return
+	}
+	res.set({ 'Content-Type': 'application/vnd.apple.mpegurl', 'Cache-Control': 'no-cache, no-store' })
+	res.send(playlist)
+})
+
+/**
+ * HLS segment named by the playlist (404 once it has left the window)
+ */
+app.get(['/hls/:segment', '/stations/:stationId/hls/:segment'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	const sequence = parseSegmentName(String(req.params.segment))
+	const segment = sequence === null ? undefined : station.hls.getSegment(sequence)
+	if (!segment) {
+		res.status(404).json({ error: 'Segment not found' })
+		return
+	}
+	// A segment never changes once published
+	res.set({ 'Content-Type': 'audio/mpeg', 'Cache-Control': 'public, max-age=60' })
+	res.send(segment.data)
+})
+
 /**
  * Get current track info (JSON)
  */
-app.get('/now-playing', (req: Request, res: Response) => {
-	const nowPlaying = engine.getNowPlaying()
+app.get(['/now-playing', '/stations/:stationId/now-playing'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	const nowPlaying = station.engine.getNowPlaying()
 	res.json(nowPlaying || { track: null })
 })
 
@@ -146,241 +516,688 @@ app.get('/now-playing', (req: Request, res: Response) => {
  * Server-Sent Events for live metadata updates
  * Connect with: new EventSource("/now-playing/events")
  */
-app.get('/now-playing/events', (req: Request, res: Response) => {
-	engine.addSSEClient(res)
-})
+app.get(
+	['/now-playing/events', '/stations/:stationId/now-playing/events', '/stations/:stationId/events'],
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		station.engine.addSSEClient(res)
+	},
+)
 
 /**
  * Server status
  */
-app.get('/status', (req: Request, res: Response) => {
-	res.json(engine.getStatus())
-})
+app.get(['/status', '/stations/:stationId/status'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
 
-// ─────────────────────────────────────────────────────────────────────────────
-// ADMIN ROUTES (authenticated)
-// ─────────────────────────────────────────────────────────────────────────────
+	res.json({
+		...station.engine.getStatus(),
+		hls: station.hls.getStatus(),
+		mounts: station.mounts.map(mount => mount.getStatus()),
+	})
+})
 
 /**
- * Upload single song
- * POST /admin/upload
- * Headers: X-API-Key: <your-api-key>
- * Body: multipart/form-data with 'song' field
+ * Prometheus metrics for every station (text exposition format)
+ * Scrape with: bearer_token set to METRICS_TOKEN, if configured
  */
-app.post('/admin/upload', requireAuth, upload.single('song'), async (req: Request, res: Response) => {
-	if (!req.file) {
-		res.status(400).json({ error: 'No file uploaded' })
+app.get('/metrics', (req: Request, res: Response) => {
+	if (METRICS_TOKEN && !secretMatches(req.headers.authorization ?? '', `Bearer ${METRICS_TOKEN}`)) {
+		res.status(401).json({ error: 'Unauthorized', message: 'Invalid or missing metrics token' })
 		return
 	}
 
-	// Normalize to the canonical format + loudness BEFORE extracting metadata, so
-	// heterogeneous sample rates can't cause a midstream decode error at track
-	// boundaries and tracks don't jump in volume. On failure the original file is
-	// kept (upload is never lost). Metadata is read from the final (possibly
-	// re-encoded) file so duration stays accurate.
-	const norm = await normalizeInPlace(req.file.path)
-	if (norm.status === 'failed') {
-		console.warn(`[Upload] Normalization skipped for ${req.file.filename}: ${norm.error}`)
+	// Point-in-time values, refreshed from each station's status
+	const gauges = [
+		metrics.listenersGauge,
+		metrics.connectionsGauge,
+		metrics.sseClientsGauge,
+		metrics.hlsListenersGauge,
+		metrics.mountListenersGauge,
+		metrics.pacingDrift,
+		metrics.pacingMaxLate,
+		metrics.pacingJitter,
+	]
+	for (const gauge of gauges) {
+		gauge.reset()
+	}
+	for (const station of stationManager.list()) {
+		const labels = { station: station.id }
+		const status = station.engine.getStatus()
+		metrics.listenersGauge.set(labels, status.uniqueSessions)
+		metrics.connectionsGauge.set(labels, status.rawConnections)
+		metrics.sseClientsGauge.set(labels, status.sseClientCount)
+		metrics.hlsListenersGauge.set(labels, station.hls.listenerCount())
+		for (const mount of station.mounts) {
+			metrics.mountListenersGauge.set({ ...labels, mount: mount.definition.path }, mount.listenerCount())
+		}
+		metrics.pacingDrift.set(labels, status.pacing.driftMs / 1000)
+		metrics.pacingMaxLate.set(labels, status.pacing.maxLateMs / 1000)
+		metrics.pacingJitter.set(labels, status.pacing.jitterMs / 1000)
 	}
+	metrics.residentMemory.set({}, process.memoryUsage().rss)
 
-	// Extract ID3 metadata and store
-	const metadata = await metadataManager.processUpload(req.file.filename, req.file.path)
+	res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+	res.send(metrics.registry.render())
+})
 
-	// Add track to playlist dynamically (no full rescan needed)
-	playlistManager.addTrack(req.file.filename)
+/**
+ * Resolve a `trackId` or `filename` body field to a filename in the station's
+ * playlist. Returns undefined if neither names a track on that station.
+ */
+const resolveTrackFilename = (station: Station, body: Record<string, unknown>): string | undefined => {
+	const tracks = station.playlist.getTracks()
+	const { trackId, filename } = body
+	const track =
+		typeof trackId === 'string'
+			? tracks.find(t => t.id === trackId)
+			: typeof filename === 'string'
+				? tracks.find(t => path.basename(t.path) === filename)
+				: undefined
+	return track ? path.basename(track.path) : undefined
+}
 
-	res.json({
-		success: true,
-		filename: req.file.filename,
-		size: req.file.size,
-		normalized: norm.status === 'normalized',
-		sourceSampleRate: norm.sourceSampleRate,
-		sourceLoudnessLufs: norm.status === 'failed' ? null : norm.sourceLoudnessLufs,
-		metadata: {
-			title: metadata.title,
-			artist: metadata.artist,
-			album: metadata.album,
-			durationMs: metadata.durationMs,
-			extractedFromId3: metadata.extractedFromId3,
-		},
-		message: 'Song uploaded successfully',
-	})
+// Public view of a slot occurrence: show and pool names, no track lists
+const describeOccurrence = (occurrence: ScheduleOccurrence) => ({
+	slotId: occurrence.slotId,
+	name: occurrence.name,
+	pool: occurrence.poolName,
+	startsAt: new Date(occurrence.startsAt).toISOString(),
+	endsAt: new Date(occurrence.endsAt).toISOString(),
 })
 
 /**
- * Upload multiple songs
- * POST /admin/upload/batch
- * Headers: X-API-Key: <your-api-key>
- * Body: multipart/form-data with 'songs[]' field (multiple files)
+ * What played, newest first. Page back with the previous response's `nextBefore`.
+ * GET /api/history?limit=20&before=<epoch ms> (limit: 1-100)
  */
-app.post(
-	'/admin/upload/batch',
-	requireAuth,
-	upload.array('songs', 100),
-	async (req: Request, res: Response) => {
-		const files = req.files as Express.Multer.File[]
+app.get(['/api/history', '/stations/:stationId/history'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
 
-		if (!files || files.length === 0) {
-			res.status(400).json({ error: 'No files uploaded' })
-			return
-		}
+	const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100)
+	const before = Number(req.query.before)
+	res.json(station.history.page(limit, Number.isFinite(before) && before > 0 ? before : undefined))
+})
 
-		// Normalize + extract metadata sequentially. Sequential (not Promise.all)
-		// so we never run many ffmpeg transcodes at once and starve the real-time
-		// busy-wait streaming engine. Normalization failures keep the original file.
-		const results = []
-		for (const f of files) {
-			const norm = await normalizeInPlace(f.path)
-			if (norm.status === 'failed') {
-				console.warn(`[Upload] Normalization skipped for ${f.filename}: ${norm.error}`)
-			}
-			const metadata = await metadataManager.processUpload(f.filename, f.path)
-			results.push({
-				filename: f.filename,
-				size: f.size,
-				normalized: norm.status === 'normalized',
-				sourceSampleRate: norm.sourceSampleRate,
-				sourceLoudnessLufs: norm.status === 'failed' ? null : norm.sourceLoudnessLufs,
-				metadata: {
-					title: metadata.title,
-					artist: metadata.artist,
-					album: metadata.album,
-					extractedFromId3: metadata.extractedFromId3,
-				},
-			})
-		}
+/**
+ * What's on now and the coming week's slots
+ * GET /api/schedule?days=7 (days: 1-14)
+ */
+app.get(['/api/schedule', '/stations/:stationId/schedule'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	const requested = Number(req.query.days)
+	const days = Number.isInteger(requested) && requested >= 1 ? Math.min(requested, 14) : 7
+	const now = Date.now()
+	const current = station.scheduler.getActive(now)
+	res.json({
+		timezone: station.scheduler.getConfig().timezone,
+		current: current ? describeOccurrence(current) : null,
+		upcoming: station.scheduler
+			.getUpcoming(now, days)
+			.filter(occurrence => occurrence.startsAt > now)
+			.map(describeOccurrence),
+	})
+})
 
-		// Add each track to playlist dynamically
-		for (const file of files) {
-			playlistManager.addTrack(file.filename)
-		}
+/**
+ * Up-next queue (played before the rotation resumes)
+ */
+app.get(['/api/queue', '/stations/:stationId/queue'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
 
-		res.json({
-			success: true,
-			count: files.length,
-			files: results,
-			message: `${files.length} song(s) uploaded successfully`,
-		})
-	},
-)
+	res.json({
+		queue: station.playlist.getQueue(),
+		requestsEnabled: LISTENER_REQUESTS_ENABLED,
+	})
+})
 
 /**
- * Delete a song
- * DELETE /admin/songs/:filename
- * Headers: X-API-Key: <your-api-key>
+ * Request a track as a listener (when LISTENER_REQUESTS=true)
+ * POST /api/requests
+ * Body: { trackId | filename, sid } — sid is the session id the player sends to /stream
  */
-app.delete('/admin/songs/:filename', requireAuth, (req: Request, res: Response) => {
-	const filename = req.params.filename
-	if (!filename) {
-		res.status(400).json({ error: 'Filename required' })
+app.post(['/api/requests', '/stations/:stationId/requests'], (req: Request, res: Response) => {
+	if (!LISTENER_REQUESTS_ENABLED) {
+		res.status(403).json({ error: 'Track requests are disabled' })
 		return
 	}
-	const filepath = path.join(SONGS_DIR, filename)
 
-	// Security: prevent path traversal
-	if (!filepath.startsWith(SONGS_DIR)) {
-		res.status(400).json({ error: 'Invalid filename' })
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	const body = req.body ?? {}
+	const sessionId = body.sid
+	// Only sessions that are actually tuned in may request, so made-up session
+	// ids can't be used to dodge the per-session limits
+	if (!isTunedIn(station, sessionId)) {
+		res.status(403).json({ error: 'Start listening to request tracks' })
 		return
 	}
 
-	if (!fs.existsSync(filepath)) {
-		res.status(404).json({ error: 'Song not found' })
+	const filename = resolveTrackFilename(station, body)
+	if (!filename) {
+		res.status(404).json({ error: 'Track not found' })
 		return
 	}
 
-	try {
-		// Remove from playlist first (this may trigger skip if currently playing)
-		playlistManager.removeTrack(filename)
-
-		// Then delete the file and metadata
-		fs.unlinkSync(filepath)
-		metadataManager.delete(filename)
-
-		res.json({
-			success: true,
-			message: `Deleted ${filename}`,
-		})
-	} catch (error) {
-		res.status(500).json({
-			error: 'Failed to delete song',
-			message: error instanceof Error ? error.message : 'Unknown error',
-		})
+	const queue = station.playlist.getQueue()
+	if (queue.some(entry => entry.filename === filename)) {
+		res.status(409).json({ error: 'Track is already queued' })
+		return
 	}
-})
-
-/**
- * Get metadata for a track
- * GET /admin/tracks/:filename/metadata
- * Headers: X-API-Key: <your-api-key>
- */
-app.get('/admin/tracks/:filename/metadata', requireAuth, async (req: Request, res: Response) => {
-	const filename = req.params.filename
-	if (!filename) {
-		res.status(400).json({ error: 'Filename required' })
+	if (queue.some(entry => entry.sessionId === sessionId)) {
+		res.status(409).json({ error: 'You already have a request in the queue' })
 		return
 	}
-	const filepath = path.join(SONGS_DIR, filename)
-
-	// Security: prevent path traversal
-	if (!filepath.startsWith(SONGS_DIR)) {
-		res.status(400).json({ error: 'Invalid filename' })
+	if (queue.filter(entry => entry.source === 'listener').length >= MAX_QUEUED_LISTENER_REQUESTS) {
+		res.status(429).json({ error: 'The request queue is full, try again later' })
+		return
+	}
+	if (!requestLimiter.tryConsume(sessionId)) {
+		const retryAfterMs = requestLimiter.retryAfterMs(sessionId)
+		res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)))
+		res.status(429).json({ error: 'Too many requests', retryAfterMs })
 		return
 	}
 
-	if (!fs.existsSync(filepath)) {
-		res.status(404).json({ error: 'Song not found' })
+	const entry = station.playlist.enqueue(filename, { source: 'listener', sessionId })
+	if (!entry) {
+		res.status(404).json({ error: 'Track not found' })
 		return
 	}
 
-	const metadata = await metadataManager.getOrExtract(filename, filepath)
-	res.json({ filename, metadata })
+	res.status(201).json({
+		success: true,
+		entry,
+		position: station.playlist.getQueue().findIndex(e => e.id === entry.id) + 1,
+	})
 })
 
 /**
- * Update metadata for a track
- * PATCH /admin/tracks/:filename/metadata
- * Headers: X-API-Key: <your-api-key>
- * Body: { title?, artist?, album?, albumArtUrl?, spotifyUrl?, youtubeUrl?, appleMusicUrl? }
+ * The song a listener can react to: the one players show (the song before a
+ * jingle), never a live source
  */
-app.patch('/admin/tracks/:filename/metadata', requireAuth, (req: Request, res: Response) => {
-	const filename = req.params.filename
-	if (!filename) {
-		res.status(400).json({ error: 'Filename required' })
+const reactionTarget = (station: Station): Track | undefined => {
+	const nowPlaying = station.engine.getNowPlaying()
+	if (!nowPlaying || nowPlaying.live) return undefined
+	return nowPlaying.interstitial ? nowPlaying.lastSong : nowPlaying.track
+}
+
+/**
+ * The current song's reaction counts, and this session's vote on it
+ * GET /api/reactions?sid=<session id>
+ */
+app.get(['/api/reactions', '/stations/:stationId/reactions'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	const track = reactionTarget(station)
+	if (!track) {
+		res.json({ track: null })
 		return
 	}
-	const filepath = path.join(SONGS_DIR, filename)
+	const sessionId = typeof req.query.sid === 'string' ? req.query.sid : null
+	res.json({
+		track: { id: track.id, title: track.title, artist: track.artist },
+		...reactions.getCounts(track.id),
+		reaction: sessionId ? reactions.getReaction(track.id, sessionId) : null,
+	})
+})
 
-	// Security: prevent path traversal
-	if (!filepath.startsWith(SONGS_DIR)) {
-		res.status(400).json({ error: 'Invalid filename' })
+/**
+ * Like or dislike the current song (reaction null takes a vote back). One vote
+ * per session per song; sending a different reaction changes it.
+ * POST /api/reactions
+ * Body: { sid, reaction: "like" | "dislike" | null, trackId? }
+ * `trackId` guards against voting on the next song if the track just changed.
+ */
+app.post(['/api/reactions', '/stations/:stationId/reactions'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	const body = req.body ?? {}
+	const sessionId = body.sid
+	const reaction = body.reaction ?? null
+	if (reaction !== null && !isReaction(reaction)) {
+		res.status(400).json({ error: 'reaction must be "like", "dislike" or null' })
+		return
+	}
+	if (!isTunedIn(station, sessionId)) {
+		res.status(403).json({ error: 'Start listening to react to tracks' })
 		return
 	}
 
-	if (!fs.existsSync(filepath)) {
-		res.status(404).json({ error: 'Song not found' })
+	const track = reactionTarget(station)
+	if (!track || (body.trackId !== undefined && String(body.trackId) !== track.id)) {
+		res.status(409).json({ error: 'That track is no longer playing' })
 		return
 	}
 
-	const { title, artist, album, albumArtUrl, spotifyUrl, youtubeUrl, appleMusicUrl } = req.body
-	const updates: Record<string, string | undefined> = {}
+	const ip = req.ip ?? 'unknown'
+	if (!reactionLimiter.tryConsume(ip)) {
+		const retryAfterMs = reactionLimiter.retryAfterMs(ip)
+		res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)))
+		res.status(429).json({ error: 'Too many reactions', retryAfterMs })
+		return
+	}
 
-	if (title !== undefined) updates.title = title
-	if (artist !== undefined) updates.artist = artist
-	if (album !== undefined) updates.album = album
-	if (albumArtUrl !== undefined) updates.albumArtUrl = albumArtUrl
-	if (spotifyUrl !== undefined) updates.spotifyUrl = spotifyUrl
-	if (youtubeUrl !== undefined) updates.youtubeUrl = youtubeUrl
-	if (appleMusicUrl !== undefined) updates.appleMusicUrl = appleMusicUrl
+	const counts = reactions.react(track.id, sessionId, reaction, station.id)
+	// Every station showing this song gets the new counts
+	for (const other of stationManager.list()) {
+		if (reactionTarget(other)?.path === track.path) other.engine.refreshReactions()
+	}
+	res.json({ success: true, trackId: track.id, reaction, ...counts })
+})
 
-	if (Object.keys(updates).length === 0) {
-		res.status(400).json({ error: 'No updates provided' })
+/**
+ * Album art, by content hash (so it never changes and can be cached forever)
+ * GET /art/:hash?size=128|512
+ * size picks a thumbnail; the original is served if none was made
+ */
+app.get('/art/:hash', (req: Request, res: Response) => {
+	const art = albumArt.find(req.params.hash ?? '', parseThumbnailSize(req.query.size))
+	if (!art) {
+		res.status(404).json({ error: 'Album art not found' })
 		return
 	}
+	res.setHeader('Cache-Control', 'public, max-age=31536000, immutable')
+	res.type(art.contentType)
+	// The art store lives under .radio-state, which sendFile skips by default
+	res.sendFile(art.path, { dotfiles: 'allow' })
+})
 
-	const metadata = metadataManager.update(filename, updates)
+/**
+ * List stations
+ */
+app.get('/stations', (_req: Request, res: Response) => {
+	res.json({
+		stations: stationManager.list().map(station => {
+			const status = station.engine.getStatus()
+			return {
+				id: station.id,
+				name: station.name,
+				listenerCount: status.listenerCount,
+				nowPlaying: status.nowPlaying,
+			}
+		}),
+	})
+})
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LIVE SOURCE (Icecast source auth)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Icecast-style basic auth: any username (encoders send "source"), and the
+ * password must match LIVE_SOURCE_PASSWORD
+ */
+const isSourceAuthorized = (req: Request): boolean => {
+	const header = req.headers.authorization
+	if (!LIVE_SOURCE_PASSWORD || !header?.startsWith('Basic ')) return false
+	const credentials = Buffer.from(header.slice('Basic '.length), 'base64').toString('utf8')
+	return secretMatches(credentials.slice(credentials.indexOf(':') + 1), LIVE_SOURCE_PASSWORD)
+}
+
+const rejectSource = (res: Response, status: number, message: string) => {
+	if (status === 401) res.set('WWW-Authenticate', 'Basic realm="Icecast2 Server"')
+	res.status(status).json({ error: message })
+}
+
+/**
+ * Live DJ input: an MP3 stream that takes over the station until it disconnects
+ * PUT or SOURCE /live (or /stations/:stationId/live)
+ * Auth: HTTP basic, password LIVE_SOURCE_PASSWORD (e.g. icecast://source:<password>@host:port/live)
+ * Headers: ice-name: <show name> (optional)
+ */
+app.all(['/live', '/stations/:stationId/live'], (req: Request, res: Response) => {
+	if (req.method !== 'PUT' && req.method !== 'SOURCE') {
+		res.set('Allow', 'PUT, SOURCE')
+		rejectSource(res, 405, 'Send the live stream with PUT or SOURCE')
+		return
+	}
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	if (!LIVE_SOURCE_PASSWORD) {
+		rejectSource(res, 403, 'Live input is disabled (set LIVE_SOURCE_PASSWORD)')
+		return
+	}
+	if (!isSourceAuthorized(req)) {
+		rejectSource(res, 401, 'Authentication required')
+		return
+	}
+	const contentType = req.headers['content-type']
+	if (contentType && !/^audio\/(mpeg|mp3)\b/i.test(contentType)) {
+		rejectSource(res, 415, 'Content-type not supported: send audio/mpeg')
+		return
+	}
+
+	const iceName = req.headers['ice-name']
+	const source = new LiveSource({
+		name: typeof iceName === 'string' && iceName.trim() ? iceName.trim() : null,
+		userAgent: req.headers['user-agent'] ?? null,
+	})
+	if (!station.engine.goLive(source)) {
+		rejectSource(res, 403, 'Mountpoint in use')
+		return
+	}
+
+	// SOURCE clients wait for the go-ahead before sending audio
+	if (req.method === 'SOURCE') {
+		res.status(200)
+		res.flushHeaders()
+	}
+
+	// However the source ends (disconnect, stall, kicked), close the connection
+	source.setEndHandler(() => {
+		if (!res.writableEnded) {
+			if (res.headersSent) res.end()
+			else res.json({ success: true, ...source.getStatus() })
+		}
+		req.destroy()
+	})
+
+	req.on('data', (chunk: Buffer) => {
+		const error = source.push(chunk)
+		if (error) {
+			console.warn(`[Live] Rejecting source on ${station.id}: ${error}`)
+			if (!res.headersSent) rejectSource(res, 415, error)
+			station.engine.endLive(source)
+		}
+	})
+	req.on('close', () => {
+		station.engine.endLive(source)
+	})
+})
+
+/**
+ * Icecast metadata update, sent by encoders when the DJ's track changes
+ * GET /admin/metadata?mount=/live&mode=updinfo&song=Artist%20-%20Title
+ * Auth: same as the live source (mount /stations/<id>/live for other stations)
+ */
+app.get('/admin/metadata', (req: Request, res: Response) => {
+	if (!isSourceAuthorized(req)) {
+		rejectSource(res, 401, 'Authentication required')
+		return
+	}
+
+	const { mount, mode, song } = req.query
+	const stationId = typeof mount === 'string' ? /^\/stations\/([^/]+)\/live$/.exec(mount)?.[1] : undefined
+	const station = stationId ? stationManager.get(stationId) : stationManager.getDefault()
+	const source = station?.engine.getLiveSource()
+	if (mode !== 'updinfo' || typeof song !== 'string' || !source) {
+		res.status(400).type('application/xml').send(icecastResponse('Source does not exist', 0))
+		return
+	}
+
+	source.setSong(song)
+	res.type('application/xml').send(icecastResponse('Metadata update successful', 1))
+})
+
+const icecastResponse = (message: string, ok: 0 | 1): string =>
+	`<?xml version="1.0"?>\n<iceresponse><message>${message}</message><return>${ok}</return></iceresponse>\n`
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ADMIN ROUTES (authenticated)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Upload single song. Responds as soon as the file is saved; it's processed
+ * by a background job (see /admin/jobs).
+ * POST /admin/upload
+ * Headers: X-API-Key: <your-api-key>
+ * Body: multipart/form-data with 'song' field (MP3, or FLAC/WAV/OGG/M4A... to transcode)
+ */
+app.post('/admin/upload', requireAuth, upload.single('song'), (req: Request, res: Response) => {
+	if (!req.file) {
+		res.status(400).json({ error: 'No file uploaded' })
+		return
+	}
+
+	const job = uploadJobs.add(uploadFilename(req.file), req.file.path)
+	res.status(202).json({
+		success: true,
+		jobId: job.id,
+		job,
+		message: 'Song uploaded, processing in the background',
+	})
+})
+
+/**
+ * Upload multiple songs. Each file gets its own background job; they share
+ * a batchId to filter /admin/jobs by.
+ * POST /admin/upload/batch
+ * Headers: X-API-Key: <your-api-key>
+ * Body: multipart/form-data with 'songs[]' field (multiple files)
+ */
+app.post('/admin/upload/batch', requireAuth, upload.array('songs', 100), (req: Request, res: Response) => {
+	const files = req.files as Express.Multer.File[]
+
+	if (!files || files.length === 0) {
+		res.status(400).json({ error: 'No files uploaded' })
+		return
+	}
+
+	const batchId = randomUUID()
+	const jobs = files.map(f => uploadJobs.add(uploadFilename(f), f.path, batchId))
+	res.status(202).json({
+		success: true,
+		count: jobs.length,
+		batchId,
+		jobs,
+		message: `${jobs.length} song(s) uploaded, processing in the background`,
+	})
+})
+
+/**
+ * List upload jobs, newest first
+ * GET /admin/jobs?status=queued|running|done|failed&batchId=<id>
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get('/admin/jobs', requireAuth, (req: Request, res: Response) => {
+	const { status, batchId } = req.query
+	if (status !== undefined && !isJobStatus(status)) {
+		res.status(400).json({ error: 'status must be one of queued, running, done, failed' })
+		return
+	}
+	res.json({
+		counts: uploadJobs.counts(),
+		jobs: uploadJobs.list({ status, batchId: typeof batchId === 'string' ? batchId : undefined }),
+	})
+})
+
+/**
+ * Live upload job progress (Server-Sent Events): the current jobs, then each
+ * job again whenever it moves on (stage, progress parsed from ffmpeg, result)
+ * GET /admin/jobs/events
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get('/admin/jobs/events', requireAuth, (_req: Request, res: Response) => {
+	uploadJobs.addSSEClient(res)
+})
+
+/**
+ * One upload job
+ * GET /admin/jobs/:id
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get('/admin/jobs/:id', requireAuth, (req: Request, res: Response) => {
+	const job = uploadJobs.get(req.params.id ?? '')
+	if (!job) {
+		res.status(404).json({ error: 'Job not found' })
+		return
+	}
+	res.json(job)
+})
+
+// The last grouping, reused while the library's tracks, names and fingerprints stay the same
+let lastDuplicateGroups: { key: string; groups: DuplicateGroup[] } | null = null
+
+function duplicateGroups(tracks: LibraryTrack[]): DuplicateGroup[] {
+	const key = JSON.stringify(
+		tracks.map(track => [
+			track.id,
+			track.filename,
+			track.title,
+			track.artist,
+			track.fingerprint !== undefined,
+		]),
+	)
+	if (lastDuplicateGroups?.key !== key) lastDuplicateGroups = { key, groups: findDuplicateGroups(tracks) }
+	return lastDuplicateGroups.groups
+}
+
+/**
+ * Suspected duplicates across the library: tracks with the same audio, or
+ * whose acoustic fingerprints match (tracks are fingerprinted on upload and
+ * by POST /admin/rescan)
+ * GET /admin/duplicates
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get('/admin/duplicates', requireAuth, (_req: Request, res: Response) => {
+	const tracks = libraryTracks()
+	const groups = duplicateGroups(tracks)
+	res.json({
+		trackCount: tracks.length,
+		fingerprinted: tracks.filter(track => track.fingerprint).length,
+		count: groups.length,
+		groups,
+	})
+})
+
+/**
+ * Delete a song
+ * DELETE /admin/songs/:filename
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.delete('/admin/songs/:filename', requireAuth, (req: Request, res: Response) => {
+	const filename = req.params.filename
+	if (!filename) {
+		res.status(400).json({ error: 'Filename required' })
+		return
+	}
+	const filepath = path.join(SONGS_DIR, filename)
+
+	// Security: prevent path traversal
+	if (!filepath.startsWith(SONGS_DIR)) {
+		res.status(400).json({ error: 'Invalid filename' })
+		return
+	}
+
+	if (!fs.existsSync(filepath)) {
+		res.status(404).json({ error: 'Song not found' })
+		return
+	}
+
+	try {
+		// Remove from every station first (this may trigger skip if currently playing)
+		stationManager.removeLibraryTrack(filename)
+
+		// Then delete the file, metadata and votes
+		const trackId = metadataManager.idFor(filename)
+		fs.unlinkSync(filepath)
+		metadataManager.delete(filename)
+		if (trackId) reactions.forget(trackId)
+
+		res.json({
+			success: true,
+			message: `Deleted ${filename}`,
+		})
+	} catch (error) {
+		res.status(500).json({
+			error: 'Failed to delete song',
+			message: error instanceof Error ? error.message : 'Unknown error',
+		})
+	}
+})
+
+/**
+ * Get metadata for a track
+ * GET /admin/tracks/:filename/metadata
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get('/admin/tracks/:filename/metadata', requireAuth, async (req: Request, res: Response) => {
+	const filename = req.params.filename
+	if (!filename) {
+		res.status(400).json({ error: 'Filename required' })
+		return
+	}
+	const filepath = path.join(SONGS_DIR, filename)
+
+	// Security: prevent path traversal
+	if (!filepath.startsWith(SONGS_DIR)) {
+		res.status(400).json({ error: 'Invalid filename' })
+		return
+	}
+
+	if (!fs.existsSync(filepath)) {
+		res.status(404).json({ error: 'Song not found' })
+		return
+	}
+
+	const metadata = await metadataManager.getOrExtract(filename, filepath)
+	res.json({ filename, metadata })
+})
+
+/**
+ * Update metadata for a track
+ * PATCH /admin/tracks/:filename/metadata
+ * Headers: X-API-Key: <your-api-key>
+ * Body: { title?, artist?, album?, albumArtUrl?, spotifyUrl?, youtubeUrl?, appleMusicUrl?, tags? }
+ * tags: string[] used by schedule pools (stored lowercase)
+ */
+app.patch('/admin/tracks/:filename/metadata', requireAuth, (req: Request, res: Response) => {
+	const filename = req.params.filename
+	if (!filename) {
+		res.status(400).json({ error: 'Filename required' })
+		return
+	}
+	const filepath = path.join(SONGS_DIR, filename)
+
+	// Security: prevent path traversal
+	if (!filepath.startsWith(SONGS_DIR)) {
+		res.status(400).json({ error: 'Invalid filename' })
+		return
+	}
+
+	if (!fs.existsSync(filepath)) {
+		res.status(404).json({ error: 'Song not found' })
+		return
+	}
+
+	const { title, artist, album, albumArtUrl, spotifyUrl, youtubeUrl, appleMusicUrl, tags } = req.body
+	const updates: Parameters<typeof metadataManager.update>[1] = {}
+
+	if (title !== undefined) updates.title = title
+	if (artist !== undefined) updates.artist = artist
+	if (album !== undefined) updates.album = album
+	if (albumArtUrl !== undefined) updates.albumArtUrl = albumArtUrl
+	if (spotifyUrl !== undefined) updates.spotifyUrl = spotifyUrl
+	if (youtubeUrl !== undefined) updates.youtubeUrl = youtubeUrl
+	if (appleMusicUrl !== undefined) updates.appleMusicUrl = appleMusicUrl
+	if (tags !== undefined) {
+		if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string')) {
+			res.status(400).json({ error: 'tags must be an array of strings' })
+			return
+		}
+		updates.tags = normalizeTags(tags)
+	}
+
+	if (Object.keys(updates).length === 0) {
+		res.status(400).json({ error: 'No updates provided' })
+		return
+	}
+
+	const metadata = metadataManager.update(filename, updates)
 
-	// Rescan to update track info in playlist
-	playlistManager.rescan()
+	// Rescan to update track info in every station's playlist
+	stationManager.rescanAll()
 
 	res.json({
 		success: true,
@@ -389,6 +1206,61 @@ app.patch('/admin/tracks/:filename/metadata', requireAuth, (req: Request, res: R
 	})
 })
 
+/**
+ * Upload or replace a track's cover image (replaces any manual albumArtUrl)
+ * PUT /admin/tracks/:filename/art
+ * Headers: X-API-Key: <your-api-key>
+ * Body: multipart/form-data with 'cover' field (JPEG, PNG, WebP or GIF)
+ */
+app.put(
+	'/admin/tracks/:filename/art',
+	requireAuth,
+	coverUpload.single('cover'),
+	async (req: Request, res: Response) => {
+		const filename = req.params.filename
+		if (!filename) {
+			res.status(400).json({ error: 'Filename required' })
+			return
+		}
+		const filepath = path.join(SONGS_DIR, filename)
+
+		// Security: prevent path traversal
+		if (!filepath.startsWith(SONGS_DIR)) {
+			res.status(400).json({ error: 'Invalid filename' })
+			return
+		}
+
+		if (!fs.existsSync(filepath)) {
+			res.status(404).json({ error: 'Song not found' })
+			return
+		}
+
+		if (!req.file) {
+			res.status(400).json({ error: 'No image uploaded' })
+			return
+		}
+
+		const artHash = await albumArt.save(req.file.buffer)
+		if (!artHash) {
+			res.status(400).json({ error: 'Cover must be a JPEG, PNG, WebP or GIF image' })
+			return
+		}
+
+		const metadata = metadataManager.update(filename, { artHash, albumArtUrl: undefined })
+
+		// Rescan to update track info in every station's playlist
+		stationManager.rescanAll()
+
+		res.json({
+			success: true,
+			filename,
+			artHash,
+			albumArtUrl: trackArtUrl(metadata),
+			metadata,
+		})
+	},
+)
+
 /**
  * List all songs
  * GET /admin/songs
@@ -454,39 +1326,877 @@ app.get('/admin/backup', requireAuth, (req: Request, res: Response) => {
 	pump()
 })
 
+// Background pass fingerprinting the library's tracks, while one is running
+let fingerprinting: Promise<void> | null = null
+
 /**
- * Rescan playlist
+ * Rescan playlist, extracting embedded album art from tracks not yet checked.
+ * Tracks without a fingerprint for duplicate detection are fingerprinted in
+ * the background (one ffmpeg run per track), unless a pass is already running.
  * POST /admin/rescan
  * Headers: X-API-Key: <your-api-key>
  */
-app.post('/admin/rescan', requireAuth, (req: Request, res: Response) => {
-	playlistManager.rescan()
+app.post('/admin/rescan', requireAuth, async (_req: Request, res: Response) => {
+	const filenames = fs.readdirSync(SONGS_DIR).filter(f => f.toLowerCase().endsWith('.mp3'))
+	const artFound = await metadataManager.extractMissingArt(filenames)
+	stationManager.rescanAll()
+	const fingerprintingStarted = fingerprinting === null
+	fingerprinting ??= metadataManager
+		.fingerprintMissing(filenames)
+		.then(added => console.log(`[Duplicates] Fingerprinted ${added} track(s)`))
+		.catch(err => console.error('[Duplicates] Fingerprinting failed:', err))
+		.finally(() => {
+			fingerprinting = null
+		})
 	res.json({
 		success: true,
 		message: 'Playlist rescanned',
-		trackCount: playlistManager.getTracks().length,
+		trackCount: stationManager.getDefault().playlist.getTracks().length,
+		artFound,
+		fingerprintingStarted,
 	})
 })
 
-// ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Get the playback mode
+ * GET /admin/playlist/mode (or /admin/stations/:stationId/playlist/mode)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(
+	['/admin/playlist/mode', '/admin/stations/:stationId/playlist/mode'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		res.json(station.playlist.getPlaybackMode())
+	},
+)
+
+/**
+ * Set the playback mode (takes effect from the next track)
+ * PUT /admin/playlist/mode (or /admin/stations/:stationId/playlist/mode)
+ * Headers: X-API-Key: <your-api-key>
+ * Body: { mode: 'sequential' | 'shuffle' | 'smart', smartWindow?: number }
+ */
+app.put(
+	['/admin/playlist/mode', '/admin/stations/:stationId/playlist/mode'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const { mode, smartWindow } = req.body ?? {}
+		if (!PLAYBACK_MODES.includes(mode)) {
+			res.status(400).json({ error: `mode must be one of: ${PLAYBACK_MODES.join(', ')}` })
+			return
+		}
+		if (
+			smartWindow !== undefined &&
+			(!Number.isInteger(smartWindow) || smartWindow < 0 || smartWindow > MAX_SMART_WINDOW)
+		) {
+			res.status(400).json({ error: `smartWindow must be an integer between 0 and ${MAX_SMART_WINDOW}` })
+			return
+		}
+
+		station.playlist.setPlaybackMode(mode, smartWindow)
+		res.json({ success: true, ...station.playlist.getPlaybackMode() })
+	},
+)
+
+/**
+ * Replace the playlist order
+ * PUT /admin/playlist/order (or /admin/stations/:stationId/playlist/order)
+ * Headers: X-API-Key: <your-api-key>
+ * Body: { filenames: string[] } — every track in the station, in the new order
+ */
+app.put(
+	['/admin/playlist/order', '/admin/stations/:stationId/playlist/order'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const filenames = req.body?.filenames
+		if (!isFilenameList(filenames) || !station.playlist.setOrder(filenames)) {
+			res.status(400).json({ error: 'filenames must list every track in the playlist exactly once' })
+			return
+		}
+
+		res.json({
+			success: true,
+			tracks: station.playlist.getTracks(),
+			currentIndex: station.playlist.getCurrentIndex(),
+		})
+	},
+)
+
+/**
+ * Move one track to a new position
+ * POST /admin/playlist/move (or /admin/stations/:stationId/playlist/move)
+ * Headers: X-API-Key: <your-api-key>
+ * Body: { trackId | filename, position } — position is 0-based
+ */
+app.post(
+	['/admin/playlist/move', '/admin/stations/:stationId/playlist/move'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const body = req.body ?? {}
+		if (!Number.isInteger(body.position) || body.position < 0) {
+			res.status(400).json({ error: 'position must be a non-negative integer' })
+			return
+		}
+
+		const filename = resolveTrackFilename(station, body)
+		if (!filename || !station.playlist.moveTrack(filename, body.position)) {
+			res.status(404).json({ error: 'Track not found' })
+			return
+		}
+
+		res.json({
+			success: true,
+			tracks: station.playlist.getTracks(),
+			currentIndex: station.playlist.getCurrentIndex(),
+		})
+	},
+)
+
+/**
+ * Skip to a track right now
+ * POST /admin/playlist/play-now (or /admin/stations/:stationId/playlist/play-now)
+ * Headers: X-API-Key: <your-api-key>
+ * Body: { trackId | filename }
+ */
+app.post(
+	['/admin/playlist/play-now', '/admin/stations/:stationId/playlist/play-now'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const filename = resolveTrackFilename(station, req.body ?? {})
+		if (!filename || !station.playlist.playNow(filename)) {
+			res.status(404).json({ error: 'Track not found' })
+			return
+		}
+
+		res.json({ success: true, message: `Now playing ${filename}` })
+	},
+)
+
+/**
+ * Get the up-next queue
+ * GET /admin/queue (or /admin/stations/:stationId/queue)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(['/admin/queue', '/admin/stations/:stationId/queue'], requireAuth, (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	res.json({ queue: station.playlist.getQueue() })
+})
+
+/**
+ * Enqueue a track
+ * POST /admin/queue (or /admin/stations/:stationId/queue)
+ * Headers: X-API-Key: <your-api-key>
+ * Body: { trackId | filename, position? } — position is 0-based, default end of queue
+ */
+app.post(['/admin/queue', '/admin/stations/:stationId/queue'], requireAuth, (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	const body = req.body ?? {}
+	if (body.position !== undefined && (!Number.isInteger(body.position) || body.position < 0)) {
+		res.status(400).json({ error: 'position must be a non-negative integer' })
+		return
+	}
+
+	const filename = resolveTrackFilename(station, body)
+	const entry = filename && station.playlist.enqueue(filename, { source: 'admin', position: body.position })
+	if (!entry) {
+		res.status(404).json({ error: 'Track not found' })
+		return
+	}
+
+	res.status(201).json({ success: true, entry, queue: station.playlist.getQueue() })
+})
+
+/**
+ * Reorder the queue
+ * PUT /admin/queue (or /admin/stations/:stationId/queue)
+ * Headers: X-API-Key: <your-api-key>
+ * Body: { ids: string[] } — every current entry id, in the new order
+ */
+app.put(['/admin/queue', '/admin/stations/:stationId/queue'], requireAuth, (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	const ids = req.body?.ids
+	if (
+		!Array.isArray(ids) ||
+		!ids.every(id => typeof id === 'string') ||
+		!station.playlist.reorderQueue(ids)
+	) {
+		res.status(400).json({ error: 'ids must list every queue entry id exactly once' })
+		return
+	}
+
+	res.json({ success: true, queue: station.playlist.getQueue() })
+})
+
+/**
+ * Remove a queue entry
+ * DELETE /admin/queue/:entryId (or /admin/stations/:stationId/queue/:entryId)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.delete(
+	['/admin/queue/:entryId', '/admin/stations/:stationId/queue/:entryId'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const entryId = req.params.entryId
+		if (!entryId || !station.playlist.removeFromQueue(entryId)) {
+			res.status(404).json({ error: 'Queue entry not found' })
+			return
+		}
+
+		res.json({ success: true, queue: station.playlist.getQueue() })
+	},
+)
+
+/**
+ * Reporting window from `?days=` (1-366, default `fallback`), ending now
+ */
+const analyticsRange = (req: Request, fallback: number): { from: number; to: number; days: number } => {
+	const requested = Number(req.query.days)
+	const days = Number.isInteger(requested) && requested >= 1 ? Math.min(requested, 366) : fallback
+	const to = Date.now()
+	return { from: to - days * 24 * 60 * 60 * 1000, to, days }
+}
+
+/**
+ * Peak concurrent listeners across all outputs
+ * GET /admin/analytics/peak?days=7 (or /admin/stations/:stationId/analytics/peak)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(
+	['/admin/analytics/peak', '/admin/stations/:stationId/analytics/peak'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const { from, to, days } = analyticsRange(req, 7)
+		res.json({ days, ...analytics.getPeakListeners(station.id, from, to) })
+	},
+)
+
+/**
+ * Listener-hours per UTC day
+ * GET /admin/analytics/listener-hours?days=30 (or /admin/stations/:stationId/analytics/listener-hours)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(
+	['/admin/analytics/listener-hours', '/admin/stations/:stationId/analytics/listener-hours'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const { from, to, days } = analyticsRange(req, 30)
+		res.json({ days, daily: analytics.getListenerHours(station.id, from, to) })
+	},
+)
+
+/**
+ * Per-track average retention and skip-off rate
+ * GET /admin/analytics/tracks?days=30&limit=50 (or /admin/stations/:stationId/analytics/tracks)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(
+	['/admin/analytics/tracks', '/admin/stations/:stationId/analytics/tracks'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const { from, to, days } = analyticsRange(req, 30)
+		const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500)
+		res.json({ days, tracks: analytics.getTrackRetention(station.id, from, to, limit) })
+	},
+)
+
+/**
+ * Recent listener sessions with client details and the tracks each heard
+ * GET /admin/analytics/sessions?limit=50 (or /admin/stations/:stationId/analytics/sessions)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(
+	['/admin/analytics/sessions', '/admin/stations/:stationId/analytics/sessions'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500)
+		res.json({ sessions: analytics.getRecentSessions(station.id, limit) })
+	},
+)
+
+/**
+ * The station's tracks ranked by listener reactions, to find ones to prune
+ * GET /admin/reactions?sort=disliked&minVotes=1&limit=50 (or /admin/stations/:stationId/reactions)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(
+	['/admin/reactions', '/admin/stations/:stationId/reactions'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const sort: ReactionRankOrder = req.query.sort === 'liked' ? 'liked' : 'disliked'
+		const minVotes = Math.max(Number(req.query.minVotes) || 1, 1)
+		const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500)
+		const tracks = new Map(station.playlist.getTracks().map(track => [track.id, track]))
+		res.json({
+			sort,
+			tracks: reactions.rank([...tracks.keys()], sort, minVotes, limit).map(ranked => {
+				const track = tracks.get(ranked.trackId)
+				return {
+					...ranked,
+					filename: track && path.basename(track.path),
+					title: track?.title,
+					artist: track?.artist,
+				}
+			}),
+		})
+	},
+)
+
+/**
+ * Live source status (null when nobody is live)
+ * GET /admin/live (or /admin/stations/:stationId/live)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(['/admin/live', '/admin/stations/:stationId/live'], requireAuth, (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	res.json({ live: station.engine.getLiveSource()?.getStatus() ?? null })
+})
+
+/**
+ * Disconnect the live source; the playlist resumes
+ * DELETE /admin/live (or /admin/stations/:stationId/live)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.delete(['/admin/live', '/admin/stations/:stationId/live'], requireAuth, (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	const source = station.engine.getLiveSource()
+	if (!source) {
+		res.status(404).json({ error: 'No live source connected' })
+		return
+	}
+	station.engine.endLive(source)
+	res.json({ success: true })
+})
+
+/**
+ * List the station's broadcast recordings, newest first. With `?at=` (ISO time
+ * or epoch ms), lists only the recordings covering that moment, with the
+ * offset to seek to and what was playing.
+ * GET /admin/recordings (or /admin/stations/:stationId/recordings)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(
+	['/admin/recordings', '/admin/stations/:stationId/recordings'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		if (req.query.at !== undefined) {
+			const raw = String(req.query.at)
+			const at = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw)
+			if (!Number.isFinite(at)) {
+				res.status(400).json({ error: 'at must be an ISO time or epoch milliseconds' })
+				return
+			}
+			res.json({ at, matches: station.archive.findAt(at) })
+			return
+		}
+
+		res.json({ ...station.archive.getStatus(), recordings: station.archive.list() })
+	},
+)
+
+/**
+ * Start an on-demand recording of the station's output
+ * POST /admin/recordings/start (or /admin/stations/:stationId/recordings/start)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.post(
+	['/admin/recordings/start', '/admin/stations/:stationId/recordings/start'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		if (station.archive.getStatus().manual) {
+			res.status(409).json({ error: 'A recording is already running' })
+			return
+		}
+		const recording = station.archive.startManual()
+		if (!recording) {
+			res.status(500).json({ error: 'Failed to start recording' })
+			return
+		}
+		res.status(201).json({ success: true, recording })
+	},
+)
+
+/**
+ * Finish the on-demand recording
+ * POST /admin/recordings/stop (or /admin/stations/:stationId/recordings/stop)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.post(
+	['/admin/recordings/stop', '/admin/stations/:stationId/recordings/stop'],
+	requireAuth,
+	async (req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const recording = await station.archive.stopManual()
+		if (!recording) {
+			res.status(404).json({ error: 'No recording running' })
+			return
+		}
+		res.json({ success: true, recording })
+	},
+)
+
+/**
+ * Download a recording's audio (supports Range requests)
+ * GET /admin/recordings/:name (or /admin/stations/:stationId/recordings/:name)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(
+	['/admin/recordings/:name', '/admin/stations/:stationId/recordings/:name'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const name = String(req.params.name).replace(/\.mp3$/, '')
+		if (!parseRecordingName(name) || !station.archive.getSidecar(name)) {
+			res.status(404).json({ error: 'Recording not found' })
+			return
+		}
+		res.attachment(`${station.id}-${name}.mp3`)
+		// The archive lives under .radio-state, which sendFile skips by default
+		res.sendFile(station.archive.audioPath(name), { dotfiles: 'allow' })
+	},
+)
+
+/**
+ * A recording's track changes, as JSON or (?format=cue) a cue sheet
+ * GET /admin/recordings/:name/cues (or /admin/stations/:stationId/recordings/:name/cues)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(
+	['/admin/recordings/:name/cues', '/admin/stations/:stationId/recordings/:name/cues'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const sidecar = station.archive.getSidecar(String(req.params.name))
+		if (!sidecar) {
+			res.status(404).json({ error: 'Recording not found' })
+			return
+		}
+		if (req.query.format === 'cue') {
+			res.type('application/x-cue')
+			res.attachment(`${station.id}-${sidecar.name}.cue`)
+			res.send(buildCueSheet(sidecar, station.name))
+			return
+		}
+		res.json(sidecar)
+	},
+)
+
+/**
+ * Delete a finished recording
+ * DELETE /admin/recordings/:name (or /admin/stations/:stationId/recordings/:name)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.delete(
+	['/admin/recordings/:name', '/admin/stations/:stationId/recordings/:name'],
+	requireAuth,
+	async (req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const name = String(req.params.name)
+		const sidecar = station.archive.getSidecar(name)
+		if (!sidecar) {
+			res.status(404).json({ error: 'Recording not found' })
+			return
+		}
+		if (!(await station.archive.delete(name))) {
+			res.status(409).json({ error: 'Recording is still running' })
+			return
+		}
+		res.json({ success: true, message: `Deleted ${name}` })
+	},
+)
+
+/**
+ * Get the schedule: timezone, pools and weekly slots
+ * GET /admin/schedule (or /admin/stations/:stationId/schedule)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(
+	['/admin/schedule', '/admin/stations/:stationId/schedule'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		res.json({ ...station.scheduler.getConfig(), current: station.scheduler.getActive() })
+	},
+)
+
+/**
+ * Replace the schedule (takes effect from the next track)
+ * PUT /admin/schedule (or /admin/stations/:stationId/schedule)
+ * Headers: X-API-Key: <your-api-key>
+ * Body: { timezone, pools: [{ id, name, tags?, tracks? }], slots: [{ id, name, poolId, days, start, end }] }
+ */
+app.put(
+	['/admin/schedule', '/admin/stations/:stationId/schedule'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const result = validateSchedule(req.body)
+		if ('error' in result) {
+			res.status(400).json({ error: result.error })
+			return
+		}
+
+		station.scheduler.setConfig(result.config)
+		res.json({ success: true, ...result.config, current: station.scheduler.getActive() })
+	},
+)
+
+/**
+ * Remove every pool and slot (the whole rotation plays again)
+ * DELETE /admin/schedule (or /admin/stations/:stationId/schedule)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.delete(
+	['/admin/schedule', '/admin/stations/:stationId/schedule'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		station.scheduler.setConfig(emptySchedule())
+		res.json({ success: true })
+	},
+)
+
+/**
+ * List the jingles library
+ * GET /admin/jingles
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get('/admin/jingles', requireAuth, (req: Request, res: Response) => {
+	const jingles = listJingles().map(filename => ({
+		filename,
+		size: fs.statSync(path.join(JINGLES_DIR, filename)).size,
+	}))
+	res.json({ count: jingles.length, jingles })
+})
+
+/**
+ * Upload a jingle (normalized like songs, so handoffs stay gapless)
+ * POST /admin/jingles
+ * Headers: X-API-Key: <your-api-key>
+ * Body: multipart/form-data with 'jingle' field
+ */
+app.post(
+	'/admin/jingles',
+	requireAuth,
+	jingleUpload.single('jingle'),
+	async (req: Request, res: Response) => {
+		if (!req.file) {
+			res.status(400).json({ error: 'No file uploaded' })
+			return
+		}
+
+		const uploaded = path.basename(uploadFilename(req.file))
+		try {
+			const norm = await normalizeInPlace(req.file.path)
+			if (norm.status === 'failed') {
+				console.warn(`[Upload] Normalization skipped for jingle ${uploaded}: ${norm.error}`)
+			}
+
+			// Moved in only now, so a jingle is never picked while it's encoding, and
+			// under a name of its own rather than over an existing jingle
+			fs.mkdirSync(JINGLES_DIR, { recursive: true })
+			const filename = claimFilename(
+				JINGLES_DIR,
+				path.extname(uploaded).toLowerCase() === '.mp3' ? uploaded : mp3Filename(uploaded),
+			)
+			const filepath = path.join(JINGLES_DIR, filename)
+			try {
+				fs.renameSync(req.file.path, filepath)
+			} catch (err) {
+				fs.rmSync(filepath, { force: true })
+				throw err
+			}
+
+			res.json({
+				success: true,
+				filename,
+				size: fs.statSync(filepath).size,
+				normalized: norm.status === 'normalized',
+				message: 'Jingle uploaded successfully',
+			})
+		} finally {
+			fs.rmSync(req.file.path, { force: true })
+		}
+	},
+)
+
+/**
+ * Delete a jingle
+ * DELETE /admin/jingles/:filename
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.delete('/admin/jingles/:filename', requireAuth, (req: Request, res: Response) => {
+	const filename = String(req.params.filename)
+	if (path.basename(filename) !== filename || !listJingles().includes(filename)) {
+		res.status(404).json({ error: 'Jingle not found' })
+		return
+	}
+
+	for (const station of stationManager.list()) {
+		station.jingles.forget(filename)
+	}
+	fs.unlinkSync(path.join(JINGLES_DIR, filename))
+	res.json({ success: true, message: `Deleted ${filename}` })
+})
+
+/**
+ * Get when jingles play on a station
+ * GET /admin/jingles/settings (or /admin/stations/:stationId/jingles)
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get(
+	['/admin/jingles/settings', '/admin/stations/:stationId/jingles'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		res.json(station.jingles.getStatus())
+	},
+)
+
+/**
+ * Set when jingles play on a station (0 turns a trigger off)
+ * PUT /admin/jingles/settings (or /admin/stations/:stationId/jingles)
+ * Headers: X-API-Key: <your-api-key>
+ * Body: { everyTracks?: number, everyMinutes?: number }
+ */
+app.put(
+	['/admin/jingles/settings', '/admin/stations/:stationId/jingles'],
+	requireAuth,
+	(req: Request, res: Response) => {
+		const station = resolveStation(req, res)
+		if (!station) return
+
+		const { everyTracks, everyMinutes } = req.body ?? {}
+		for (const [key, value] of Object.entries({ everyTracks, everyMinutes })) {
+			if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+				res.status(400).json({ error: `${key} must be a non-negative integer` })
+				return
+			}
+		}
+
+		station.jingles.setSettings({
+			...(everyTracks !== undefined && { everyTracks }),
+			...(everyMinutes !== undefined && { everyMinutes }),
+		})
+		res.json({ success: true, ...station.jingles.getStatus() })
+	},
+)
+
+// Bare filenames only: no path separators, so they can't escape SONGS_DIR
+const isFilenameList = (value: unknown): value is string[] =>
+	Array.isArray(value) && value.every(f => typeof f === 'string' && f !== '' && path.basename(f) === f)
+
+/**
+ * List stations with their track assignments
+ * GET /admin/stations
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.get('/admin/stations', requireAuth, (_req: Request, res: Response) => {
+	res.json({
+		stations: stationManager.list().map(station => ({
+			id: station.id,
+			name: station.name,
+			// null = plays the whole library (default station)
+			tracks: stationManager.getAssignedTracks(station.id),
+			status: station.engine.getStatus(),
+		})),
+	})
+})
+
+/**
+ * Create a station
+ * POST /admin/stations
+ * Headers: X-API-Key: <your-api-key>
+ * Body: { id, name?, tracks?: string[] }
+ */
+app.post('/admin/stations', requireAuth, (req: Request, res: Response) => {
+	const { id, name, tracks } = req.body ?? {}
+
+	if (typeof id !== 'string' || !isValidStationId(id)) {
+		res.status(400).json({
+			error: 'Invalid station id',
+			message: 'Use 1-32 lowercase letters, digits or dashes',
+		})
+		return
+	}
+	if (id === DEFAULT_STATION_ID || stationManager.get(id)) {
+		res.status(409).json({ error: 'Station already exists' })
+		return
+	}
+	if (tracks !== undefined && !isFilenameList(tracks)) {
+		res.status(400).json({ error: 'tracks must be an array of filenames' })
+		return
+	}
+
+	const station = stationManager.create(id, typeof name === 'string' && name ? name : id, tracks ?? [])
+	res.status(201).json({
+		success: true,
+		station: { id: station.id, name: station.name, tracks: stationManager.getAssignedTracks(station.id) },
+	})
+})
+
+/**
+ * Delete a station (disconnects its listeners)
+ * DELETE /admin/stations/:stationId
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.delete('/admin/stations/:stationId', requireAuth, (req: Request, res: Response) => {
+	const stationId = req.params.stationId
+	if (stationId === DEFAULT_STATION_ID) {
+		res.status(400).json({ error: 'The default station cannot be deleted' })
+		return
+	}
+	if (!stationId || !stationManager.delete(stationId)) {
+		res.status(404).json({ error: 'Station not found' })
+		return
+	}
+	res.json({ success: true, message: `Deleted station ${stationId}` })
+})
+
+/**
+ * Replace (PUT) or extend (POST) a station's track assignment
+ * PUT|POST /admin/stations/:stationId/tracks
+ * Headers: X-API-Key: <your-api-key>
+ * Body: { filenames: string[] }
+ */
+const assignStationTracks = (mode: 'replace' | 'add') => (req: Request, res: Response) => {
+	const stationId = req.params.stationId
+	if (stationId === DEFAULT_STATION_ID) {
+		res.status(400).json({ error: 'The default station always plays the whole library' })
+		return
+	}
+	if (!stationId || !stationManager.get(stationId)) {
+		res.status(404).json({ error: 'Station not found' })
+		return
+	}
+
+	const filenames = req.body?.filenames
+	if (!isFilenameList(filenames)) {
+		res.status(400).json({ error: 'filenames must be an array of filenames' })
+		return
+	}
+
+	if (mode === 'replace') {
+		stationManager.setTracks(stationId, filenames)
+	} else {
+		stationManager.addTracks(stationId, filenames)
+	}
+
+	res.json({ success: true, tracks: stationManager.getAssignedTracks(stationId) })
+}
+
+app.put('/admin/stations/:stationId/tracks', requireAuth, assignStationTracks('replace'))
+app.post('/admin/stations/:stationId/tracks', requireAuth, assignStationTracks('add'))
+
+/**
+ * Unassign a track from a station (the song stays in the library)
+ * DELETE /admin/stations/:stationId/tracks/:filename
+ * Headers: X-API-Key: <your-api-key>
+ */
+app.delete('/admin/stations/:stationId/tracks/:filename', requireAuth, (req: Request, res: Response) => {
+	const { stationId, filename } = req.params
+	if (stationId === DEFAULT_STATION_ID) {
+		res.status(400).json({ error: 'The default station always plays the whole library' })
+		return
+	}
+	if (!stationId || !filename || !stationManager.removeTracks(stationId, [filename])) {
+		res.status(404).json({ error: 'Station not found' })
+		return
+	}
+	res.json({ success: true, tracks: stationManager.getAssignedTracks(stationId) })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────
 // PLAYLIST API
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
  * Get all tracks and current playing index
  */
-app.get('/api/tracks', (req: Request, res: Response) => {
+app.get(['/api/tracks', '/stations/:stationId/tracks'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
 	res.json({
-		tracks: playlistManager.getTracks(),
-		currentIndex: playlistManager.getCurrentIndex(),
+		tracks: station.playlist
+			.getTracks()
+			.map(track => ({ ...track, reactions: reactions.getCounts(track.id) })),
+		currentIndex: station.playlist.getCurrentIndex(),
 	})
 })
 
 /**
  * SSE endpoint for playlist/track updates
  */
-app.get('/api/playlist/events', (req: Request, res: Response) => {
-	playlistManager.addSSEClient(res)
+app.get(['/api/playlist/events', '/stations/:stationId/playlist/events'], (req: Request, res: Response) => {
+	const station = resolveStation(req, res)
+	if (!station) return
+
+	station.playlist.addSSEClient(res)
 })
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -500,31 +2210,26 @@ app.use(express.static(path.join(__dirname, '../public')))
 // START SERVER
 // ─────────────────────────────────────────────────────────────────────────────
 
-// Start the streaming engine in the background
-engine.start(
-	async () => playlistManager.peekNextTrack(),
-	async track => {
-		const committedTrack = playlistManager.commitNextTrack()
-
-		if (!committedTrack) {
-			return undefined
-		}
-
-		if (committedTrack.id !== track.id) {
-			console.warn(
-				`[Server] Track commit mismatch. Expected ${track.title}, got ${committedTrack.title}. Using committed track.`,
-			)
-		}
-
-		playlistManager.notifyTrackChange(committedTrack)
-		return committedTrack
-	},
-)
+// Start every station's streaming engine in the background
+stationManager.startAll()
+
+// Pick up upload jobs left queued or cut short by the last shutdown
+const staleTempFiles =
+	removeStaleTempFiles(UPLOADS_DIR) + removeStaleTempFiles(SONGS_DIR) + removeStaleTempFiles(JINGLES_DIR)
+if (staleTempFiles > 0) console.log(`[Upload] Removed ${staleTempFiles} unfinished encode(s)`)
+// Uploads of jobs failed on startup after too many interrupted runs
+const waitingUploads = new Set(uploadJobs.list({ status: 'queued' }).map(job => path.basename(job.file)))
+const orphanedUploads = fs.existsSync(UPLOADS_DIR)
+	? fs.readdirSync(UPLOADS_DIR).filter(name => !waitingUploads.has(name))
+	: []
+for (const name of orphanedUploads) fs.rmSync(path.join(UPLOADS_DIR, name), { force: true })
+if (orphanedUploads.length > 0) console.log(`[Upload] Removed ${orphanedUploads.length} abandoned upload(s)`)
+uploadJobs.start()
 
 // Graceful shutdown
-const shutdown = () => {
+const shutdown = async () => {
 	console.log('\nShutting down...')
-	engine.stop()
+	await stationManager.stopAll()
 	process.exit(0)
 }
 
@@ -543,7 +2248,9 @@ app.listen(PORT, () => {
 ║  Audio Stream:    http://localhost:${PORT}/stream               ║
 ║  Now Playing:     http://localhost:${PORT}/now-playing          ║
 ║  Live Updates:    http://localhost:${PORT}/now-playing/events   ║
+║  HLS Playlist:    http://localhost:${PORT}/hls/live.m3u8        ║
 ║  Status:          http://localhost:${PORT}/status               ║
+║  Stations:        http://localhost:${PORT}/stations             ║
 ║                                                               ║
 ║  Test the stream:                                             ║
 ║  curl -N http://localhost:${PORT}/stream | mpv -                ║
@@ -0,0 +1,505 @@
+/**
+ * STATION MANAGER
+ * ===============
+ * Owns every named station (channel) served by this process. A station is a
+ * StreamEngine loop paired with its own PlaylistManager, state directory and
+ * listener set, so "study" and "sleep" channels can run side by side from one
+ * shared songs library.
+ *
+ * - The `default` station always plays the whole library and keeps its state
+ *   in `.radio-state/state.json`, so the legacy top-level routes keep working.
+ * - Named stations play the filenames assigned to them and keep their state in
+ *   `.radio-state/stations/<id>/`. Their definitions live in `stations.json`.
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { ListenerAnalytics, type StationAnalytics } from './analytics'
+import { ArchiveRecorder, DEFAULT_ARCHIVE_RETENTION_HOURS, parseArchiveSetting } from './archiveRecorder'
+import { parseTransitionMs } from './crossfade'
+import {
+	DEFAULT_HLS_SEGMENT_SECONDS,
+	DEFAULT_HLS_WINDOW_SEGMENTS,
+	HlsPublisher,
+	parseHlsSetting,
+} from './hls'
+import { DEFAULT_ICY_METAINT } from './icy'
+import { JingleRotation, parseJingleSetting } from './jingles'
+import { metadataManager } from './metadataManager'
+import { parsePacingLeadMs, parsePacingStrategy } from './pacing'
+import {
+	DEFAULT_HISTORY_MAX_ENTRIES,
+	DEFAULT_HISTORY_RETENTION_DAYS,
+	PlayHistory,
+	parseHistorySetting,
+} from './playHistory'
+import { PlaylistManager } from './playlistManager'
+import { ReactionStore } from './reactions'
+import { Scheduler } from './scheduler'
+import { StreamEngine } from './streamEngine'
+import { MOUNT_DEFINITIONS, TranscodeMount } from './transcodeMount'
+
+const SONGS_DIR = path.join(__dirname, '../songs')
+// Store state inside songs folder so it persists with the volume on Railway
+const STATE_DIR = path.join(SONGS_DIR, '.radio-state')
+const STATIONS_FILE = path.join(STATE_DIR, 'stations.json')
+const STATIONS_STATE_DIR = path.join(STATE_DIR, 'stations')
+
+export const DEFAULT_STATION_ID = 'default'
+
+// Listener sessions and plays for every station (see analytics.ts)
+export const analytics = new ListenerAnalytics(path.join(STATE_DIR, 'analytics.sqlite'))
+
+// Listener likes and dislikes, shared by every station (see reactions.ts)
+export const reactions = new ReactionStore(path.join(STATE_DIR, 'reactions.sqlite'), filename =>
+	metadataManager.identify(filename),
+)
+
+// Lowercase slug, safe to use as a URL segment and a directory name
+const STATION_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/
+
+// Advertised to ICY-aware players on /stream (shared by all stations)
+const STATION_GENRE = process.env.STATION_GENRE || 'Lofi'
+const ICY_METAINT = Number(process.env.ICY_METAINT) || DEFAULT_ICY_METAINT
+
+// Track transitions (ms, 0 = hard cut)
+const CROSSFADE_MS = parseTransitionMs(process.env.CROSSFADE_MS)
+const FADE_ON_SKIP_MS = parseTransitionMs(process.env.FADE_ON_SKIP_MS)
+
+// Frame pacing (see pacing.ts)
+const PACING_STRATEGY = parsePacingStrategy(process.env.PACING_STRATEGY)
+const PACING_LEAD_MS = parsePacingLeadMs(process.env.PACING_LEAD_MS)
+
+// HLS rendition under /hls/ (see hls.ts)
+const HLS_SEGMENT_SECONDS = parseHlsSetting(process.env.HLS_SEGMENT_SECONDS, DEFAULT_HLS_SEGMENT_SECONDS)
+const HLS_WINDOW_SEGMENTS = parseHlsSetting(process.env.HLS_WINDOW_SEGMENTS, DEFAULT_HLS_WINDOW_SEGMENTS)
+
+// Default jingle triggers for stations without saved settings (0 = off)
+const JINGLE_EVERY_TRACKS = parseJingleSetting(process.env.JINGLE_EVERY_TRACKS, 0)
+const JINGLE_EVERY_MINUTES = parseJingleSetting(process.env.JINGLE_EVERY_MINUTES, 0)
+
+// Broadcast archive (see archiveRecorder.ts)
+const ARCHIVE_CONTINUOUS = process.env.ARCHIVE_CONTINUOUS === 'true'
+const ARCHIVE_RETENTION_HOURS = parseArchiveSetting(
+	process.env.ARCHIVE_RETENTION_HOURS,
+	DEFAULT_ARCHIVE_RETENTION_HOURS,
+)
+const ARCHIVE_MAX_BYTES = parseArchiveSetting(process.env.ARCHIVE_MAX_MB, 0) * 1024 * 1024
+
+// Play history retention (see playHistory.ts; 0 = no limit)
+const HISTORY_MAX_ENTRIES = parseHistorySetting(process.env.HISTORY_MAX_ENTRIES, DEFAULT_HISTORY_MAX_ENTRIES)
+const HISTORY_RETENTION_DAYS = parseHistorySetting(
+	process.env.HISTORY_RETENTION_DAYS,
+	DEFAULT_HISTORY_RETENTION_DAYS,
+)
+// Entries sent with each "recentlyPlayed" playlist event
+const RECENTLY_PLAYED_COUNT = 10
+
+/**
+ * Persisted definition of a named station
+ */
+export interface StationConfig {
+	id: string
+	name: string
+	tracks: string[] // Filenames assigned to this station
+	createdAt: number
+}
+
+export interface Station {
+	id: string
+	name: string
+	engine: StreamEngine
+	playlist: PlaylistManager
+	hls: HlsPublisher
+	mounts: TranscodeMount[] // Transcoded outputs, encoding only while listened to
+	scheduler: Scheduler // Weekly slots that narrow the rotation to a pool
+	jingles: JingleRotation // Station IDs between songs
+	archive: ArchiveRecorder // Recordings of what went out on air
+	history: PlayHistory // What played, when, and to how many
+}
+
+/**
+ * Runtime bookkeeping for a station. `assigned` is null for the default
+ * station, which always includes the entire library.
+ */
+interface StationEntry extends Station {
+	assigned: Set<string> | null
+	createdAt: number
+	stats: StationAnalytics // Released when the station is deleted
+}
+
+export function isValidStationId(id: string): boolean {
+	return STATION_ID_PATTERN.test(id)
+}
+
+class StationManager {
+	private stations: Map<string, StationEntry> = new Map()
+	private started: boolean = false
+
+	constructor() {
+		this.stations.set(
+			DEFAULT_STATION_ID,
+			this.createEntry(DEFAULT_STATION_ID, process.env.STATION_NAME || 'Lofi Radio', null, STATE_DIR, 0),
+		)
+
+		for (const config of this.loadConfigs()) {
+			if (!isValidStationId(config.id) || config.id === DEFAULT_STATION_ID) {
+				console.warn(`[StationManager] Ignoring invalid station id: ${config.id}`)
+				continue
+			}
+			this.stations.set(
+				config.id,
+				this.createEntry(
+					config.id,
+					config.name,
+					new Set(config.tracks),
+					path.join(STATIONS_STATE_DIR, config.id),
+					config.createdAt,
+				),
+			)
+		}
+
+		console.log(`[StationManager] Loaded ${this.stations.size} station(s)`)
+	}
+
+	private createEntry(
+		id: string,
+		name: string,
+		assigned: Set<string> | null,
+		stateDir: string,
+		createdAt: number,
+	): StationEntry {
+		const playlist = new PlaylistManager({
+			stateDir,
+			includeFile: assigned ? filename => assigned.has(filename) : undefined,
+		})
+		const stats = analytics.forStation(id)
+		const engine = new StreamEngine({
+			stationId: id,
+			name,
+			genre: STATION_GENRE,
+			icyMetaInt: ICY_METAINT,
+			crossfadeMs: CROSSFADE_MS,
+			fadeOnSkipMs: FADE_ON_SKIP_MS,
+			pacingStrategy: PACING_STRATEGY,
+			pacingLeadMs: PACING_LEAD_MS,
+			listenerObserver: stats,
+			reactionCounts: track => reactions.getCounts(track.id),
+		})
+		engine.addObserver(stats)
+		const hls = new HlsPublisher({
+			segmentSeconds: HLS_SEGMENT_SECONDS,
+			windowSegments: HLS_WINDOW_SEGMENTS,
+			listenerObserver: stats,
+		})
+		engine.addObserver(hls)
+		const mounts = MOUNT_DEFINITIONS.map(
+			definition => new TranscodeMount(definition, { name, genre: STATION_GENRE, listenerObserver: stats }),
+		)
+		for (const mount of mounts) {
+			engine.addObserver(mount)
+		}
+
+		// Connect the skip callback so deleted tracks and play-now can trigger skip.
+		// Either way the playlist's next pick has changed, so a handoff the engine
+		// already committed is dropped.
+		playlist.setSkipCallback(() => {
+			engine.skipCurrentTrack({ dropHandoff: true })
+		})
+
+		const scheduler = new Scheduler(stateDir)
+		playlist.setRotationFilter(() => scheduler.getRotationFilter())
+
+		const jingles = new JingleRotation({
+			stateDir,
+			defaults: { everyTracks: JINGLE_EVERY_TRACKS, everyMinutes: JINGLE_EVERY_MINUTES },
+		})
+
+		const archive = new ArchiveRecorder({
+			dir: path.join(stateDir, 'recordings'),
+			stationId: id,
+			continuous: ARCHIVE_CONTINUOUS,
+			retentionHours: ARCHIVE_RETENTION_HOURS,
+			maxBytes: ARCHIVE_MAX_BYTES,
+		})
+		engine.addObserver(archive)
+
+		const history = new PlayHistory({
+			stateDir,
+			maxEntries: HISTORY_MAX_ENTRIES,
+			retentionDays: HISTORY_RETENTION_DAYS,
+			trackIdFor: filename => metadataManager.identify(filename),
+			listenerCount: () =>
+				engine.getStatus().listenerCount +
+				hls.listenerCount() +
+				mounts.reduce((sum, mount) => sum + mount.listenerCount(), 0),
+		})
+		history.setRecordHandler(() => playlist.notifyRecentlyPlayed(history.recent(RECENTLY_PLAYED_COUNT)))
+		engine.addObserver(history)
+
+		return {
+			id,
+			name,
+			engine,
+			playlist,
+			hls,
+			mounts,
+			scheduler,
+			jingles,
+			archive,
+			history,
+			assigned,
+			createdAt,
+			stats,
+		}
+	}
+
+	private loadConfigs(): StationConfig[] {
+		try {
+			if (!fs.existsSync(STATIONS_FILE)) return []
+			return JSON.parse(fs.readFileSync(STATIONS_FILE, 'utf-8')) as StationConfig[]
+		} catch (err) {
+			console.error('[StationManager] Failed to load stations:', err)
+			return []
+		}
+	}
+
+	private saveConfigs(): void {
+		const configs: StationConfig[] = []
+		for (const entry of this.stations.values()) {
+			if (!entry.assigned) continue
+			configs.push({
+				id: entry.id,
+				name: entry.name,
+				tracks: [...entry.assigned],
+				createdAt: entry.createdAt,
+			})
+		}
+
+		try {
+			if (!fs.existsSync(STATE_DIR)) {
+				fs.mkdirSync(STATE_DIR, { recursive: true })
+			}
+			fs.writeFileSync(STATIONS_FILE, JSON.stringify(configs, null, 2))
+		} catch (err) {
+			console.error('[StationManager] Failed to save stations:', err)
+		}
+	}
+
+	/**
+	 * Start a station's streaming loop in the background
+	 */
+	private startEngine(station: Station): void {
+		station.engine.start(
+			async () => station.jingles.peek() ?? station.playlist.peekNextTrack(),
+			async track => {
+				// A jingle doesn't touch the playlist, so playingIndex stays on the last song
+				const jingle = station.jingles.commit(track)
+				if (jingle) {
+					return jingle
+				}
+
+				const committedTrack = station.playlist.commitNextTrack()
+
+				if (!committedTrack) {
+					return undefined
+				}
+
+				if (committedTrack.id !== track.id) {
+					console.warn(
+						`[StationManager] Track commit mismatch on ${station.id}. Expected ${track.title}, got ${committedTrack.title}. Using committed track.`,
+					)
+				}
+
+				station.jingles.recordSong()
+				station.playlist.notifyTrackChange(committedTrack)
+				return committedTrack
+			},
+		)
+	}
+
+	startAll(): void {
+		this.started = true
+		analytics.start()
+		for (const station of this.stations.values()) {
+			this.startEngine(station)
+		}
+	}
+
+	/**
+	 * Stop every station. Resolves once their recordings are flushed.
+	 */
+	async stopAll(): Promise<void> {
+		this.started = false
+		const recordings: Promise<void>[] = []
+		for (const station of this.stations.values()) {
+			station.engine.stop()
+			for (const mount of station.mounts) {
+				mount.closeAll()
+			}
+			recordings.push(station.archive.close())
+		}
+		analytics.stop()
+		await Promise.all(recordings)
+	}
+
+	get(id: string): Station | undefined {
+		return this.stations.get(id)
+	}
+
+	getDefault(): Station {
+		const station = this.stations.get(DEFAULT_STATION_ID)
+		if (!station) throw new Error('Default station missing')
+		return station
+	}
+
+	list(): Station[] {
+		return [...this.stations.values()]
+	}
+
+	/**
+	 * Filenames assigned to a named station, or null for the default station
+	 * (which plays the whole library)
+	 */
+	getAssignedTracks(id: string): string[] | null {
+		const entry = this.stations.get(id)
+		return entry?.assigned ? [...entry.assigned] : null
+	}
+
+	/**
+	 * Create a named station and start streaming it right away. Callers
+	 * validate the id (see {@link isValidStationId}) and uniqueness.
+	 */
+	create(id: string, name: string, tracks: string[]): Station {
+		const stateDir = path.join(STATIONS_STATE_DIR, id)
+		const entry = this.createEntry(id, name, new Set(tracks), stateDir, Date.now())
+		this.stations.set(id, entry)
+		this.saveConfigs()
+
+		if (this.started) {
+			this.startEngine(entry)
+		}
+
+		console.log(`[StationManager] Created station ${id} with ${tracks.length} track(s)`)
+		return entry
+	}
+
+	/**
+	 * Stop and remove a named station, disconnecting its listeners and
+	 * deleting its state directory. The default station cannot be deleted.
+	 */
+	delete(id: string): boolean {
+		const entry = this.stations.get(id)
+		if (!entry?.assigned) return false
+
+		entry.engine.stop()
+		entry.engine.disconnectAll()
+		entry.playlist.disconnectAll()
+		for (const mount of entry.mounts) {
+			mount.closeAll()
+		}
+		void entry.archive.close()
+		analytics.release(entry.stats)
+		this.stations.delete(id)
+		this.saveConfigs()
+
+		try {
+			fs.rmSync(path.join(STATIONS_STATE_DIR, id), { recursive: true, force: true })
+		} catch (err) {
+			console.error(`[StationManager] Failed to remove state for ${id}:`, err)
+		}
+
+		console.log(`[StationManager] Deleted station ${id}`)
+		return true
+	}
+
+	/**
+	 * Replace a named station's track assignment. Applied as a diff through
+	 * addTrack/removeTrack so the station's saved order and position survive.
+	 */
+	setTracks(id: string, filenames: string[]): boolean {
+		const entry = this.stations.get(id)
+		if (!entry?.assigned) return false
+
+		const wanted = new Set(filenames)
+		const removed = [...entry.assigned].filter(filename => !wanted.has(filename))
+		const added = filenames.filter(filename => !entry.assigned?.has(filename))
+		return this.applyAssignment(entry, added, removed)
+	}
+
+	addTracks(id: string, filenames: string[]): boolean {
+		const entry = this.stations.get(id)
+		if (!entry?.assigned) return false
+		return this.applyAssignment(entry, filenames, [])
+	}
+
+	removeTracks(id: string, filenames: string[]): boolean {
+		const entry = this.stations.get(id)
+		if (!entry?.assigned) return false
+		return this.applyAssignment(entry, [], filenames)
+	}
+
+	private applyAssignment(entry: StationEntry, added: string[], removed: string[]): boolean {
+		const assigned = entry.assigned
+		if (!assigned) return false
+
+		for (const filename of removed) {
+			if (assigned.delete(filename)) {
+				entry.playlist.removeTrack(filename)
+			}
+		}
+		for (const filename of added) {
+			if (assigned.has(filename)) continue
+			assigned.add(filename)
+			if (fs.existsSync(path.join(SONGS_DIR, filename))) {
+				entry.playlist.addTrack(filename)
+			}
+		}
+
+		this.saveConfigs()
+		return true
+	}
+
+	/**
+	 * A song was added to the library: every station that includes it (always
+	 * the default station) picks it up without interrupting playback
+	 */
+	addLibraryTrack(filename: string): void {
+		for (const entry of this.stations.values()) {
+			if (!entry.assigned || entry.assigned.has(filename)) {
+				entry.playlist.addTrack(filename)
+			}
+		}
+	}
+
+	/**
+	 * A song was deleted from the library: drop it from every station and from
+	 * the named stations' assignments
+	 */
+	removeLibraryTrack(filename: string): void {
+		let assignmentsChanged = false
+		for (const entry of this.stations.values()) {
+			const wasAssigned = entry.assigned?.delete(filename) ?? false
+			if (wasAssigned) {
+				assignmentsChanged = true
+			}
+			if (!entry.assigned || wasAssigned) {
+				entry.playlist.removeTrack(filename)
+			}
+		}
+		if (assignmentsChanged) {
+			this.saveConfigs()
+		}
+	}
+
+	/**
+	 * Reload track info on every station (e.g. after a metadata edit)
+	 */
+	rescanAll(): void {
+		for (const entry of this.stations.values()) {
+			entry.playlist.rescan()
+		}
+	}
+}
+
+export const stationManager = new StationManager()
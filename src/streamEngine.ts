@@ -1,7 +1,63 @@
+import { randomUUID } from 'node:crypto'
 import * as fs from 'node:fs'
 import type { Response } from 'express'
-import { Mp3FrameReader, PreciseTimer } from './mp3parser'
-import type { NowPlaying, Track } from './types'
+import {
+	framesForDuration,
+	RENDER_HEADROOM_MS,
+	renderCrossfade,
+	renderFadeOut,
+	TRANSITION_PRIMER_FRAMES,
+} from './crossfade'
+import {
+	createIcyClientState,
+	DEFAULT_ICY_METAINT,
+	formatStreamTitle,
+	type IcyClientState,
+	interleaveIcyMetadata,
+	toIcyHeaderValue,
+} from './icy'
+import type { LiveSource } from './liveSource'
+import {
+	burstWrites,
+	bytesSent,
+	framesBroadcast,
+	handoffGap,
+	type Labels,
+	preloadLatency,
+	reapedConnections,
+	stalledConnections,
+} from './metrics'
+import { Mp3FrameReader } from './mp3parser'
+import { createPacer, type FramePacer, type PacingStrategy } from './pacing'
+import type { ListenerObserver, Mp3Frame, NowPlaying, ReactionCounts, Track } from './types'
+
+export interface StreamEngineOptions {
+	stationId?: string // Station label on metrics
+	name?: string // Station name, sent as icy-name
+	genre?: string // Sent as icy-genre
+	icyMetaInt?: number // Audio bytes between inline ICY metadata blocks
+	crossfadeMs?: number // Overlap between consecutive tracks (0 = hard cut)
+	fadeOnSkipMs?: number // Fade-out length when a track is skipped (0 = cut)
+	pacingStrategy?: PacingStrategy // How frames are paced to real time (default precise)
+	pacingLeadMs?: number // Batched pacing: how far ahead of real time sends may run
+	listenerObserver?: ListenerObserver // Told about each /stream connection (analytics)
+	reactionCounts?: (track: Track) => ReactionCounts // Likes shown with now-playing
+}
+
+export interface AddClientOptions {
+	icyMetadata?: boolean // Client sent `Icy-MetaData: 1`
+}
+
+/**
+ * Sees everything the engine plays, e.g. to republish it in another format.
+ * Called synchronously from the streaming loop, so handlers must be cheap.
+ */
+export interface EngineObserver {
+	onTrackStart?(nowPlaying: NowPlaying): void
+	// `skipped`: cut short by a skip or a live source rather than played out
+	onTrackEnd?(nowPlaying: NowPlaying, endedAt: number, skipped: boolean): void
+	onFrame?(frame: Mp3Frame): void
+}
 
 interface StreamSession {
 	res: Response
@@ -10,28 +66,62 @@ interface StreamSession {
 
 // `stalledSince`: timestamp the socket last backpressured and hasn't drained
 // since (0 = healthy). A persistently stalled socket gets reaped.
+// `bytesSent`: audio bytes written so far (burst backlog + live frames).
+// `icy`: inline metadata counters, only for clients that asked for ICY metadata.
 interface ClientMeta {
 	stalledSince: number
+	bytesSent: number
+	icy: IcyClientState | null
 }
 
 interface PreloadedTrack {
 	track: Track
 	reader: Mp3FrameReader
-	firstFrame: ReturnType<Mp3FrameReader['readNextFrame']>
+	// Frames already read, played before reading on: the first frame from the
+	// preload, plus the rendered crossfade into this track if there is one
+	frames: Mp3Frame[]
 	preparedAt: number
 }
 
+// A transition being rendered. Once playback is down to `spliceAt` frames, the
+// remaining raw frames are replaced with the render (or kept if it failed).
+// `head`: the incoming track's opening frames that the crossfade covers.
+type PendingTransition =
+	| { kind: 'crossfade'; spliceAt: number; head: Mp3Frame[]; render: Promise<Mp3Frame[] | null> }
+	| { kind: 'fadeOut'; spliceAt: number; render: Promise<Mp3Frame[] | null> }
+
+// MPEG1 Layer III at 44.1 kHz, the canonical format
+const DEFAULT_FRAME_DURATION_MS = (1152 / 44100) * 1000
+
+// Raw frames still played after a skip while its fade-out renders
+const SKIP_RENDER_HEADROOM_MS = 400
+
+// How long a live source that ran dry gets to rebuffer before the rotation fills in
+const LIVE_UNDERRUN_WAIT_MS = 1500
+
+// A live source that sends nothing for this long is dropped
+const LIVE_STALL_TIMEOUT_MS = 10_000
+
+// Size of the burst-on-connect backlog (see StreamEngine.burstChunks)
+export const BURST_LIMIT_BYTES = 128 * 1024
+
 interface StreamTrackResult {
 	nextPreloaded: PreloadedTrack | null
+	skipped: boolean // Didn't play to the end
 }
 
 class StreamEngine {
 	private clients: Map<Response, ClientMeta> = new Map() // raw stream connection -> liveness
 	private sessions: Map<string, StreamSession> = new Map() // sessionId -> session
 	private sseClients: Set<Response> = new Set()
+	private observers: Set<EngineObserver> = new Set()
 	private isRunning: boolean = false
 	private skipRequested: boolean = false
+	// The requested skip also changed what plays next (see skipCurrentTrack)
+	private dropHandoffRequested: boolean = false
 	private nowPlaying: NowPlaying | null = null
+	// DJ source that preempts the playlist while connected (see liveSource.ts)
+	private live: LiveSource | null = null
 
 	// Silently-dropped sockets never emit 'close', so reap them actively to avoid
 	// leaking buffers/FDs and inflating the listener count.
@@ -48,13 +138,39 @@ class StreamEngine {
 	// *between* listeners is approximate (fine for radio; nobody A/Bs two devices).
 	private burstChunks: Buffer[] = []
 	private burstBytes = 0
-	private readonly BURST_LIMIT_BYTES = 128 * 1024
+
+	private readonly name: string
+	private readonly genre: string
+	private readonly icyMetaInt: number
+	// "Artist - Title" of the current track, for inline ICY metadata
+	private streamTitle: string
+	private readonly crossfadeMs: number
+	private readonly fadeOnSkipMs: number
+	// One schedule for the engine's lifetime, so a batched lead carries across tracks
+	private readonly pacer: FramePacer
+	private readonly listenerObserver: ListenerObserver | null
+	private readonly reactionCounts: ((track: Track) => ReactionCounts) | null
+	private readonly metricLabels: Labels
+
+	constructor(options: StreamEngineOptions = {}) {
+		this.name = options.name ?? 'Lofi Radio'
+		this.genre = options.genre ?? 'Lofi'
+		this.icyMetaInt = options.icyMetaInt ?? DEFAULT_ICY_METAINT
+		this.streamTitle = this.name
+		this.crossfadeMs = options.crossfadeMs ?? 0
+		this.fadeOnSkipMs = options.fadeOnSkipMs ?? 0
+		this.pacer = createPacer(options.pacingStrategy ?? 'precise', options.pacingLeadMs)
+		this.listenerObserver = options.listenerObserver ?? null
+		this.reactionCounts = options.reactionCounts ?? null
+		this.metricLabels = { station: options.stationId ?? 'default' }
+	}
 
 	/**
 	 * Add a new audio stream listener
 	 * @param sessionId - Unique session ID from client (for deduplication)
+	 * @param options.icyMetadata - Interleave Shoutcast-style title metadata
 	 */
-	addClient(res: Response, sessionId?: string): void {
+	addClient(res: Response, sessionId?: string, options: AddClientOptions = {}): void {
 		// Set headers for streaming audio
 		res.setHeader('Content-Type', 'audio/mpeg')
 		res.setHeader('Cache-Control', 'no-cache, no-store')
@@ -63,6 +179,18 @@ class StreamEngine {
 		res.setHeader('Access-Control-Allow-Origin', '*')
 		// Prevent buffering in nginx/proxies
 		res.setHeader('X-Accel-Buffering', 'no')
+		// Station info for Shoutcast/Icecast-aware players
+		res.setHeader('icy-name', toIcyHeaderValue(this.name))
+		res.setHeader('icy-genre', toIcyHeaderValue(this.genre))
+		if (options.icyMetadata) {
+			res.setHeader('icy-metaint', String(this.icyMetaInt))
+		}
+
+		const meta: ClientMeta = {
+			stalledSince: 0,
+			bytesSent: 0,
+			icy: options.icyMetadata ? createIcyClientState(this.icyMetaInt) : null,
+		}
 
 		// OS-level backstop for peers that vanished without a FIN; the reaper
 		// catches them sooner.
@@ -72,16 +200,19 @@ class StreamEngine {
 		// playback cushion immediately instead of underrunning at the live edge.
 		// Written synchronously before joining the live set so it can't interleave
 		// with a live frame (addClient has no await, so broadcast() can't run mid-way).
+		// The backlog counts toward the ICY metaint interval like any other audio.
 		if (this.burstBytes > 0) {
 			try {
-				res.write(Buffer.concat(this.burstChunks, this.burstBytes))
+				this.writeToClient(res, meta, Buffer.concat(this.burstChunks, this.burstBytes))
+				burstWrites.inc(this.metricLabels)
+				bytesSent.inc(this.metricLabels, this.burstBytes)
 			} catch (err) {
 				// Client may have already disconnected; the close handler cleans up.
 				console.error('[Stream] Burst write failed:', (err as Error).message)
 			}
 		}
 
-		this.clients.set(res, { stalledSince: 0 })
+		this.clients.set(res, meta)
 
 		// Track by session ID if provided (for accurate listener count)
 		if (sessionId) {
@@ -103,9 +234,19 @@ class StreamEngine {
 			console.log(`[Stream] Anonymous client connected. Total connections: ${this.clients.size}`)
 		}
 
+		const listenerKey = randomUUID()
+		this.listenerObserver?.onListenerStart({
+			key: listenerKey,
+			sessionId: sessionId ?? null,
+			mount: '/stream',
+			userAgent: res.req.headers['user-agent'] ?? null,
+			startedAt: Date.now(),
+		})
+
 		// Remove client when they disconnect
 		res.on('close', () => {
 			this.clients.delete(res)
+			this.listenerObserver?.onListenerEnd(listenerKey, Date.now())
 			if (sessionId) {
 				const session = this.sessions.get(sessionId)
 				if (session?.res === res) {
@@ -120,6 +261,7 @@ class StreamEngine {
 		res.on('error', err => {
 			console.error('[Stream] Client error:', err.message)
 			this.clients.delete(res)
+			this.listenerObserver?.onListenerEnd(listenerKey, Date.now())
 			if (sessionId) {
 				const session = this.sessions.get(sessionId)
 				if (session?.res === res) {
@@ -153,6 +295,7 @@ class StreamEngine {
 			}
 		}
 		if (reaped > 0) {
+			reapedConnections.inc(this.metricLabels, reaped)
 			console.log(
 				`[Stream] Reaped ${reaped} dead/stalled connection(s). ` +
 					`Unique listeners: ${this.sessions.size}, raw connections: ${this.clients.size}`,
@@ -193,26 +336,42 @@ class StreamEngine {
 
 	/**
 	 * Append a frame to the burst-on-connect ring buffer, trimming the oldest
-	 * frames once we exceed the byte cap. Frames are whole MP3 frames (the parser
-	 * allocates a fresh Buffer per frame), so the backlog is always frame-aligned.
+	 * frames once we exceed the byte cap. Frames are whole MP3 frames, so the
+	 * backlog is always frame-aligned. They're views into the parser's read-ahead
+	 * chunks, which are never reused, so holding them is safe. The cap counts
+	 * frame bytes; the chunk under the oldest frames can keep up to 64KB more alive.
 	 */
 	private appendToBurst(data: Buffer): void {
 		this.burstChunks.push(data)
 		this.burstBytes += data.length
-		while (this.burstBytes > this.BURST_LIMIT_BYTES && this.burstChunks.length > 1) {
+		while (this.burstBytes > BURST_LIMIT_BYTES && this.burstChunks.length > 1) {
 			const removed = this.burstChunks.shift()
 			if (removed) this.burstBytes -= removed.length
 		}
 	}
 
 	/**
-	 * Broadcast audio data to all connected stream clients
+	 * Write audio to one client, interleaving ICY metadata if it asked for it.
+	 * Returns the socket's write() result (false = backpressured).
 	 */
-	private broadcast(data: Buffer): void {
+	private writeToClient(client: Response, meta: ClientMeta, data: Buffer): boolean {
+		meta.bytesSent += data.length
+		const payload = meta.icy ? interleaveIcyMetadata(data, meta.icy, this.streamTitle) : data
+		return client.write(payload)
+	}
+
+	/**
+	 * Broadcast a frame to all connected stream clients and observers
+	 */
+	private broadcast(frame: Mp3Frame): void {
+		const data = frame.data
 		// Record into the burst backlog first so even a zero-listener stream keeps
 		// a warm cushion ready for the next client to connect.
 		this.appendToBurst(data)
+		this.notifyObservers(observer => observer.onFrame?.(frame))
+		framesBroadcast.inc(this.metricLabels)
 
+		let sent = 0
 		for (const [client, meta] of this.clients) {
 			if (client.writableEnded) {
 				this.clients.delete(client)
@@ -224,7 +383,9 @@ class StreamEngine {
 				continue
 			}
 			try {
-				if (!client.write(data)) {
+				sent += data.length
+				if (!this.writeToClient(client, meta, data)) {
+					stalledConnections.inc(this.metricLabels)
 					meta.stalledSince = Date.now()
 					client.once('drain', () => {
 						meta.stalledSince = 0
@@ -235,6 +396,39 @@ class StreamEngine {
 				this.clients.delete(client)
 			}
 		}
+		if (sent > 0) {
+			bytesSent.inc(this.metricLabels, sent)
+		}
+	}
+
+	/**
+	 * Run a callback on every observer. A throwing observer is logged and
+	 * skipped; it must never stall the stream.
+	 */
+	private notifyObservers(callback: (observer: EngineObserver) => void): void {
+		for (const observer of this.observers) {
+			try {
+				callback(observer)
+			} catch (err) {
+				console.error('[Engine] Observer error:', err)
+			}
+		}
+	}
+
+	// Counts for the song players show; none for a live source
+	private attachReactions(nowPlaying: NowPlaying): void {
+		const shown = nowPlaying.interstitial ? nowPlaying.lastSong : nowPlaying.track
+		if (!this.reactionCounts || !shown || nowPlaying.live) return
+		nowPlaying.reactions = this.reactionCounts(shown)
+	}
+
+	/**
+	 * Re-read the current song's reaction counts and push them to SSE clients
+	 */
+	refreshReactions(): void {
+		if (!this.nowPlaying) return
+		this.attachReactions(this.nowPlaying)
+		this.broadcastMetadata()
 	}
 
 	/**
@@ -261,8 +455,10 @@ class StreamEngine {
 
 	private prepareTrack(track: Track): PreloadedTrack | null {
 		const preparedAt = Date.now()
+		const prepareStart = performance.now()
 		const reader = new Mp3FrameReader(track.path)
 		const firstFrame = reader.readNextFrame()
+		preloadLatency.observe(this.metricLabels, (performance.now() - prepareStart) / 1000)
 
 		if (!firstFrame) {
 			reader.close()
@@ -273,7 +469,7 @@ class StreamEngine {
 		return {
 			track,
 			reader,
-			firstFrame,
+			frames: [firstFrame],
 			preparedAt,
 		}
 	}
@@ -313,6 +509,12 @@ class StreamEngine {
 	 * fire-and-forget state save) with the ~26ms wait for the last frame,
 	 * so by the time we return, the next track is ready to broadcast its
 	 * already-loaded first frame with near-zero gap.
+	 *
+	 * With crossfade enabled we read ahead of playback (fade + render headroom),
+	 * so "the last frame is read" happens a few seconds before the end: the
+	 * commit moves earlier and the crossfade renders while the remaining raw
+	 * frames play. The rendered overlap is handed to the next track as its
+	 * opening frames, so now-playing switches as the fade begins.
 	 */
 	private async streamTrack(
 		current: PreloadedTrack,
@@ -326,28 +528,128 @@ class StreamEngine {
 		)
 
 		this.skipRequested = false
-
-		this.nowPlaying = {
-			track: current.track,
-			startedAt: trackStartTs,
+		this.dropHandoffRequested = false
+
+		if (current.track.interstitial) {
+			// ICY title stays on the previous song through a jingle
+			const previous = this.nowPlaying
+			this.nowPlaying = {
+				track: current.track,
+				startedAt: trackStartTs,
+				interstitial: true,
+				lastSong: previous?.interstitial ? previous.lastSong : previous?.track,
+			}
+		} else {
+			this.nowPlaying = {
+				track: current.track,
+				startedAt: trackStartTs,
+			}
+			this.streamTitle = formatStreamTitle(current.track)
 		}
+		this.attachReactions(this.nowPlaying)
 		this.broadcastMetadata()
+		const nowPlaying = this.nowPlaying
+		this.notifyObservers(observer => observer.onTrackStart?.(nowPlaying))
 
-		const timer = new PreciseTimer()
+		const timer = this.pacer
+		timer.reset()
 		const reader = current.reader
 
+		// Frames read but not yet broadcast. Without crossfade this holds at most
+		// the one frame after the current one (enough to spot EOF).
+		const pending = [...current.frames]
+		const frameDurationMs = pending[0]?.header.frameDurationMs ?? DEFAULT_FRAME_DURATION_MS
+		const fadeFrames = this.crossfadeMs > 0 ? framesForDuration(this.crossfadeMs, frameDurationMs) : 0
+		const lookahead =
+			fadeFrames > 0
+				? fadeFrames + TRANSITION_PRIMER_FRAMES + framesForDuration(RENDER_HEADROOM_MS, frameDurationMs)
+				: 0
+		let readerDone = false
+		const fill = () => {
+			while (!readerDone && pending.length <= lookahead) {
+				const next = reader.readNextFrame()
+				if (next) {
+					pending.push(next)
+				} else {
+					readerDone = true
+				}
+			}
+		}
+		fill()
+
 		let frameCount = 0
 		let wasSkipped = false
-		let frame = current.firstFrame
+		let preempted = false
 		let nextPreloaded: PreloadedTrack | null = null
 		let committed = false
+		let dropHandoff = false
 		let boundaryMarkedAt: number | null = null
+		let transition: PendingTransition | null = null
+		// A crossfade still rendering is dropped; the next track keeps its opening
+		const cancelCrossfade = () => {
+			if (transition?.kind === 'crossfade' && nextPreloaded) {
+				nextPreloaded.frames = [...transition.head, ...nextPreloaded.frames]
+				transition = null
+			}
+		}
+
+		while (this.isRunning) {
+			// A live source takes over at this frame boundary
+			if (this.isLiveReady()) {
+				preempted = true
+				cancelCrossfade()
+				console.log(`[Engine] Live source preempting ${current.track.title} (at frame ${frameCount})`)
+				break
+			}
 
-		while (frame && this.isRunning && !this.skipRequested) {
-			this.broadcast(frame.data)
+			if (this.skipRequested) {
+				this.skipRequested = false
+				dropHandoff ||= this.dropHandoffRequested
+				this.dropHandoffRequested = false
+				// A second skip while fading out cuts immediately
+				const alreadyFading = wasSkipped
+				wasSkipped = true
+				console.log(`[Engine] Skipped: ${current.track.title} (at frame ${frameCount})`)
+				cancelCrossfade()
+				if (alreadyFading || this.fadeOnSkipMs === 0) break
+
+				transition = this.startFadeOut(pending, reader, frameDurationMs)
+				readerDone = true
+				if (!transition) break
+			}
+
+			// Splice point: swap the remaining raw frames for the rendered transition
+			if (transition && pending.length <= transition.spliceAt) {
+				const active = transition
+				transition = null
+				const waitStartedAt = Date.now()
+				const rendered = await active.render
+				const waitedMs = Date.now() - waitStartedAt
+				if (waitedMs > frameDurationMs) {
+					console.warn(`[Engine] Transition render was late by ${waitedMs}ms`)
+				}
+
+				if (active.kind === 'fadeOut') {
+					if (rendered) pending.splice(0, pending.length, ...rendered)
+				} else if (nextPreloaded) {
+					if (rendered) {
+						pending.length = 0
+						nextPreloaded.frames = [...rendered, ...nextPreloaded.frames]
+						console.log(`[Engine] Crossfading into ${nextPreloaded.track.title}`)
+					} else {
+						// Hard cut fallback: the next track starts from its own first frame
+						nextPreloaded.frames = [...active.head, ...nextPreloaded.frames]
+					}
+				}
+			}
+
+			const frame = pending.shift()
+			if (!frame) break
+
+			this.broadcast(frame)
 			timer.addTime(frame.header.frameDurationMs)
 
-			const nextFrame = reader.readNextFrame()
+			fill()
 			frameCount++
 
 			// Trigger preload once around 500 frames in (~13s). Done before EOF
@@ -360,10 +662,10 @@ class StreamEngine {
 			// The next track's first frame is already in memory (preloaded), so
 			// after this block the only gap is "exit loop → re-enter streamTrack
 			// → broadcast first frame", which is sub-millisecond.
-			if (!nextFrame && !committed) {
+			if (readerDone && !committed && !boundaryMarkedAt && !wasSkipped) {
 				boundaryMarkedAt = Date.now()
 				console.log(
-					`[Engine] Boundary reached for ${current.track.title} after ${frameCount} frames`,
+					`[Engine] Boundary reached for ${current.track.title} after ${frameCount + pending.length} frames`,
 				)
 
 				if (nextPreloaded) {
@@ -375,6 +677,9 @@ class StreamEngine {
 							console.log(
 								`[Engine] Committed handoff in ${Date.now() - boundaryMarkedAt}ms: ${result.title}`,
 							)
+							if (fadeFrames > 0) {
+								transition = this.startCrossfade(pending, nextPreloaded, fadeFrames)
+							}
 						} else {
 							console.warn('[Engine] commitNextTrack returned undefined during handoff')
 							this.closePreloadedTrack(nextPreloaded)
@@ -391,7 +696,6 @@ class StreamEngine {
 			}
 
 			await timer.wait()
-			frame = nextFrame
 
 			if (frameCount % 1150 === 0) {
 				console.log(
@@ -402,31 +706,106 @@ class StreamEngine {
 		}
 
 		if (boundaryMarkedAt) {
+			handoffGap.observe(this.metricLabels, (Date.now() - boundaryMarkedAt) / 1000)
 			console.log(
 				`[Engine] Track ended for ${current.track.title}; handoff gap so far ${Date.now() - boundaryMarkedAt}ms`,
 			)
 		}
 
-		if (this.skipRequested) {
+		// Skip requested after the last frame went out
+		if (this.skipRequested && !wasSkipped) {
 			wasSkipped = true
 			this.skipRequested = false
+			dropHandoff = this.dropHandoffRequested
+			this.dropHandoffRequested = false
 			console.log(`[Engine] Skipped: ${current.track.title} (at frame ${frameCount})`)
 		}
 
 		reader.close()
 
-		if (!wasSkipped) {
+		if (!wasSkipped && !preempted) {
 			console.log(`[Engine] Finished: ${current.track.title} (${frameCount} frames)`)
 		}
+		const stats = reader.getStats()
+		if (stats.resyncBytes > 0) {
+			console.warn(
+				`[Engine] Skipped ${stats.resyncBytes} non-frame bytes in ${stats.resyncs} place(s) in ${current.track.title}`,
+			)
+		}
 
-		// On skip, the preloaded track is no longer guaranteed to match the
-		// playlist's current head — throw it away and let the outer loop fetch fresh.
-		if (wasSkipped && nextPreloaded) {
+		// An uncommitted preload is no longer guaranteed to match the playlist's
+		// current head — throw it away and let the outer loop fetch fresh. A
+		// committed handoff has already been announced, so it plays next, after
+		// a skip or once a live set ends, unless the skip was to play something else.
+		const skipped = wasSkipped || preempted
+		if (nextPreloaded && (!committed || dropHandoff)) {
+			if (committed) console.log(`[Engine] Dropping committed handoff to ${nextPreloaded.track.title}`)
 			this.closePreloadedTrack(nextPreloaded)
-			return { nextPreloaded: null }
+			return { nextPreloaded: null, skipped }
+		}
+
+		return { nextPreloaded: committed ? nextPreloaded : null, skipped }
+	}
+
+	/**
+	 * Start rendering the crossfade into `next` over the last `fadeFrames` of
+	 * `pending`. Takes the incoming track's opening frames out of `next`; they
+	 * are given back (rendered or raw) at the splice point. Returns null when
+	 * either track is too short to overlap.
+	 */
+	private startCrossfade(
+		pending: Mp3Frame[],
+		next: PreloadedTrack,
+		fadeFrames: number,
+	): PendingTransition | null {
+		if (pending.length < fadeFrames + TRANSITION_PRIMER_FRAMES) return null
+
+		const head = next.frames.splice(0)
+		while (head.length < fadeFrames) {
+			const frame = next.reader.readNextFrame()
+			if (!frame) break
+			head.push(frame)
+		}
+		if (head.length < fadeFrames) {
+			next.frames = head
+			return null
+		}
+		next.frames = head.splice(fadeFrames)
+
+		const tail = pending.slice(-(fadeFrames + TRANSITION_PRIMER_FRAMES))
+		return {
+			kind: 'crossfade',
+			spliceAt: fadeFrames,
+			head,
+			render: renderCrossfade(tail, head, TRANSITION_PRIMER_FRAMES),
+		}
+	}
+
+	/**
+	 * Start rendering a fade-out for a skip. Keeps a short stretch of raw frames
+	 * to play while ffmpeg runs, then the faded frames, and drops the rest of
+	 * the track. Returns null when there's nothing left to fade.
+	 */
+	private startFadeOut(
+		pending: Mp3Frame[],
+		reader: Mp3FrameReader,
+		frameDurationMs: number,
+	): PendingTransition | null {
+		const fadeFrames = framesForDuration(this.fadeOnSkipMs, frameDurationMs)
+		const wanted =
+			framesForDuration(SKIP_RENDER_HEADROOM_MS, frameDurationMs) + TRANSITION_PRIMER_FRAMES + fadeFrames
+		while (pending.length < wanted) {
+			const frame = reader.readNextFrame()
+			if (!frame) break
+			pending.push(frame)
 		}
+		pending.splice(wanted)
 
-		return { nextPreloaded: committed ? nextPreloaded : null }
+		const fadeCount = Math.min(fadeFrames, pending.length)
+		if (fadeCount === 0) return null
+		const primerCount = Math.min(TRANSITION_PRIMER_FRAMES, pending.length - fadeCount)
+		const segment = pending.slice(pending.length - fadeCount - primerCount)
+		return { kind: 'fadeOut', spliceAt: fadeCount, render: renderFadeOut(segment, primerCount) }
 	}
 
 	/**
@@ -443,6 +822,11 @@ class StreamEngine {
 		let currentPreloaded: PreloadedTrack | null = null
 
 		while (this.isRunning) {
+			if (this.live && this.isLiveReady()) {
+				await this.streamLive(this.live)
+				continue
+			}
+
 			if (!currentPreloaded) {
 				const nextTrack = await peekNextTrack()
 
@@ -468,8 +852,11 @@ class StreamEngine {
 				}
 			}
 
+			const previous = this.nowPlaying
+			let skipped = false
 			try {
 				const result = await this.streamTrack(currentPreloaded, peekNextTrack, commitNextTrack)
+				skipped = result.skipped
 				// streamTrack has already committed the next track (with stale-check)
 				// before returning it, so currentPreloaded is either ready to play
 				// immediately or null (forcing a fresh peek+commit+prepare next iteration).
@@ -480,11 +867,119 @@ class StreamEngine {
 				currentPreloaded = null
 				await new Promise(resolve => setTimeout(resolve, 1000))
 			}
+
+			// Only if it actually started (streamTrack can fail before that)
+			const ended = this.nowPlaying
+			if (ended && ended !== previous) {
+				this.notifyObservers(observer => observer.onTrackEnd?.(ended, Date.now(), skipped))
+			}
 		}
 
 		this.closePreloadedTrack(currentPreloaded)
 	}
 
+	/**
+	 * Play a live source until it disconnects or runs dry, then return to the
+	 * rotation. Each title the DJ sends is reported to observers as a track.
+	 */
+	private async streamLive(source: LiveSource): Promise<void> {
+		console.log(`[Engine] Live: ${source.info.name ?? 'unnamed source'}`)
+		const timer = this.pacer
+		timer.reset()
+
+		const startSegment = (track: Track) => {
+			this.nowPlaying = { track, startedAt: Date.now(), live: true }
+			this.streamTitle = formatStreamTitle(track)
+			this.broadcastMetadata()
+			const nowPlaying = this.nowPlaying
+			this.notifyObservers(observer => observer.onTrackStart?.(nowPlaying))
+		}
+		const endSegment = () => {
+			const ended = this.nowPlaying
+			if (ended?.live) {
+				this.notifyObservers(observer => observer.onTrackEnd?.(ended, Date.now(), false))
+			}
+		}
+
+		startSegment(source.getTrack())
+		while (this.isRunning && this.live === source) {
+			const retitled = source.takeTitleChange()
+			if (retitled) {
+				endSegment()
+				startSegment(retitled)
+			}
+
+			const frame = source.nextFrame()
+			if (!frame) {
+				// Underrun: rebuffer rather than play the source in stutters, with
+				// the rotation filling in if that takes more than a moment
+				if (!(await source.waitUntilReady(LIVE_UNDERRUN_WAIT_MS))) {
+					console.warn(
+						source.isEnded()
+							? '[Engine] Live source ended; resuming the rotation'
+							: '[Engine] Live source ran dry; resuming the rotation until it rebuffers',
+					)
+					break
+				}
+				timer.reset()
+				continue
+			}
+
+			this.broadcast(frame)
+			timer.addTime(frame.header.frameDurationMs)
+			await timer.wait()
+		}
+
+		endSegment()
+		// Kept if it's only rebuffering: it takes over again once ready
+		if (this.live === source && (source.isEnded() || !this.isRunning)) {
+			this.live = null
+			source.end()
+		}
+	}
+
+	/**
+	 * Whether the live source can take over now. One that has sent nothing
+	 * for LIVE_STALL_TIMEOUT_MS is dropped.
+	 */
+	private isLiveReady(): boolean {
+		const source = this.live
+		if (!source) return false
+		if (source.isEnded() || source.idleMs(Date.now()) > LIVE_STALL_TIMEOUT_MS) {
+			console.warn('[Engine] Live source ended or stalled; dropped')
+			this.live = null
+			source.end()
+			return false
+		}
+		return source.isReady()
+	}
+
+	/**
+	 * Hand the stream to a live source. It takes over at the next frame
+	 * boundary once it has buffered enough audio. False if one is already live.
+	 */
+	goLive(source: LiveSource): boolean {
+		if (this.live && !this.live.isEnded()) return false
+		this.live = source
+		console.log(`[Engine] Live source connected: ${source.info.name ?? 'unnamed'}`)
+		return true
+	}
+
+	/**
+	 * Drop a live source (it disconnected, or an admin kicked it)
+	 */
+	endLive(source: LiveSource): void {
+		source.end()
+		if (this.live === source) {
+			this.live = null
+			console.log('[Engine] Live source disconnected')
+		}
+	}
+
+	getLiveSource(): LiveSource | null {
+		return this.live
+	}
+
 	stop(): void {
 		this.isRunning = false
 		if (this.reaperInterval) {
@@ -494,13 +989,44 @@ class StreamEngine {
 		console.log('[Engine] Stopped')
 	}
 
+	/**
+	 * End every stream and SSE connection (e.g. when a station is deleted).
+	 * The 'close' handlers registered in addClient/addSSEClient clean up state.
+	 */
+	disconnectAll(): void {
+		for (const client of this.clients.keys()) {
+			client.end()
+		}
+		for (const client of this.sseClients) {
+			client.end()
+		}
+	}
+
 	/**
 	 * Skip the currently playing track
-	 * Called when the current track is deleted from the playlist
+	 * Called when the current track is deleted from the playlist, or another is
+	 * to play now. With `dropHandoff`, a next track already committed near the
+	 * end of this one is dropped too, so the playlist is asked again.
 	 */
-	skipCurrentTrack(): void {
+	skipCurrentTrack(options: { dropHandoff?: boolean } = {}): void {
 		console.log('[Engine] Skip requested for current track')
 		this.skipRequested = true
+		if (options.dropHandoff) this.dropHandoffRequested = true
+	}
+
+	addObserver(observer: EngineObserver): void {
+		this.observers.add(observer)
+	}
+
+	removeObserver(observer: EngineObserver): void {
+		this.observers.delete(observer)
+	}
+
+	/**
+	 * Whether a listener session is currently connected to this stream
+	 */
+	hasSession(sessionId: string): boolean {
+		return this.sessions.has(sessionId)
 	}
 
 	getNowPlaying(): NowPlaying | null {
@@ -512,8 +1038,14 @@ class StreamEngine {
 			isRunning: this.isRunning,
 			// Use unique session count if available, fallback to raw client count
 			listenerCount: this.sessions.size > 0 ? this.sessions.size : this.clients.size,
+			uniqueSessions: this.sessions.size,
+			rawConnections: this.clients.size,
 			sseClientCount: this.sseClients.size,
 			nowPlaying: this.nowPlaying,
+			crossfadeMs: this.crossfadeMs,
+			fadeOnSkipMs: this.fadeOnSkipMs,
+			pacing: this.pacer.getStats(),
+			live: this.live ? this.live.getStatus() : null,
 		}
 	}
 }
@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test'
+import {
+	adtsFrameLength,
+	buildTranscodeArgs,
+	isOggHeaderPage,
+	MOUNT_DEFINITIONS,
+	mp3FrameLength,
+	oggPageLength,
+	UnitSplitter,
+} from './transcodeMount'
+
+function oggPage(granule: bigint, body: Buffer): Buffer {
+	const header = Buffer.alloc(28)
+	header.write('OggS', 0, 'latin1')
+	header.writeBigInt64LE(granule, 6)
+	header[26] = 1 // one lacing value
+	header[27] = body.length
+	return Buffer.concat([header, body])
+}
+
+function adtsFrame(length: number): Buffer {
+	const frame = Buffer.alloc(length)
+	frame[0] = 0xff
+	frame[1] = 0xf1
+	frame[3] = (length >> 11) & 0x03
+	frame[4] = (length >> 3) & 0xff
+	frame[5] = (length & 0x07) << 5
+	return frame
+}
+
+// MPEG1 Layer III, 128 kbps, 44.1 kHz: 417-byte frame
+function mp3Frame(): Buffer {
+	const frame = Buffer.alloc(417)
+	Buffer.from([0xff, 0xfb, 0x90, 0x64]).copy(frame)
+	return frame
+}
+
+describe('unit lengths', () => {
+	test('measures Ogg pages and flags header pages', () => {
+		const page = oggPage(0n, Buffer.alloc(19))
+		expect(oggPageLength(page, 0)).toBe(47)
+		expect(oggPageLength(page.subarray(0, 20), 0)).toBe(0)
+		expect(oggPageLength(Buffer.from('nope, not ogg here'), 0)).toBe(-1)
+		expect(isOggHeaderPage(page)).toBe(true)
+		expect(isOggHeaderPage(oggPage(-1n, Buffer.alloc(1)))).toBe(true)
+		expect(isOggHeaderPage(oggPage(960n, Buffer.alloc(1)))).toBe(false)
+	})
+
+	test('measures ADTS and MP3 frames', () => {
+		expect(adtsFrameLength(adtsFrame(371), 0)).toBe(371)
+		expect(adtsFrameLength(Buffer.alloc(10), 0)).toBe(-1)
+		expect(mp3FrameLength(mp3Frame(), 0)).toBe(417)
+		expect(mp3FrameLength(Buffer.alloc(8), 0)).toBe(-1)
+	})
+})
+
+describe('UnitSplitter', () => {
+	test('reassembles units split across chunks and skips junk', () => {
+		const splitter = new UnitSplitter('adts')
+		const stream = Buffer.concat([Buffer.from([1, 2, 3]), adtsFrame(300), adtsFrame(200)])
+
+		expect(splitter.push(stream.subarray(0, 150))).toEqual([])
+		const units = splitter.push(stream.subarray(150))
+		expect(units.map(unit => unit.length)).toEqual([300, 200])
+		expect(units[0]?.[0]).toBe(0xff)
+	})
+
+	test('holds a partial unit until it completes', () => {
+		const splitter = new UnitSplitter('mp3')
+		const frames = Buffer.concat([mp3Frame(), mp3Frame()])
+		expect(splitter.push(frames.subarray(0, 500)).length).toBe(1)
+		expect(splitter.push(frames.subarray(500)).length).toBe(1)
+	})
+})
+
+describe('buildTranscodeArgs', () => {
+	test('reads MP3 from stdin and writes the mount format to stdout', () => {
+		for (const definition of MOUNT_DEFINITIONS) {
+			const args = buildTranscodeArgs(definition)
+			expect(args.slice(args.indexOf('-i') - 2, args.indexOf('-i') + 2)).toEqual([
+				'-f',
+				'mp3',
+				'-i',
+				'pipe:0',
+			])
+			expect(args[args.length - 1]).toBe('pipe:1')
+		}
+	})
+
+	test('defines the opus, aac and low-bitrate mp3 mounts', () => {
+		expect(MOUNT_DEFINITIONS.map(definition => definition.path)).toEqual([
+			'/stream.opus',
+			'/stream.aac',
+			'/stream-64k.mp3',
+		])
+		const opus = MOUNT_DEFINITIONS[0]
+		expect(opus && buildTranscodeArgs(opus)).toContain('libopus')
+	})
+})
@@ -0,0 +1,424 @@
+/**
+ * TRANSCODED MOUNTS
+ * =================
+ * Extra outputs for bandwidth-constrained listeners (`/stream.opus`,
+ * `/stream.aac`, `/stream-64k.mp3`). Each mount pipes the engine's frames
+ * through its own ffmpeg process and fans the encoded output out to its
+ * listeners, like StreamEngine does for the passthrough `/stream`.
+ *
+ * The encoder only runs while someone listens: it starts with the first
+ * listener of the mount and is stopped when the last one leaves.
+ *
+ * Output is split into whole codec units (Ogg pages, ADTS frames, MP3 frames)
+ * so the burst-on-connect backlog always starts on a boundary a decoder can
+ * pick up from. Ogg streams also need their header pages (OpusHead/OpusTags),
+ * which are kept and replayed to every new listener ahead of the backlog.
+ */
+
+import { type ChildProcessWithoutNullStreams, spawn } from 'node:child_process'
+import { randomUUID } from 'node:crypto'
+import type { Response } from 'express'
+import { FFMPEG } from './audioNormalizer'
+import { toIcyHeaderValue } from './icy'
+import { parseFrameHeader } from './mp3parser'
+import { BURST_LIMIT_BYTES, type EngineObserver } from './streamEngine'
+import type { ListenerObserver, Mp3Frame } from './types'
+
+// Same limits as the passthrough stream's reaper
+const STALL_TIMEOUT_MS = 45_000
+
+export type MountFraming = 'ogg' | 'adts' | 'mp3'
+
+export interface MountDefinition {
+	path: string // Route, also aliased under /stations/:stationId
+	contentType: string
+	framing: MountFraming
+	codecArgs: string[] // ffmpeg output options
+}
+
+export const MOUNT_DEFINITIONS: MountDefinition[] = [
+	{
+		path: '/stream.opus',
+		contentType: 'audio/ogg',
+		framing: 'ogg',
+		codecArgs: ['-c:a', 'libopus', '-b:a', '64k', '-ar', '48000', '-f', 'ogg'],
+	},
+	{
+		path: '/stream.aac',
+		contentType: 'audio/aac',
+		framing: 'adts',
+		codecArgs: ['-c:a', 'aac', '-b:a', '96k', '-f', 'adts'],
+	},
+	{
+		path: '/stream-64k.mp3',
+		contentType: 'audio/mpeg',
+		framing: 'mp3',
+		codecArgs: ['-c:a', 'libmp3lame', '-b:a', '64k', '-write_xing', '0', '-id3v2_version', '0', '-f', 'mp3'],
+	},
+]
+
+/**
+ * ffmpeg arguments reading raw MP3 frames on stdin and writing the mount's
+ * encoding to stdout
+ */
+export function buildTranscodeArgs(definition: MountDefinition): string[] {
+	return [
+		'-hide_banner',
+		'-loglevel',
+		'error',
+		'-f',
+		'mp3',
+		'-i',
+		'pipe:0',
+		'-vn',
+		...definition.codecArgs,
+		'-flush_packets',
+		'1',
+		'pipe:1',
+	]
+}
+
+/**
+ * Length of the Ogg page at `offset`: >0 = complete page of that many bytes,
+ * 0 = need more data, -1 = no page starts here
+ */
+export function oggPageLength(buf: Buffer, offset: number): number {
+	if (buf.length - offset < 4) return 0
+	if (buf.toString('latin1', offset, offset + 4) !== 'OggS') return -1
+	if (buf.length - offset < 27) return 0
+	const segments = buf[offset + 26] ?? 0
+	const headerLength = 27 + segments
+	if (buf.length - offset < headerLength) return 0
+	let bodyLength = 0
+	for (let i = 0; i < segments; i++) {
+		bodyLength += buf[offset + 27 + i] ?? 0
+	}
+	return headerLength + bodyLength
+}
+
+/**
+ * Whether an Ogg page carries stream headers rather than audio (granule
+ * position 0, or -1 for a header packet continuing onto the next page)
+ */
+export function isOggHeaderPage(page: Buffer): boolean {
+	return page.readBigInt64LE(6) <= 0n
+}
+
+/**
+ * Length of the ADTS (AAC) frame at `offset`, same convention as oggPageLength
+ */
+export function adtsFrameLength(buf: Buffer, offset: number): number {
+	if (buf.length - offset < 7) return 0
+	if (buf[offset] !== 0xff || ((buf[offset + 1] ?? 0) & 0xf6) !== 0xf0) return -1
+	const length =
+		(((buf[offset + 3] ?? 0) & 0x03) << 11) | ((buf[offset + 4] ?? 0) << 3) | ((buf[offset + 5] ?? 0) >> 5)
+	return length >= 7 ? length : -1
+}
+
+/**
+ * Length of the MP3 frame at `offset`, same convention as oggPageLength
+ */
+export function mp3FrameLength(buf: Buffer, offset: number): number {
+	if (buf.length - offset < 4) return 0
+	const header = parseFrameHeader(buf.subarray(offset, offset + 4))
+	return header && header.frameSize > 0 ? header.frameSize : -1
+}
+
+const UNIT_LENGTH: Record<MountFraming, (buf: Buffer, offset: number) => number> = {
+	ogg: oggPageLength,
+	adts: adtsFrameLength,
+	mp3: mp3FrameLength,
+}
+
+/**
+ * Reassembles an encoder's stdout chunks into whole units, skipping any
+ * bytes that don't start one
+ */
+export class UnitSplitter {
+	private pending: Buffer = Buffer.alloc(0)
+	private readonly unitLength: (buf: Buffer, offset: number) => number
+
+	constructor(framing: MountFraming) {
+		this.unitLength = UNIT_LENGTH[framing]
+	}
+
+	push(chunk: Buffer): Buffer[] {
+		const buf = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk
+		const units: Buffer[] = []
+		let offset = 0
+		while (offset < buf.length) {
+			const length = this.unitLength(buf, offset)
+			if (length === 0 || offset + length > buf.length) break
+			if (length < 0) {
+				offset++
+				continue
+			}
+			units.push(buf.subarray(offset, offset + length))
+			offset += length
+		}
+		this.pending = Buffer.from(buf.subarray(offset))
+		return units
+	}
+}
+
+export interface MountOptions {
+	name: string // Station name, sent as icy-name
+	genre: string
+	listenerObserver?: ListenerObserver // Told about each connection (analytics)
+}
+
+interface MountClient {
+	key: string
+	sessionId: string | undefined
+	stalledSince: number
+}
+
+class TranscodeMount implements EngineObserver {
+	readonly definition: MountDefinition
+	private readonly name: string
+	private readonly genre: string
+	private readonly listenerObserver: ListenerObserver | null
+
+	private clients: Map<Response, MountClient> = new Map()
+	private sessions: Map<string, Response> = new Map() // sessionId -> connection
+	private encoder: ChildProcessWithoutNullStreams | null = null
+	private splitter: UnitSplitter | null = null
+	// Frames dropped since the encoder's stdin filled up, or null while it keeps up
+	private encoderBacklogDrops: number | null = null
+
+	// Ogg header pages of the running encoder, replayed before the backlog
+	private headerUnits: Buffer[] = []
+	private inHeaders = false
+	private burstUnits: Buffer[] = []
+	private burstBytes = 0
+
+	constructor(definition: MountDefinition, options: MountOptions) {
+		this.definition = definition
+		this.name = options.name
+		this.genre = options.genre
+		this.listenerObserver = options.listenerObserver ?? null
+	}
+
+	/**
+	 * Add a listener, starting the encoder if it's the first
+	 * @param sessionId - Unique session ID from client (for deduplication)
+	 */
+	addClient(res: Response, sessionId?: string): void {
+		res.setHeader('Content-Type', this.definition.contentType)
+		res.setHeader('Cache-Control', 'no-cache, no-store')
+		res.setHeader('Connection', 'keep-alive')
+		res.setHeader('Transfer-Encoding', 'chunked')
+		res.setHeader('Access-Control-Allow-Origin', '*')
+		res.setHeader('X-Accel-Buffering', 'no')
+		res.setHeader('icy-name', toIcyHeaderValue(this.name))
+		res.setHeader('icy-genre', toIcyHeaderValue(this.genre))
+		res.socket?.setKeepAlive(true, 30_000)
+
+		if (!this.encoder) {
+			this.startEncoder()
+		}
+
+		// Headers + backlog before joining the live set, as in StreamEngine.addClient
+		const backlog = [...this.headerUnits, ...this.burstUnits]
+		if (backlog.length > 0) {
+			try {
+				res.write(Buffer.concat(backlog))
+			} catch (err) {
+				console.error(`[Mount ${this.definition.path}] Burst write failed:`, (err as Error).message)
+			}
+		}
+
+		if (sessionId) {
+			// Same session reconnecting - close the old connection
+			this.sessions.get(sessionId)?.end()
+			this.sessions.set(sessionId, res)
+		}
+		const key = randomUUID()
+		this.clients.set(res, { key, sessionId, stalledSince: 0 })
+		this.listenerObserver?.onListenerStart({
+			key,
+			sessionId: sessionId ?? null,
+			mount: this.definition.path,
+			userAgent: res.req.headers['user-agent'] ?? null,
+			startedAt: Date.now(),
+		})
+		console.log(`[Mount ${this.definition.path}] Listener connected (${this.listenerCount()})`)
+
+		res.on('close', () => this.removeClient(res))
+		res.on('error', err => {
+			console.error(`[Mount ${this.definition.path}] Client error:`, err.message)
+			this.removeClient(res)
+		})
+	}
+
+	private removeClient(res: Response): void {
+		const client = this.clients.get(res)
+		if (!client) return
+		this.clients.delete(res)
+		this.listenerObserver?.onListenerEnd(client.key, Date.now())
+		if (client.sessionId && this.sessions.get(client.sessionId) === res) {
+			this.sessions.delete(client.sessionId)
+		}
+		console.log(`[Mount ${this.definition.path}] Listener disconnected (${this.listenerCount()})`)
+		if (this.clients.size === 0) {
+			this.stopEncoder()
+		}
+	}
+
+	private startEncoder(): void {
+		const encoder = spawn(FFMPEG, buildTranscodeArgs(this.definition))
+		const splitter = new UnitSplitter(this.definition.framing)
+		this.encoder = encoder
+		this.splitter = splitter
+		this.inHeaders = this.definition.framing === 'ogg'
+		console.log(`[Mount ${this.definition.path}] Encoder started`)
+
+		encoder.stdout.on('data', (chunk: Buffer) => {
+			if (this.splitter !== splitter) return
+			for (const unit of splitter.push(chunk)) {
+				this.publish(unit)
+			}
+		})
+		encoder.stderr.on('data', (chunk: Buffer) => {
+			console.error(`[Mount ${this.definition.path}] ffmpeg: ${chunk.toString().trim()}`)
+		})
+		// Died (or never started) while listeners remain: end them so players
+		// reconnect to a fresh encoder
+		const fail = (reason: string) => {
+			if (this.encoder !== encoder) return
+			console.error(`[Mount ${this.definition.path}] ${reason}`)
+			this.resetEncoderState()
+			for (const res of this.clients.keys()) {
+				res.end()
+			}
+		}
+		// Writes after the encoder died; the exit handler deals with it
+		encoder.stdin.on('error', () => {})
+		encoder.on('error', err => fail(`Failed to start ${FFMPEG}: ${err.message}`))
+		encoder.on('close', code => fail(`Encoder exited unexpectedly (code ${code})`))
+	}
+
+	private stopEncoder(): void {
+		const encoder = this.encoder
+		if (!encoder) return
+		this.resetEncoderState()
+		encoder.stdin.end()
+		encoder.kill('SIGTERM')
+		console.log(`[Mount ${this.definition.path}] Encoder stopped (no listeners)`)
+	}
+
+	private resetEncoderState(): void {
+		this.encoder = null
+		this.splitter = null
+		this.encoderBacklogDrops = null
+		this.headerUnits = []
+		this.burstUnits = []
+		this.burstBytes = 0
+	}
+
+	/**
+	 * Send one encoded unit to every listener and record it for new ones
+	 */
+	private publish(unit: Buffer): void {
+		if (this.inHeaders) {
+			if (isOggHeaderPage(unit)) {
+				this.headerUnits.push(unit)
+			} else {
+				this.inHeaders = false
+			}
+		}
+		if (!this.inHeaders) {
+			this.burstUnits.push(unit)
+			this.burstBytes += unit.length
+			while (this.burstBytes > BURST_LIMIT_BYTES && this.burstUnits.length > 1) {
+				const removed = this.burstUnits.shift()
+				if (removed) this.burstBytes -= removed.length
+			}
+		}
+
+		const now = Date.now()
+		for (const [res, client] of this.clients) {
+			if (client.stalledSince !== 0) {
+				// Backpressured: skip, and drop it once the stall outlasts the timeout
+				if (now - client.stalledSince > STALL_TIMEOUT_MS) {
+					res.destroy()
+				}
+				continue
+			}
+			try {
+				if (!res.write(unit)) {
+					client.stalledSince = now
+					res.once('drain', () => {
+						client.stalledSince = 0
+					})
+				}
+			} catch (err) {
+				console.error(`[Mount ${this.definition.path}] Write error:`, err)
+				res.destroy()
+			}
+		}
+	}
+
+	/**
+	 * Feed a frame to the encoder. While it's behind (stdin backpressured),
+	 * frames are dropped rather than queued in memory; the decoder resyncs on
+	 * the next one.
+	 */
+	onFrame(frame: Mp3Frame): void {
+		const encoder = this.encoder
+		if (!encoder?.stdin.writable) return
+		if (this.encoderBacklogDrops !== null) {
+			this.encoderBacklogDrops++
+			return
+		}
+		if (!encoder.stdin.write(frame.data)) {
+			this.encoderBacklogDrops = 0
+			encoder.stdin.once('drain', () => {
+				if (this.encoder !== encoder) return
+				if (this.encoderBacklogDrops) {
+					console.warn(
+						`[Mount ${this.definition.path}] Encoder fell behind; dropped ${this.encoderBacklogDrops} frame(s)`,
+					)
+				}
+				this.encoderBacklogDrops = null
+			})
+		}
+	}
+
+	hasSession(sessionId: string): boolean {
+		return this.sessions.has(sessionId)
+	}
+
+	listenerCount(): number {
+		// Unique sessions plus connections that didn't send one
+		let anonymous = 0
+		for (const client of this.clients.values()) {
+			if (!client.sessionId) anonymous++
+		}
+		return this.sessions.size + anonymous
+	}
+
+	/**
+	 * Disconnect every listener (e.g. when a station is deleted)
+	 */
+	closeAll(): void {
+		const now = Date.now()
+		for (const [res, client] of this.clients) {
+			res.end()
+			this.listenerObserver?.onListenerEnd(client.key, now)
+		}
+		this.clients.clear()
+		this.sessions.clear()
+		this.stopEncoder()
+	}
+
+	getStatus() {
+		return {
+			path: this.definition.path,
+			listenerCount: this.listenerCount(),
+			encoderRunning: this.encoder !== null,
+		}
+	}
+}
+
+export { TranscodeMount }
@@ -1,8 +1,55 @@
+export type MpegVersion = 1 | 2 | 2.5
+export type MpegLayer = 1 | 2 | 3
+export type ChannelMode = 'stereo' | 'joint-stereo' | 'dual-channel' | 'mono'
+
 export interface Mp3FrameHeader {
-	frameSize: number
-	bitrate: number
+	frameSize: number // Bytes, header/CRC/padding included (0 = free-format, not yet measured)
+	bitrate: number // kbps
 	sampleRate: number
 	frameDurationMs: number
+	mpegVersion: MpegVersion
+	layer: MpegLayer
+	samplesPerFrame: number
+	padding: boolean
+	crcProtected: boolean // 16-bit CRC follows the header
+	channelMode: ChannelMode
+	freeFormat: boolean
+}
+
+/**
+ * Contents of the Xing/Info or VBRI metadata frame some encoders put first
+ */
+export interface VbrHeader {
+	kind: 'xing' | 'info' | 'vbri' // 'info' is LAME's name for the Xing header of a CBR file
+	frameCount: number | null // Audio frames, not counting the header frame
+	byteCount: number | null // Bytes from the start of the header frame to the end of the audio
+	toc: number[] | null // Xing: 100 entries, byte position at each percent in 1/256ths of byteCount
+	vbriToc: { entries: number[]; framesPerEntry: number } | null // VBRI: byte size of each run of frames
+	encoderDelay: number // Samples of encoder delay at the start (LAME tag; 0 if unknown)
+	encoderPadding: number // Samples of padding at the end
+}
+
+export interface Mp3StreamInfo {
+	vbrHeader: VbrHeader['kind'] | null
+	frameCount: number | null // From the VBR header (null = unknown)
+	audioBytes: number // Excluding tags and the VBR header frame
+	toc: number[] | null
+	encoderDelay: number
+	encoderPadding: number
+	durationMs: number | null // Exact with a frame count, else a constant-bitrate estimate
+}
+
+export interface Mp3ReaderStats {
+	frames: number // Audio frames returned
+	audioBytes: number // Bytes of those frames
+	resyncs: number // Runs of non-frame bytes skipped
+	resyncBytes: number // Total bytes skipped while resyncing
+	reads: number // Disk reads (chunks)
+}
+
+export interface Mp3Frame {
+	data: Buffer // Whole frame, header included
+	header: Mp3FrameHeader
 }
 
 export interface Track {
@@ -13,6 +60,8 @@ export interface Track {
 	album?: string
 	albumArtUrl?: string
 	durationMs?: number
+	tags?: string[] // Lowercase labels for schedule pools, e.g. "mellow"
+	interstitial?: boolean // Jingle or announcement played between songs
 	// Platform links
 	spotifyUrl?: string
 	youtubeUrl?: string
@@ -22,6 +71,96 @@ export interface Track {
 export interface NowPlaying {
 	track: Track
 	startedAt: number
+	// Set while a jingle plays, with the song before it for players to keep showing
+	interstitial?: boolean
+	lastSong?: Track
+	live?: boolean // A DJ's live source, titled from its metadata
+	reactions?: ReactionCounts // For the song shown (lastSong during a jingle)
+}
+
+/**
+ * Listener likes and dislikes for a track (see reactions.ts)
+ */
+export interface ReactionCounts {
+	likes: number
+	dislikes: number
+}
+
+/**
+ * One listener connection as reported to a ListenerObserver. `key` is unique
+ * per connection; `sessionId` is the player's sid when it sent one.
+ */
+export interface ListenerConnection {
+	key: string
+	sessionId: string | null
+	mount: string // Output listened to: '/stream', '/hls', '/stream.opus', ...
+	userAgent: string | null
+	startedAt: number
+}
+
+/**
+ * Notified as listeners come and go on any of a station's outputs
+ */
+export interface ListenerObserver {
+	onListenerStart(connection: ListenerConnection): void
+	onListenerEnd(key: string, endedAt: number): void
+}
+
+export interface QueueEntry {
+	id: string
+	filename: string
+	source: 'admin' | 'listener'
+	sessionId?: string // Listener session that requested it
+	requestedAt: number
+}
+
+export type PlaybackMode = 'sequential' | 'shuffle' | 'smart'
+
+/**
+ * One line of a station's play history: a snapshot of what played, taken when
+ * it ended
+ */
+export interface PlayHistoryEntry {
+	trackId: string
+	filename: string | null // null for a live source
+	title: string
+	artist: string
+	album?: string
+	startedAt: number
+	endedAt: number
+	skipped: boolean // Cut short by a skip or a live source
+	listeners: number // Listening on any output when it started
+	live?: boolean
+}
+
+/**
+ * A subset of a station's tracks a schedule slot can play: every track with
+ * one of `tags`, plus the filenames listed in `tracks`
+ */
+export interface SchedulePool {
+	id: string
+	name: string
+	tags: string[]
+	tracks: string[]
+}
+
+/**
+ * A weekly time block during which a pool plays. Times are "HH:MM" in the
+ * schedule's timezone; an `end` at or before `start` runs past midnight.
+ */
+export interface ScheduleSlot {
+	id: string
+	name: string // Show name, e.g. "Morning Coffee"
+	poolId: string
+	days: number[] // 0 = Sunday ... 6 = Saturday (day the slot starts)
+	start: string
+	end: string
+}
+
+export interface ScheduleConfig {
+	timezone: string // IANA name, e.g. "Europe/Berlin"
+	pools: SchedulePool[]
+	slots: ScheduleSlot[] // Earlier slots win where they overlap
 }
 
 export interface PlaylistState {
@@ -29,4 +168,10 @@ export interface PlaylistState {
 	currentTrackFilename: string | null
 	currentTrackIndex: number
 	lastUpdated: number
+	// Optional so state files written before playback modes existed still load
+	playbackMode?: PlaybackMode
+	smartRotationWindow?: number // Tracks an artist/album must wait before repeating
+	shuffleBag?: string[] // Filenames left in the current shuffle pass
+	recentlyPlayed?: string[] // Filenames, most recent first
+	queue?: QueueEntry[] // Up-next entries, played before the rotation resumes
 }